@@ -0,0 +1,252 @@
+import type { AgentContext, AgentRequest, AgentResponse } from "@agentuity/sdk";
+import { ResultAsync } from "neverthrow";
+import z from "zod";
+import { compareToBaseline } from "../../lib/anomaly";
+import {
+  archiveDigest,
+  buildChannelDigest,
+  type DigestMetrics,
+  type DigestSource,
+  digestMetrics,
+  digestPeriod,
+  findPreviousDigest,
+  listArchivedDigests,
+  previousPeriod,
+  publishedIn,
+  readArchivedDigest,
+  renderChannelDigestMarkdown,
+} from "../../lib/channel-digest";
+import { getChannel, type RegisteredChannel } from "../../lib/channel-registry";
+import {
+  AGENT_ERROR,
+  type AgentError,
+  errorResponse,
+  invalidInput,
+  toAgentError,
+} from "../../lib/errors";
+import {
+  currentSections,
+  readVideoMemory,
+  renderMemoryNotes,
+  storedSnapshot,
+} from "../../lib/video-memory";
+import { readWatchedVideos } from "../../lib/watched-videos";
+
+// where comments-watcher and legacy-channel-bot index the videos they've
+// looked at
+const SNAPSHOT_NAMESPACE = "comments-watcher";
+const MEMORY_NAMESPACE = "video_memories";
+
+const inputJsonSchema = z.preprocess(
+  // requests without a mode build a digest
+  (value) =>
+    typeof value === "object" && value !== null && !("mode" in value)
+      ? { ...value, mode: "build" }
+      : value,
+  z.discriminatedUnion("mode", [
+    z.object({
+      mode: z.literal("build"),
+      // registered channel name or id
+      channel: z.string(),
+      // UTC dates, defaults to the last `days` full days
+      from: z.iso.date().optional(),
+      to: z.iso.date().optional(),
+      days: z.number().int().min(1).max(31).default(7),
+      // keep the digest so the next one can compare against it
+      archive: z.boolean().default(true),
+    }),
+    z.object({ mode: z.literal("list"), channel: z.string() }),
+    z.object({
+      mode: z.literal("get"),
+      channel: z.string(),
+      // defaults to the newest archived digest
+      key: z.string().optional(),
+    }),
+  ])
+);
+
+type DigestRequest = z.infer<typeof inputJsonSchema>;
+
+/**
+ * Every stored video of the channel published in the period, with whatever
+ * comments-watcher and legacy-channel-bot have on it.
+ */
+const collectSources = async (
+  ctx: AgentContext,
+  channel: RegisteredChannel,
+  period: { from: string; to: string }
+) => {
+  // snapshots carry YouTube's channel title, the legacy index the registry
+  // name, so both are matched on the name
+  const name = channel.name.toLowerCase();
+  const watched = [
+    ...(await readWatchedVideos({ ctx, namespace: SNAPSHOT_NAMESPACE })),
+    ...(await readWatchedVideos({ ctx, namespace: MEMORY_NAMESPACE })),
+  ].filter(
+    (v) =>
+      v.channelTitle.toLowerCase() === name &&
+      publishedIn(v.publishedAt, period)
+  );
+  const videos = new Map(watched.map((v) => [v.videoId, v]));
+
+  const sources: DigestSource[] = [];
+  for (const video of videos.values()) {
+    const sections = currentSections(await readVideoMemory(ctx, video.videoId));
+    const { snapshot } = storedSnapshot(sections);
+    const memory = renderMemoryNotes(sections);
+
+    const vsBaseline = snapshot
+      ? await compareToBaseline({
+          ctx,
+          channelId: channel.channelId,
+          video: {
+            videoId: video.videoId,
+            publishedAt: snapshot.video.publishedAt,
+            viewCount: snapshot.stats.viewCount,
+          },
+          at: new Date(snapshot.takenAt),
+        })
+      : null;
+
+    sources.push({
+      videoId: video.videoId,
+      title: video.title,
+      publishedAt: video.publishedAt,
+      snapshot,
+      memory,
+      vsBaseline,
+    });
+  }
+
+  return sources;
+};
+
+const buildDigest = async (
+  ctx: AgentContext,
+  channel: RegisteredChannel,
+  input: Extract<DigestRequest, { mode: "build" }>
+) => {
+  const period = digestPeriod(input);
+  if (period.from >= period.to) {
+    throw new AGENT_ERROR(
+      invalidInput(`"from" (${period.from}) must be before "to" (${period.to})`)
+    );
+  }
+
+  const sources = await collectSources(ctx, channel, period);
+
+  // prefer the archived digest, it's what was reported at the time
+  const archived = await findPreviousDigest(ctx, channel.channelId, period);
+  let previous: { key: string | null; metrics: DigestMetrics } | null = archived
+    ? { key: archived.key, metrics: archived.metrics }
+    : null;
+  if (!previous) {
+    const earlier = await collectSources(ctx, channel, previousPeriod(period));
+    if (earlier.length > 0) {
+      previous = { key: null, metrics: digestMetrics(earlier) };
+    }
+  }
+
+  const digest = buildChannelDigest({
+    channel: { name: channel.name, channelId: channel.channelId },
+    period,
+    sources,
+    previous,
+  });
+
+  if (input.archive) {
+    await archiveDigest(ctx, digest);
+  }
+
+  ctx.logger.info("digest built", {
+    channel: channel.name,
+    key: digest.key,
+    videos: digest.metrics.videoCount,
+    comparedWith: previous ? (previous.key ?? "computed") : null,
+    archived: input.archive,
+  });
+
+  return { digest, markdown: renderChannelDigestMarkdown(digest) };
+};
+
+const runRequest = async (
+  input: DigestRequest,
+  ctx: AgentContext
+): Promise<object> => {
+  const channel = await getChannel(ctx, input.channel);
+  if (!channel) {
+    throw new AGENT_ERROR({
+      code: "channel_not_found",
+      message: `Channel not found: ${input.channel}`,
+      channel: input.channel,
+    });
+  }
+
+  switch (input.mode) {
+    case "build":
+      return buildDigest(ctx, channel, input);
+    case "list":
+      return listArchivedDigests(ctx, channel.channelId);
+    case "get": {
+      const key =
+        input.key ??
+        (await listArchivedDigests(ctx, channel.channelId))[0]?.key;
+      const digest = key ? await readArchivedDigest(ctx, key) : null;
+      if (!digest) {
+        throw new AGENT_ERROR({
+          code: "invalid_input",
+          message: key
+            ? `No archived digest ${key}`
+            : `No digests archived for ${channel.name} yet`,
+        });
+      }
+      return { digest, markdown: renderChannelDigestMarkdown(digest) };
+    }
+  }
+};
+
+export default async function Agent(
+  req: AgentRequest,
+  resp: AgentResponse,
+  ctx: AgentContext
+) {
+  const jsonResult = await ResultAsync.fromPromise(req.data.json(), () =>
+    invalidInput("Failed to parse request data, must be a JSON object")
+  );
+
+  if (jsonResult.isErr()) {
+    return errorResponse(resp, jsonResult.error);
+  }
+
+  const parseResult = inputJsonSchema.safeParse(jsonResult.value);
+
+  if (!parseResult.success) {
+    return errorResponse(
+      resp,
+      invalidInput(
+        'Invalid request data, must be a JSON object with a "channel"',
+        parseResult.error.issues
+      )
+    );
+  }
+
+  const result = await ResultAsync.fromPromise(
+    runRequest(parseResult.data, ctx),
+    (e): AgentError => {
+      ctx.logger.error(e);
+      return toAgentError(e, {
+        code: "internal",
+        message: `Failed to ${parseResult.data.mode} the digest`,
+      });
+    }
+  );
+
+  if (result.isErr()) {
+    return errorResponse(resp, result.error);
+  }
+
+  return resp.json({
+    success: true,
+    data: result.value,
+  });
+}
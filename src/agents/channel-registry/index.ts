@@ -0,0 +1,86 @@
+import type { AgentContext, AgentRequest, AgentResponse } from "@agentuity/sdk";
+import { ResultAsync } from "neverthrow";
+import z from "zod";
+import {
+  addChannel,
+  channelInputSchema,
+  channelPatchSchema,
+  listChannels,
+  removeChannel,
+  updateChannel,
+} from "../../lib/channel-registry";
+import { errorResponse, invalidInput, toAgentError } from "../../lib/errors";
+
+const inputJsonSchema = z.discriminatedUnion("action", [
+  z.object({ action: z.literal("list") }),
+  z.object({ action: z.literal("add"), channel: channelInputSchema }),
+  z.object({
+    action: z.literal("update"),
+    channel: z.string(),
+    patch: channelPatchSchema,
+  }),
+  z.object({ action: z.literal("remove"), channel: z.string() }),
+]);
+
+type RegistryRequest = z.infer<typeof inputJsonSchema>;
+
+const runAction = async (input: RegistryRequest, ctx: AgentContext) => {
+  switch (input.action) {
+    case "list":
+      return listChannels(ctx);
+    case "add":
+      return addChannel(ctx, input.channel);
+    case "update":
+      return updateChannel(ctx, input.channel, input.patch);
+    case "remove":
+      return removeChannel(ctx, input.channel);
+  }
+};
+
+export default async function Agent(
+  req: AgentRequest,
+  resp: AgentResponse,
+  ctx: AgentContext
+) {
+  const jsonResult = await ResultAsync.fromPromise(req.data.json(), () =>
+    invalidInput("Failed to parse request data, must be a JSON object")
+  );
+
+  if (jsonResult.isErr()) {
+    return errorResponse(resp, jsonResult.error);
+  }
+
+  const parseResult = inputJsonSchema.safeParse(jsonResult.value);
+
+  if (!parseResult.success) {
+    return errorResponse(
+      resp,
+      invalidInput(
+        'Invalid request data, must be a JSON object with an "action" of list, add, update or remove',
+        parseResult.error.issues
+      )
+    );
+  }
+
+  const result = await ResultAsync.fromPromise(
+    runAction(parseResult.data, ctx),
+    (e) => {
+      ctx.logger.error(e);
+      return toAgentError(e, {
+        code: "internal",
+        message: "Failed to update the channel registry",
+      });
+    }
+  );
+
+  if (result.isErr()) {
+    return errorResponse(resp, result.error);
+  }
+
+  ctx.logger.info(`channel registry ${parseResult.data.action} succeeded`);
+
+  return resp.json({
+    success: true,
+    data: result.value,
+  });
+}
@@ -1,46 +1,256 @@
 import type { AgentContext, AgentRequest, AgentResponse } from "@agentuity/sdk";
-import { openai } from "@ai-sdk/openai";
-import { generateText, stepCountIs, tool } from "ai";
-import { google } from "googleapis";
-import { ResultAsync } from "neverthrow";
+import { generateText, hasToolCall, stepCountIs, tool } from "ai";
+import { err, ok, Result, ResultAsync } from "neverthrow";
 import z from "zod";
+import { getChannel } from "../../lib/channel-registry";
+import { clusterComments } from "../../lib/comment-clusters";
+import { commentModeratorFromEnv } from "../../lib/comment-publisher";
+import { mapWithConcurrency, withTimeout } from "../../lib/concurrency";
+import {
+  auditDescription,
+  createHttpLinkFetcher,
+  type DescriptionAudit,
+  matchLinkComplaints,
+  parseTimestamp,
+} from "../../lib/description-audit";
+import {
+  buildErrataTimeline,
+  type ErrataReport,
+  type ErrataTimeline,
+  errataReportsFrom,
+} from "../../lib/errata";
+import {
+  AGENT_ERROR,
+  type AgentError,
+  errorResponse,
+  invalidInput,
+  toAgentError,
+} from "../../lib/errors";
+import { resolveModel } from "../../lib/model-config";
+import { createRunTracker } from "../../lib/run-ledger";
+import {
+  EXPORT_CONTENT_TYPES,
+  EXPORT_FORMATS,
+  type ExportedVideo,
+  exportCsv,
+  exportHtml,
+  exportJson,
+  exportMarkdown,
+} from "../../lib/snapshot-export";
+import {
+  appendStatsRecord,
+  computeStatsDeltas,
+  readStatsHistory,
+  type StatsDeltas,
+} from "../../lib/snapshot-history";
+import {
+  commentsFromThreads,
+  listModerationQueue,
+  queueForModeration,
+  reviewModerationItems,
+  type SpamVerdict,
+  triageComments,
+} from "../../lib/spam-triage";
+import {
+  CAPTION_FORMATS,
+  fetchCaptions,
+  readTranscript,
+  searchTranscript,
+  storeTranscript,
+  type Transcript,
+  transcriptExcerpt,
+} from "../../lib/transcripts";
+import {
+  buildSponsorReports,
+  type DetectedSponsor,
+  extractSponsors,
+  renderSponsorReportMarkdown,
+  sponsorsMentionedIn,
+} from "../../lib/sponsors";
+import {
+  currentRevision,
+  currentSections,
+  diffVideoMemory,
+  listMemoryRevisions,
+  readVideoMemory,
+  renderMemoryNotes,
+  rollbackVideoMemory,
+  SNAPSHOT_SECTION,
+  storedSnapshot,
+  writeVideoMemory,
+} from "../../lib/video-memory";
+import {
+  buildVideoSnapshot,
+  type FlaggedComment,
+  renderSnapshotMarkdown,
+  type VideoSnapshot,
+  videoSnapshotInputSchema,
+} from "../../lib/video-snapshot";
+import { markVideoWatched, readWatchedVideos } from "../../lib/watched-videos";
+import {
+  fetchCommentThreads,
+  fetchNewCommentThreads,
+  writeCommentWatermarks,
+} from "../../lib/youtube-comments";
+import {
+  createYouTubeDataSource,
+  type YouTubeDataSource,
+} from "../../lib/youtube-data-source";
 
 const DEFAULT_MAX_RESULTS = 200;
+const MAX_COMMENT_BUDGET = 1000;
 const KV_NAMESPACE = "comments-watcher";
-const YT_API_KEY = process.env.YT_API_KEY;
+const MAX_EXPORT_VIDEOS = 200;
+const MAX_BATCH_VIDEOS = 50;
+const MAX_MODERATION_REVIEW = 500;
+// a few hours of captions
+const MAX_CAPTION_CHARS = 2_000_000;
 
-if (!YT_API_KEY) {
-  throw new Error("YT_API_KEY is not set");
-}
+// overridable per deployment, see src/lib/model-config.ts
+const DEFAULT_MODEL = {
+  provider: "openai",
+  model: "gpt-5-mini",
+  reasoningEffort: "low",
+  maxSteps: 10,
+} as const;
 
-const youtube = google.youtube({
-  version: "v3",
-  auth: YT_API_KEY,
-});
+const BATCH_SOURCES = ["videoIds", "playlistId", "channelId"] as const;
 
-class COMMENTS_AGENT_ERROR extends Error {
-  constructor(message: string) {
-    super(message);
-    this.name = "COMMENTS_AGENT_ERROR";
-  }
-}
-
-const inputJsonSchema = z.object({
-  videoId: z.string(),
+const captionsSchema = z.object({
+  // WebVTT or SRT
+  text: z.string().min(1).max(MAX_CAPTION_CHARS),
+  // detected from the text when left out
+  format: z.enum(CAPTION_FORMATS).optional(),
+  language: z.string().optional(),
 });
 
-const getVideoInfo = async (data: { videoId: string; ctx: AgentContext }) => {
-  const { videoId, ctx } = data;
+const inputJsonSchema = z.preprocess(
+  // requests without a mode are snapshot requests, or batch requests when
+  // they name more than one video
+  (value) =>
+    typeof value === "object" && value !== null && !("mode" in value)
+      ? {
+          ...value,
+          mode: BATCH_SOURCES.some((key) => key in value)
+            ? "batch"
+            : "snapshot",
+        }
+      : value,
+  z.discriminatedUnion("mode", [
+    z.object({
+      mode: z.literal("snapshot"),
+      videoId: z.string(),
+      // skip the YouTube response cache and fetch everything fresh
+      bypassCache: z.boolean().default(false),
+      // request every link in the description to see if it still works
+      checkLinks: z.boolean().default(true),
+      // have the model confirm comments the spam heuristics aren't sure about
+      confirmSpam: z.boolean().default(false),
+      // the video's captions, stored as its transcript before the snapshot
+      captions: captionsSchema.optional(),
+      // download the captions from YouTube when no transcript is stored yet.
+      // Needs the channel's OAuth credentials and costs 250 quota units
+      fetchCaptions: z.boolean().default(false),
+    }),
+    z
+      .object({
+        mode: z.literal("batch"),
+        videoIds: z.array(z.string()).min(1).max(MAX_BATCH_VIDEOS).optional(),
+        playlistId: z.string().optional(),
+        // snapshots the channel's latest uploads
+        channelId: z.string().optional(),
+        // how many of the playlist's or channel's videos, newest first for
+        // channels and in playlist order for playlists
+        limit: z.number().int().min(1).max(MAX_BATCH_VIDEOS).default(10),
+        concurrency: z.number().int().min(1).max(10).default(3),
+        timeoutSeconds: z.number().int().min(10).max(900).default(300),
+        bypassCache: z.boolean().default(false),
+        checkLinks: z.boolean().default(true),
+        confirmSpam: z.boolean().default(false),
+        fetchCaptions: z.boolean().default(false),
+      })
+      .refine(
+        (v) => BATCH_SOURCES.filter((key) => v[key] !== undefined).length === 1,
+        { message: "Give exactly one of videoIds, playlistId or channelId" }
+      ),
+    z.object({ mode: z.literal("history"), videoId: z.string() }),
+    // stores the given or downloaded captions as the video's transcript, or
+    // returns the stored one
+    z.object({
+      mode: z.literal("transcript"),
+      videoId: z.string(),
+      captions: captionsSchema.optional(),
+      fetch: z.boolean().default(false),
+      language: z.string().optional(),
+    }),
+    // the video's memory with its kept revisions
+    z.object({ mode: z.literal("memory"), videoId: z.string() }),
+    z.object({
+      mode: z.literal("memory-diff"),
+      videoId: z.string(),
+      from: z.number().int().min(0),
+      // defaults to the current revision
+      to: z.number().int().min(0).optional(),
+    }),
+    z.object({
+      mode: z.literal("memory-rollback"),
+      videoId: z.string(),
+      revision: z.number().int().min(0),
+      // rejected as a conflict if the memory has moved on from this revision
+      baseRevision: z.number().int().min(0).optional(),
+    }),
+    z.object({
+      mode: z.literal("sponsor-report"),
+      // only report on this sponsor
+      sponsor: z.string().optional(),
+    }),
+    z
+      .object({
+        mode: z.literal("export"),
+        videoId: z.string().optional(),
+        videoIds: z.array(z.string()).min(1).max(MAX_EXPORT_VIDEOS).optional(),
+        // every watched video of the channel, by registered name or id or by
+        // its title on YouTube
+        channel: z.string().optional(),
+        format: z.enum(EXPORT_FORMATS).default("json"),
+      })
+      .refine(
+        (v) =>
+          [v.videoId, v.videoIds, v.channel].filter((x) => x !== undefined)
+            .length === 1,
+        { message: "Give exactly one of videoId, videoIds or channel" }
+      ),
+    // the channel's spam moderation queue, by registered name or channel id
+    z.object({
+      mode: z.literal("moderation"),
+      channel: z.string(),
+      status: z.enum(["pending", "removed", "dismissed"]).default("pending"),
+      videoId: z.string().optional(),
+    }),
+    z.object({
+      mode: z.literal("moderation-review"),
+      channel: z.string(),
+      ids: z.array(z.string()).min(1).max(MAX_MODERATION_REVIEW),
+      action: z.enum(["remove", "dismiss"]),
+    }),
+  ])
+);
+
+export const getVideoInfo = async (data: {
+  videoId: string;
+  youtube: YouTubeDataSource;
+  ctx: AgentContext;
+}) => {
+  const { videoId, youtube, ctx } = data;
 
   return ResultAsync.fromPromise(
-    youtube.videos
-      .list({
+    youtube
+      .listVideos({
         part: ["snippet", "contentDetails", "statistics"],
         id: [videoId],
-        maxResults: 1,
       })
       .then((r) => {
-        const video = r.data.items?.[0];
+        const video = r.items?.[0];
         if (!video) return null;
 
         const thumbnails = video.snippet?.thumbnails;
@@ -54,6 +264,7 @@ const getVideoInfo = async (data: { videoId: string; ctx: AgentContext }) => {
           title: video.snippet?.title,
           description: video.snippet?.description,
           channelTitle: video.snippet?.channelTitle,
+          channelId: video.snippet?.channelId,
           publishedAt: video.snippet?.publishedAt,
           duration: video.contentDetails?.duration,
           viewCount: video.statistics?.viewCount,
@@ -64,85 +275,417 @@ const getVideoInfo = async (data: { videoId: string; ctx: AgentContext }) => {
       }),
     (e) => {
       ctx.logger.error(e);
-      return new COMMENTS_AGENT_ERROR(
-        `Failed to get video info for videoId: ${videoId}`
+      return toAgentError(
+        e,
+        {
+          code: "youtube_unavailable",
+          message: `Failed to get video info for videoId: ${videoId}`,
+        },
+        { videoId }
       );
     }
   );
 };
 
-const getTopComments = async (data: {
+export const getTopComments = async (data: {
   videoId: string;
   maxResults?: number;
+  onlyNew?: boolean;
+  youtube: YouTubeDataSource;
   ctx: AgentContext;
 }) => {
-  const { videoId, maxResults = DEFAULT_MAX_RESULTS, ctx } = data;
+  const {
+    videoId,
+    maxResults = DEFAULT_MAX_RESULTS,
+    onlyNew,
+    youtube,
+    ctx,
+  } = data;
 
   return ResultAsync.fromPromise(
-    youtube.commentThreads
-      .list({
-        part: ["snippet", "replies"],
-        videoId,
-        order: "relevance",
-        maxResults,
-        textFormat: "plainText",
-      })
-      .then((r) => {
-        return (r.data.items ?? []).map((item) => ({
-          text: item.snippet?.topLevelComment?.snippet?.textDisplay,
-          authorName: item.snippet?.topLevelComment?.snippet?.authorDisplayName,
-          likeCount: item.snippet?.topLevelComment?.snippet?.likeCount,
-          publishedAt: item.snippet?.topLevelComment?.snippet?.publishedAt,
-          replyCount: item.snippet?.totalReplyCount,
-          replies:
-            item.replies?.comments?.map((reply) => ({
-              text: reply.snippet?.textDisplay,
-              authorName: reply.snippet?.authorDisplayName,
-              likeCount: reply.snippet?.likeCount,
-              publishedAt: reply.snippet?.publishedAt,
-            })) || [],
-        }));
-      }),
+    onlyNew
+      ? fetchNewCommentThreads({
+          ctx,
+          namespace: KV_NAMESPACE,
+          youtube,
+          videoId,
+          budget: maxResults,
+        })
+      : fetchCommentThreads({ youtube, videoId, budget: maxResults }).then(
+          (result) => ({ ...result, since: null, watermark: null })
+        ),
     (e) => {
       ctx.logger.error(e);
-      return new COMMENTS_AGENT_ERROR(
-        `Failed to get top comments for videoId: ${videoId}`
+      return toAgentError(
+        e,
+        {
+          code: "youtube_unavailable",
+          message: `Failed to get top comments for videoId: ${videoId}`,
+        },
+        { videoId }
       );
     }
   );
 };
 
-const readFromMemory = async (data: { key: string; ctx: AgentContext }) => {
-  const { key, ctx } = data;
+const readFromMemory = async (data: { videoId: string; ctx: AgentContext }) => {
+  const { videoId, ctx } = data;
 
   return ResultAsync.fromPromise(
-    ctx.kv.get(KV_NAMESPACE, key).then((r) => r.data.text()),
-    (e) => {
+    readVideoMemory(ctx, videoId).then((memory) => {
+      const sections = currentSections(memory);
+      return {
+        revision: currentRevision(memory)?.revision ?? 0,
+        ...storedSnapshot(sections),
+        // what legacy-channel-bot has noted on the video
+        notes: renderMemoryNotes(sections),
+      };
+    }),
+    (e): AgentError => {
       ctx.logger.error(e);
-      return new COMMENTS_AGENT_ERROR(
-        `Failed to read from memory for key: ${key}`
-      );
+      return {
+        code: "internal",
+        message: `Failed to read from memory for videoId: ${videoId}`,
+      };
     }
   );
 };
 
-const writeToMemory = async (data: {
-  key: string;
-  value: string;
+const writeSnapshotToMemory = async (data: {
+  snapshot: VideoSnapshot;
+  baseRevision: number;
+  channelId?: string;
   ctx: AgentContext;
 }) => {
-  const { key, value, ctx } = data;
+  const { snapshot, baseRevision, channelId, ctx } = data;
 
-  return ResultAsync.fromPromise(ctx.kv.set(KV_NAMESPACE, key, value), (e) => {
-    ctx.logger.error(e);
-    return new COMMENTS_AGENT_ERROR(
-      `Failed to write to memory for key: ${key}`
-    );
-  });
+  return ResultAsync.fromPromise(
+    (async () => {
+      const saved = await writeVideoMemory({
+        ctx,
+        videoId: snapshot.videoId,
+        author: KV_NAMESPACE,
+        // pretty printed so revisions diff line by line
+        sections: { [SNAPSHOT_SECTION]: JSON.stringify(snapshot, null, 2) },
+        baseRevision,
+      });
+      await markVideoWatched({
+        ctx,
+        namespace: KV_NAMESPACE,
+        video: {
+          videoId: snapshot.videoId,
+          title: snapshot.video.title,
+          channelTitle: snapshot.video.channelTitle,
+          channelId,
+          publishedAt: snapshot.video.publishedAt,
+          lastSnapshotAt: snapshot.takenAt,
+        },
+      });
+      return saved.revision;
+    })(),
+    (e): AgentError => {
+      ctx.logger.error(e);
+      return toAgentError(e, {
+        code: "internal",
+        message: `Failed to write to memory for videoId: ${snapshot.videoId}`,
+      });
+    }
+  );
+};
+
+const readHistory = async (data: { videoId: string; ctx: AgentContext }) => {
+  const { videoId, ctx } = data;
+
+  return ResultAsync.fromPromise(
+    readStatsHistory({ ctx, namespace: KV_NAMESPACE, videoId }),
+    (e): AgentError => {
+      ctx.logger.error(e);
+      return {
+        code: "internal",
+        message: `Failed to read snapshot history for videoId: ${videoId}`,
+      };
+    }
+  );
+};
+
+const readMemory = async (data: { videoId: string; ctx: AgentContext }) => {
+  const { videoId, ctx } = data;
+
+  return ResultAsync.fromPromise(
+    readVideoMemory(ctx, videoId),
+    (e): AgentError => {
+      ctx.logger.error(e);
+      return {
+        code: "internal",
+        message: `Failed to read from memory for videoId: ${videoId}`,
+      };
+    }
+  );
+};
+
+/**
+ * The video's transcript: from `captions` when given (replacing the stored
+ * one), the stored one otherwise, and downloaded from YouTube with `fetch`
+ * when nothing is stored. Null when there is none.
+ */
+const loadTranscript = async (data: {
+  videoId: string;
+  ctx: AgentContext;
+  youtube: YouTubeDataSource;
+  captions?: z.infer<typeof captionsSchema>;
+  fetch: boolean;
+  language?: string;
+}) => {
+  const { videoId, ctx, youtube, captions, fetch, language } = data;
+
+  return ResultAsync.fromPromise(
+    (async () => {
+      if (captions) {
+        return storeTranscript({
+          ctx,
+          videoId,
+          source: "request",
+          captions: captions.text,
+          format: captions.format,
+          language: captions.language ?? language,
+        });
+      }
+
+      const stored = await readTranscript(ctx, videoId);
+      if (stored || !fetch) return stored;
+
+      const fetched = await fetchCaptions({ youtube, videoId, language });
+      return storeTranscript({
+        ctx,
+        videoId,
+        source: "youtube",
+        captions: fetched.captions,
+        format: fetched.format,
+        language: fetched.language,
+      });
+    })(),
+    (e): AgentError => {
+      ctx.logger.error(e);
+      return toAgentError(e, {
+        code: "internal",
+        message: `Failed to load the transcript for videoId: ${videoId}`,
+      });
+    }
+  );
+};
+
+const diffMemory = async (data: {
+  videoId: string;
+  from: number;
+  to?: number;
+  ctx: AgentContext;
+}) => {
+  const { videoId, from, to, ctx } = data;
+
+  return (await readMemory({ videoId, ctx })).andThen((memory) =>
+    Result.fromThrowable(
+      () =>
+        diffVideoMemory(
+          memory,
+          from,
+          to ?? currentRevision(memory)?.revision ?? 0
+        ),
+      (e) =>
+        toAgentError(e, {
+          code: "internal",
+          message: `Failed to diff the memory for videoId: ${videoId}`,
+        })
+    )()
+  );
+};
+
+const rollbackMemory = async (data: {
+  videoId: string;
+  revision: number;
+  baseRevision?: number;
+  ctx: AgentContext;
+}) => {
+  const { videoId, revision, baseRevision, ctx } = data;
+
+  return ResultAsync.fromPromise(
+    rollbackVideoMemory({
+      ctx,
+      videoId,
+      author: `${KV_NAMESPACE} rollback`,
+      revision,
+      baseRevision,
+    }),
+    (e): AgentError => {
+      ctx.logger.error(e);
+      return toAgentError(e, {
+        code: "internal",
+        message: `Failed to roll back the memory for videoId: ${videoId}`,
+      });
+    }
+  );
+};
+
+const readSponsorReports = async (data: {
+  sponsor?: string;
+  ctx: AgentContext;
+}) => {
+  const { sponsor, ctx } = data;
+
+  return ResultAsync.fromPromise(
+    (async () => {
+      const watched = await readWatchedVideos({ ctx, namespace: KV_NAMESPACE });
+      const snapshots: VideoSnapshot[] = [];
+      for (const { videoId } of watched) {
+        const memory = await readVideoMemory(ctx, videoId);
+        const { snapshot } = storedSnapshot(currentSections(memory));
+        if (snapshot) snapshots.push(snapshot);
+      }
+      return buildSponsorReports(snapshots, { sponsor });
+    })(),
+    (e): AgentError => {
+      ctx.logger.error(e);
+      return {
+        code: "internal",
+        message: "Failed to build the sponsor report",
+      };
+    }
+  );
+};
+
+const readExport = async (data: {
+  videoIds?: string[];
+  channel?: string;
+  ctx: AgentContext;
+}) => {
+  const { channel, ctx } = data;
+
+  return ResultAsync.fromPromise(
+    (async () => {
+      let videoIds = data.videoIds ?? [];
+      if (channel) {
+        const registered = await getChannel(ctx, channel);
+        const channelIds = new Set([channel, registered?.channelId]);
+        const names = new Set(
+          [channel, registered?.name].flatMap((n) =>
+            n ? [n.toLowerCase()] : []
+          )
+        );
+        // older index entries have no channel id, those only match by title
+        videoIds = (await readWatchedVideos({ ctx, namespace: KV_NAMESPACE }))
+          .filter(
+            (v) =>
+              (v.channelId !== undefined && channelIds.has(v.channelId)) ||
+              names.has(v.channelTitle.toLowerCase())
+          )
+          .map((v) => v.videoId)
+          .slice(0, MAX_EXPORT_VIDEOS);
+      }
+
+      const videos: ExportedVideo[] = [];
+      const missing: string[] = [];
+      for (const videoId of new Set(videoIds)) {
+        const sections = currentSections(await readVideoMemory(ctx, videoId));
+        const { snapshot, legacyMarkdown } = storedSnapshot(sections);
+        const history = await readStatsHistory({
+          ctx,
+          namespace: KV_NAMESPACE,
+          videoId,
+        });
+        const memory = renderMemoryNotes(sections);
+
+        if (!snapshot && !legacyMarkdown && history.length === 0 && !memory) {
+          missing.push(videoId);
+          continue;
+        }
+        videos.push({ videoId, snapshot, legacyMarkdown, history, memory });
+      }
+
+      return { videos, missing };
+    })(),
+    (e): AgentError => {
+      ctx.logger.error(e);
+      return { code: "internal", message: "Failed to read the export" };
+    }
+  );
+};
+
+// the video's stats now, and how they moved since the earlier snapshots.
+// The stats are only added to the history once the snapshot is saved, so a
+// failed run leaves no point behind
+const statsDeltas = async (data: {
+  videoId: string;
+  videoInfo: {
+    publishedAt?: string | null;
+    viewCount?: string | null;
+    likeCount?: string | null;
+    commentCount?: string | null;
+  };
+  ctx: AgentContext;
+}) => {
+  const { videoId, videoInfo, ctx } = data;
+
+  const current = {
+    takenAt: new Date().toISOString(),
+    viewCount: Number(videoInfo.viewCount ?? "0"),
+    likeCount: Number(videoInfo.likeCount ?? "0"),
+    commentCount: Number(videoInfo.commentCount ?? "0"),
+  };
+
+  return ResultAsync.fromPromise(
+    (async () => {
+      const history = await readStatsHistory({
+        ctx,
+        namespace: KV_NAMESPACE,
+        videoId,
+      });
+      return computeStatsDeltas({
+        history,
+        current,
+        publishedAt: videoInfo.publishedAt ?? current.takenAt,
+      });
+    })(),
+    (e): AgentError => {
+      ctx.logger.error(e);
+      return {
+        code: "internal",
+        message: `Failed to read the stats history for videoId: ${videoId}`,
+      };
+    }
+  ).map((performance) => ({ current, performance }));
 };
 
+// the video's details and stats for its snapshot, as getVideoInfo found them
+const snapshotDetails = (videoInfo: {
+  title?: string | null;
+  description?: string | null;
+  channelTitle?: string | null;
+  publishedAt?: string | null;
+  duration?: string | null;
+  thumbnail?: string | null;
+  viewCount?: string | null;
+  likeCount?: string | null;
+  commentCount?: string | null;
+}) => ({
+  video: {
+    title: videoInfo.title ?? "",
+    description: videoInfo.description ?? "",
+    channelTitle: videoInfo.channelTitle ?? "",
+    publishedAt: videoInfo.publishedAt ?? "",
+    duration: videoInfo.duration ?? "",
+    thumbnail: videoInfo.thumbnail ?? undefined,
+  },
+  stats: {
+    viewCount: Number(videoInfo.viewCount ?? "0"),
+    likeCount: Number(videoInfo.likeCount ?? "0"),
+    commentCount: Number(videoInfo.commentCount ?? "0"),
+  },
+});
+
 // TOOLS
-const getVideoInfoTool = (ctx: AgentContext) =>
+export const getVideoInfoTool = (
+  ctx: AgentContext,
+  youtube: YouTubeDataSource
+) =>
   tool({
     description:
       "Get all of the information about a video (not including comments)",
@@ -150,12 +693,11 @@ const getVideoInfoTool = (ctx: AgentContext) =>
       videoId: z.string(),
     }),
     execute: async ({ videoId }) => {
-      const videoInfo = await getVideoInfo({ videoId, ctx });
+      const videoInfo = await getVideoInfo({ videoId, youtube, ctx });
       if (videoInfo.isErr()) {
         return {
           success: false,
           error: videoInfo.error,
-          message: `Failed to get video info for videoId: ${videoId}`,
         };
       }
       return {
@@ -165,65 +707,258 @@ const getVideoInfoTool = (ctx: AgentContext) =>
     },
   });
 
-const getTopCommentsTool = (ctx: AgentContext) =>
+export const getTopCommentsTool = (
+  ctx: AgentContext,
+  youtube: YouTubeDataSource,
+  analysis: {
+    sponsors?: DetectedSponsor[];
+    // link complaints found in the comments are added to this
+    descriptionAudit?: DescriptionAudit;
+    // and timestamped editing mistake reports to this
+    errataReports?: ErrataReport[];
+    // and comments that look like spam to this, scored against the channel
+    spam?: {
+      channel: { names: string[]; channelId?: string };
+      verdicts: SpamVerdict[];
+    };
+    // and the watermarks of onlyNew fetches to this, they're only committed
+    // once the snapshot is saved
+    watermarks?: Map<string, string>;
+  } = {}
+) =>
   tool({
-    description: `Get the top comments for a video, does not include full video details. The maxResults parameter is optional and defaults to ${DEFAULT_MAX_RESULTS}.`,
+    description: `Get the top comments for a video (including replies), grouped into clusters of near-duplicate comments (comments that look like spam or scams are left out and counted in likelySpam). Clusters are made of top level comments: each has a representative comment (and its commentId), how many comments it stands for, their total likes and replies, a few sample authors, the most liked replies under the representative and the video's sponsors it mentions by name. Comments complaining about a missing or broken description link are listed separately, matched to the link they're about, as are comments pointing out an editing mistake at a timestamp. Does not include full video details. The maxResults parameter is optional and defaults to ${DEFAULT_MAX_RESULTS} top level comments. Set onlyNew to only get the comments posted since the last saved snapshot that used onlyNew for this video (the newest comments come first).`,
     inputSchema: z.object({
       videoId: z.string(),
-      maxResults: z.number().optional(),
+      maxResults: z.number().min(1).max(MAX_COMMENT_BUDGET).optional(),
+      onlyNew: z.boolean().optional(),
     }),
-    execute: async ({ videoId, maxResults }) => {
-      const topComments = await getTopComments({ videoId, ctx, maxResults });
+    execute: async ({ videoId, maxResults, onlyNew }) => {
+      const topComments = await getTopComments({
+        videoId,
+        youtube,
+        ctx,
+        maxResults,
+        onlyNew,
+      });
       if (topComments.isErr()) {
         return {
           success: false,
           error: topComments.error,
-          message: `Failed to get top comments for videoId: ${videoId}`,
         };
       }
+      const { threads, truncated, watermark } = topComments.value;
+      const { sponsors = [], descriptionAudit, errataReports, spam } = analysis;
+      if (watermark) analysis.watermarks?.set(videoId, watermark);
+
+      const verdicts = spam
+        ? triageComments(commentsFromThreads(threads), spam.channel)
+        : [];
+      if (spam) {
+        const seen = new Set(spam.verdicts.map((v) => v.comment.commentId));
+        spam.verdicts.push(
+          ...verdicts.filter((v) => !seen.has(v.comment.commentId))
+        );
+      }
+      // flagged spam would only skew the clusters and themes
+      const spamIds = new Set(
+        verdicts.filter((v) => !v.borderline).map((v) => v.comment.commentId)
+      );
+
+      const comments = threads
+        .flatMap((thread) => [thread, ...thread.replies])
+        .filter((comment) => !spamIds.has(comment.commentId));
+      // replies are clustered with the thread they answer, not on their own
+      const clusters = clusterComments(
+        threads
+          .filter((thread) => !spamIds.has(thread.commentId))
+          .map((thread) => ({
+            ...thread,
+            replies: thread.replies.filter((r) => !spamIds.has(r.commentId)),
+          }))
+      );
+
+      const timestampedMistakes = comments.flatMap((comment) =>
+        errataReportsFrom(comment)
+      );
+      errataReports?.push(...timestampedMistakes);
+
+      const linkComplaints = descriptionAudit
+        ? matchLinkComplaints(comments, descriptionAudit)
+        : [];
+      if (descriptionAudit) {
+        const seen = new Set(
+          descriptionAudit.linkComplaints.map((c) => c.commentId)
+        );
+        descriptionAudit.linkComplaints.push(
+          ...linkComplaints.filter((c) => !seen.has(c.commentId))
+        );
+      }
+
       return {
         success: true,
-        data: topComments.value,
+        data: {
+          commentCount: threads.length,
+          truncated,
+          likelySpam: spamIds.size,
+          clusters: clusters.map(({ commentIds, ...cluster }) => ({
+            // the representative's id, to flag the cluster by
+            commentId: commentIds[0],
+            ...cluster,
+            sponsors: sponsorsMentionedIn(cluster.representative, sponsors),
+          })),
+          linkComplaints,
+          timestampedMistakes,
+        },
       };
     },
   });
 
-const writeToMemoryTool = (ctx: AgentContext) =>
+const searchTranscriptTool = (transcript: Transcript | null) =>
   tool({
-    description: "Write to your memory",
-    inputSchema: z.object({
-      videoId: z.string(),
-      value: z.string(),
-    }),
-    execute: async ({ videoId, value }) => {
-      const result = await writeToMemory({ key: videoId, value, ctx });
+    description:
+      "Search the video's transcript to check what was actually said. Give `at` (a timestamp like 3:42, or seconds) to read what was said around that time, `phrase` to find where something was said, or both to look for the phrase near the timestamp. Matches come with their timestamp and a score (1 for the exact phrase).",
+    inputSchema: z
+      .object({
+        at: z.string().optional(),
+        phrase: z.string().optional(),
+      })
+      .refine((v) => v.at !== undefined || v.phrase !== undefined, {
+        message: "Give at, phrase or both",
+      }),
+    execute: async ({ at, phrase }) => {
+      if (!transcript) {
+        return {
+          success: false,
+          error: "There is no transcript for this video",
+        };
+      }
+
+      const seconds =
+        at === undefined
+          ? undefined
+          : /^\d+(\.\d+)?$/.test(at.trim())
+            ? Number(at)
+            : parseTimestamp(at.trim());
+      if (seconds === null) {
+        return {
+          success: false,
+          error: `Not a timestamp: ${at}`,
+        };
+      }
+
+      return {
+        success: true,
+        data: {
+          matches: searchTranscript(transcript, { at: seconds, phrase }),
+        },
+      };
+    },
+  });
+
+const saveSnapshotTool = (
+  ctx: AgentContext,
+  extras: {
+    // the video this run is for, the snapshot is always saved under it
+    videoId: string;
+    // as getVideoInfo found them, not as the model repeats them
+    video: Omit<VideoSnapshot["video"], "url">;
+    stats: VideoSnapshot["stats"];
+    performance?: StatsDeltas;
+    sponsors: DetectedSponsor[];
+    descriptionAudit: DescriptionAudit;
+    errataReports: ErrataReport[];
+    // the memory revision the run started from
+    baseRevision: number;
+    // what transcript checks are resolved against
+    transcript: Transcript | null;
+    // recorded in the watched video index, so exports can filter on it
+    channelId?: string;
+  },
+  onSaved: (snapshot: VideoSnapshot, markdown: string) => void
+) =>
+  tool({
+    description:
+      "Save the finished snapshot of the video this run is for to your memory. The video details and stats are filled in from YouTube. This replaces the previous snapshot (the other agents' notes on the video are kept), so carry over anything from it that is still relevant. Call this exactly once, at the end.",
+    inputSchema: videoSnapshotInputSchema,
+    execute: async (input, { abortSignal }) => {
+      // the run timed out while the model was putting this together
+      if (abortSignal?.aborted) {
+        return {
+          success: false,
+          error: stoppedError(extras.videoId, abortSignal),
+        };
+      }
+      const { errataReports, baseRevision, transcript, channelId, ...rest } =
+        extras;
+      // the excerpt comes from the stored transcript, not the model, and a
+      // check without a transcript to back it is dropped
+      const flaggedComments: FlaggedComment[] = input.flaggedComments.map(
+        ({ transcriptCheck, ...comment }) =>
+          transcriptCheck && transcript
+            ? {
+                ...comment,
+                transcriptCheck: {
+                  ...transcriptCheck,
+                  excerpt:
+                    transcriptCheck.verdict === "confirmed" &&
+                    transcriptCheck.at !== null
+                      ? (transcriptExcerpt(transcript, transcriptCheck.at) ??
+                        undefined)
+                      : undefined,
+                },
+              }
+            : comment
+      );
+      // the model's own editing mistake flags count too, timestamp or not
+      const flaggedReports = flaggedComments
+        .filter((c) => c.category === "editing_mistake")
+        .flatMap((c) => errataReportsFrom(c, { assumeMistake: true }));
+      const errata = buildErrataTimeline(
+        [...errataReports, ...flaggedReports],
+        { duration: extras.video.duration }
+      );
+
+      const snapshot = buildVideoSnapshot(
+        { ...input, flaggedComments },
+        { ...rest, errata }
+      );
+      const result = await writeSnapshotToMemory({
+        snapshot,
+        baseRevision,
+        channelId,
+        ctx,
+      });
       if (result.isErr()) {
         return {
           success: false,
           error: result.error,
-          message: `Failed to write to memory for videoId: ${videoId}`,
         };
       }
+
+      const markdown = renderSnapshotMarkdown(snapshot);
+      onSaved(snapshot, markdown);
+
       return {
         success: true,
-        data: result.value,
+        data: { takenAt: snapshot.takenAt },
       };
     },
   });
 
 const readFromMemoryTool = (ctx: AgentContext) =>
   tool({
-    description: "Read from your memory",
+    description:
+      "Read the previous snapshot of a video from your memory (null if there is none), along with the notes other agents keep on it",
     inputSchema: z.object({
       videoId: z.string(),
     }),
     execute: async ({ videoId }) => {
-      const result = await readFromMemory({ key: videoId, ctx });
+      const result = await readFromMemory({ videoId, ctx });
       if (result.isErr()) {
         return {
           success: false,
           error: result.error,
-          message: `Failed to read from memory for videoId: ${videoId}`,
         };
       }
       return {
@@ -240,127 +975,898 @@ You have access to tools that can get the top comments for a video and the full
 
 You will be given a videoId and then you will need to create a snapshot summary of a video. (you should keep track of when the snapshot was taken as well, this is running at ${new Date().toISOString()})
 
-Make sure you check for any existing memory for this videoId. If there is, you should use that as a starting point. Remember the memory is being saved to a kv store, so whatever you save will overwrite the previous memory (make sure not to loose any important information).
-
-The snapshot must be in markdown format.
+Make sure you check for any existing memory for this videoId. If there is, you should use that as a starting point. Whatever you save will overwrite the previous snapshot (make sure not to loose any important information). The memory also has the notes the channel bot keeps on the video, those are kept as they are.
 
-Things that should be included:
+When you are done, save the snapshot by calling saveSnapshot exactly once. The snapshot is structured data, fill in every field (the video details and stats are filled in from YouTube):
 
-- Title
-- Description
-- Video URL (https://www.youtube.com/watch?v=VIDEO_ID)
-- Video ID
-- Channel Title
-- Published At
-- Duration
-- View Count
-- Like Count
-- Comment Count
-- Thumbnail
+- flaggedComments: the top priority comments below, each with its category and the commentId getTopComments gave it
+- themes: the unique "comments" people keep making
+- sentiment: the overall sentiment and a short summary
+- notes: anything else you think is important (how the video is trending, how recent it is, etc)
 
-Also while getting those stats look for things like views per hour, how recent the video is, etc.
+The request includes the stats deltas for this video (views per hour since the last snapshot, since publish and, once the history goes back a day, over the last 24 hours). These are computed from the stored history, use them as-is and don't do the math yourself. They are attached to the snapshot automatically.
 
 You will also need to analyze the top comments for the video.
 
 TOP PRIORITY COMMENTS THAT MUST BE FLAGGED AND SAVED:
 
-- Comments that are critical of the video's sponsor
-- Comments that are positive about the video's sponsor
-- Comments flagging an editing mistake
+- Comments that are critical of the video's sponsor (sponsor_negative)
+- Comments that are positive about the video's sponsor (sponsor_positive)
+- Comments about the video's sponsor that are neither (sponsor_neutral)
+- Comments flagging an editing mistake (keep the timestamp in the text when the commenter gave one)
+- Comments correcting something said in the video, like "he said X but meant Y" (factual_correction)
 - Comments flagging a mistake in the description (missing link, etc)
 
+The request also includes an audit of the description: links that are broken or unreachable, and problems with the chapter timestamps (malformed, duplicated, out of order, too short, not starting at 0:00). getTopComments matches the comments that say a link is missing or broken to the link they mean (presentAs is set when the link they asked for is actually in the description). Flag the ones that hold up as description_mistake and mention the link in the note. The audit is attached to the snapshot automatically.
+
+The request lists the sponsors found in the description (from sponsor segments, tracking links and known sponsor names, each with the evidence for it), and getTopComments marks the clusters that bring one of them up in the context of the sponsorship (naming it along with the ad, code or link, or linking to it). A comment can be about the sponsor without naming it ("the ad read was too long", "the promo code doesn't work"), so judge each one against the sponsor list. For every sponsor comment set sponsor to the sponsor's name as listed and theme to a short label for what it's about (e.g. "promo code doesn't work", "too many ads"), reusing the same label for comments that make the same point. These roll up into the reports we give to sponsors.
+
+When the request says there's a transcript, check every editing_mistake and factual_correction flag against it with searchTranscript: look up the timestamp the commenter gave, or the words they say were said. Set transcriptCheck on the flag: verdict "confirmed" with at (the seconds where the transcript backs the comment up) when it does, "not_found" when it doesn't. The excerpt is attached in code. Without a transcript leave transcriptCheck out.
+
+getTopComments also lists timestampedMistakes: comments that point out an editing mistake at a time in the video ("3:42 the audio cuts out", "at 3 min"). The errata timeline for the editor is built from these and your editing_mistake flags in code, you don't need to sort or count them.
+
 For the rest of the comments you should be looking to gather high level information on the sentiment and what people are saying about the video.
 
-In comments/reviews there may be hundreds of them, but in reality there are only a few "comments" that just get repeated. For example if people are upset about the video feeling biased, they will all just say the same thing over and over. Your job is to pick out the 5-10 unique "comments" on the video and save them to your memory.
+In comments/reviews there may be hundreds of them, but in reality there are only a few "comments" that just get repeated. For example if people are upset about the video feeling biased, they will all just say the same thing over and over. getTopComments already groups the near-duplicates into clusters for you, use the member counts and likes to see what's being repeated. Your job is to pick out the 5-10 unique "comments" on the video and save them as themes (a theme can span several clusters that say the same thing in different words).
 
-Also go through and save the general sentiment.
+Comments that look like spam (accounts impersonating the channel, "message me on Telegram", shortened links, the same text from many accounts) are left out of the clusters and queued for the channel's moderators, likelySpam says how many. Don't flag them or count them toward themes or sentiment.
 
-At the bottom of your memory you can save anything else you think is important.
+Also go through and save the general sentiment.
 
 Godspeed.
 `;
 
-export default async function Agent(
-  req: AgentRequest,
-  resp: AgentResponse,
-  ctx: AgentContext
-) {
-  const jsonResult = await ResultAsync.fromPromise(req.data.json(), (e) => {
-    return new COMMENTS_AGENT_ERROR(`Failed to parse request data`);
+const playlistVideoIds = async (data: {
+  youtube: YouTubeDataSource;
+  playlistId: string;
+  limit: number;
+}) => {
+  const { youtube, playlistId, limit } = data;
+
+  const videoIds: string[] = [];
+  let pageToken: string | undefined;
+  do {
+    const page = await youtube.listPlaylistItems({
+      playlistId,
+      maxResults: Math.min(limit - videoIds.length, 50),
+      pageToken,
+    });
+    for (const item of page.items ?? []) {
+      const videoId = item.contentDetails?.videoId;
+      if (videoId) videoIds.push(videoId);
+    }
+    pageToken = page.nextPageToken ?? undefined;
+  } while (pageToken && videoIds.length < limit);
+
+  return videoIds.slice(0, limit);
+};
+
+/**
+ * The videos a batch request is about. Channels are resolved through their
+ * uploads playlist, which costs a fraction of a search.
+ */
+const resolveBatchVideos = async (data: {
+  source: { videoIds?: string[]; playlistId?: string; channelId?: string };
+  limit: number;
+  youtube: YouTubeDataSource;
+  ctx: AgentContext;
+}) => {
+  const { source, limit, youtube, ctx } = data;
+
+  return ResultAsync.fromPromise(
+    (async () => {
+      if (source.videoIds) return [...new Set(source.videoIds)];
+
+      let playlistId = source.playlistId;
+      if (source.channelId) {
+        const r = await youtube.listChannels({
+          part: ["contentDetails"],
+          id: [source.channelId],
+        });
+        playlistId =
+          r.items?.[0]?.contentDetails?.relatedPlaylists?.uploads ?? undefined;
+        if (!playlistId) {
+          throw new AGENT_ERROR({
+            code: "channel_not_found",
+            message: `Channel not found: ${source.channelId}`,
+            channel: source.channelId,
+          });
+        }
+      }
+
+      return playlistVideoIds({
+        youtube,
+        playlistId: playlistId as string,
+        limit,
+      });
+    })(),
+    (e): AgentError => {
+      ctx.logger.error(e);
+      return toAgentError(e, {
+        code: "youtube_unavailable",
+        message: "Failed to list the videos to snapshot",
+      });
+    }
+  );
+};
+
+interface SnapshotResult {
+  snapshot: VideoSnapshot;
+  markdown: string;
+  errata: ErrataTimeline | undefined;
+  // how many comments went into the channel's moderation queue, null when
+  // triage failed or the channel isn't known
+  spamQueued: number | null;
+}
+
+const SPAM_CONFIRM_PROMPT = `
+You check YouTube comments that our spam heuristics aren't sure about. Each comes with the signals that fired (an author name like the channel's, a contact handle like "message me on Telegram", a link shortener, or the same text from several authors).
+
+Decide for each one whether it's spam or a scam: impersonating the creator, pushing viewers to a private chat, crypto or "investment" schemes, fake giveaways, or copy-pasted promotion. A real viewer who happens to mention Telegram or share a short link is not spam.
+
+Call confirmSpam exactly once with a verdict and a short reason for every comment.
+`;
+
+/**
+ * Asks the model about the borderline spam verdicts. Comments it says
+ * nothing about are left out of the result.
+ */
+const confirmBorderlineSpam = async (data: {
+  ctx: AgentContext;
+  verdicts: SpamVerdict[];
+  trigger?: string;
+  abortSignal?: AbortSignal;
+}) => {
+  const { ctx, verdicts, trigger, abortSignal } = data;
+
+  const { model, providerOptions } = await resolveModel({
+    ctx,
+    agent: KV_NAMESPACE,
+    defaults: DEFAULT_MODEL,
   });
+  const run = createRunTracker({ ctx, agent: KV_NAMESPACE, trigger });
 
-  if (jsonResult.isErr()) {
-    return resp.json({
-      // TODO: these should be status codes but i don't fucking care right now
-      success: false,
-      error: jsonResult.error,
-      message:
-        "Invalid request data, must be a JSON object with a videoId property",
+  const confirmed = new Map<string, { spam: boolean; reason: string }>();
+  try {
+    await generateText({
+      model,
+      providerOptions,
+      system: SPAM_CONFIRM_PROMPT,
+      tools: {
+        confirmSpam: tool({
+          description: "Record whether each comment is spam",
+          inputSchema: z.object({
+            verdicts: z.array(
+              z.object({
+                commentId: z.string(),
+                spam: z.boolean(),
+                reason: z.string(),
+              })
+            ),
+          }),
+          execute: async ({ verdicts }) => {
+            for (const { commentId, spam, reason } of verdicts) {
+              confirmed.set(commentId, { spam, reason });
+            }
+            return { success: true };
+          },
+        }),
+      },
+      messages: [
+        {
+          role: "user",
+          content: JSON.stringify(
+            verdicts.map(({ comment, signals }) => ({
+              commentId: comment.commentId,
+              authorName: comment.authorName,
+              text: comment.text,
+              signals,
+            }))
+          ),
+        },
+      ],
+      stopWhen: [stepCountIs(2), hasToolCall("confirmSpam")],
+      onStepFinish: run.onStepFinish,
+      abortSignal,
     });
+  } catch (e) {
+    await run.finish({ status: "failed", error: e });
+    throw e;
   }
+  await run.finish({ status: "succeeded" });
 
-  const parseResult = inputJsonSchema.safeParse(jsonResult.value);
+  return confirmed;
+};
 
-  if (!parseResult.success) {
-    return resp.json({
-      success: false,
-      error: parseResult.error,
-      message:
-        "Invalid request data, must be a JSON object with a videoId property",
+/**
+ * Queues the comments that look like spam for the channel's moderators.
+ * Borderline ones go to the model first when `confirm` is set, and are
+ * dropped if it says they're fine.
+ */
+const queueSpam = async (data: {
+  ctx: AgentContext;
+  channelId: string;
+  video: { videoId: string; title: string };
+  verdicts: SpamVerdict[];
+  confirm: boolean;
+  trigger?: string;
+  abortSignal?: AbortSignal;
+}) => {
+  const { ctx, channelId, video, verdicts, confirm, trigger, abortSignal } =
+    data;
+
+  return ResultAsync.fromPromise(
+    (async () => {
+      const borderline = verdicts.filter((v) => v.borderline);
+      const confirmed =
+        confirm && borderline.length > 0
+          ? await confirmBorderlineSpam({
+              ctx,
+              verdicts: borderline,
+              trigger,
+              abortSignal,
+            })
+          : new Map<string, { spam: boolean; reason: string }>();
+
+      abortSignal?.throwIfAborted();
+      const queued = await queueForModeration({
+        ctx,
+        channelId,
+        video,
+        verdicts: verdicts.flatMap((v) => {
+          const modelVerdict = confirmed.get(v.comment.commentId);
+          if (!modelVerdict) return [v];
+          return modelVerdict.spam ? [{ ...v, modelVerdict }] : [];
+        }),
+      });
+      return queued.length;
+    })(),
+    (e): AgentError => {
+      ctx.logger.error(e);
+      return {
+        code: "internal",
+        message: `Failed to queue spam for moderation for videoId: ${video.videoId}`,
+      };
+    }
+  );
+};
+
+/**
+ * Runs `run` against the moderation queue of a registered channel, or of any
+ * channel by id.
+ */
+const withModerationQueue = async <T>(data: {
+  channel: string;
+  ctx: AgentContext;
+  run: (channelId: string) => Promise<T>;
+}) => {
+  const { channel, ctx, run } = data;
+
+  return ResultAsync.fromPromise(
+    (async () => {
+      const channelId = (await getChannel(ctx, channel))?.channelId ?? channel;
+      return { channelId, result: await run(channelId) };
+    })(),
+    (e): AgentError => {
+      ctx.logger.error(e);
+      return toAgentError(e, {
+        code: "internal",
+        message: `Failed to work the moderation queue for channel: ${channel}`,
+      });
+    }
+  );
+};
+
+// a snapshot that ran past its timeout has already been reported as failed,
+// so it stops before its next write instead of carrying on in the background
+const stoppedError = (videoId: string, abortSignal: AbortSignal): AgentError =>
+  toAgentError(abortSignal.reason, {
+    code: "timeout",
+    message: `Stopped the snapshot of videoId: ${videoId}`,
+  });
+
+/**
+ * Takes a snapshot of one video: the model reads the video and its comments
+ * and saves what it found. Aborting `abortSignal` stops the model mid run and
+ * the snapshot before anything else is written.
+ */
+const snapshotVideo = async (data: {
+  ctx: AgentContext;
+  youtube: YouTubeDataSource;
+  videoId: string;
+  checkLinks: boolean;
+  confirmSpam: boolean;
+  captions?: z.infer<typeof captionsSchema>;
+  fetchCaptions: boolean;
+  trigger?: string;
+  runId?: string;
+  abortSignal?: AbortSignal;
+}): Promise<Result<SnapshotResult, AgentError>> => {
+  const {
+    ctx,
+    youtube,
+    videoId,
+    checkLinks,
+    confirmSpam,
+    captions,
+    trigger,
+    runId,
+    abortSignal,
+  } = data;
+
+  const videoInfo = await getVideoInfo({ videoId, youtube, ctx });
+  if (videoInfo.isErr()) {
+    return err(videoInfo.error);
+  }
+  if (!videoInfo.value) {
+    return err({
+      code: "video_not_found",
+      message: `Video not found: ${videoId}`,
+      videoId,
     });
   }
 
-  let stepIdx = 1;
+  const sponsors = extractSponsors(videoInfo.value.description ?? "");
+  const descriptionAudit = await auditDescription({
+    description: videoInfo.value.description ?? "",
+    fetcher: checkLinks ? createHttpLinkFetcher() : undefined,
+  });
+
+  // a missing data point shouldn't cost us the whole snapshot
+  const stats = (
+    await statsDeltas({ videoId, videoInfo: videoInfo.value, ctx })
+  ).unwrapOr(undefined);
+  const performance = stats?.performance;
+
+  // the snapshot is saved against the memory as it was before the model
+  // read it, so a run that overlaps another snapshot of the video is rejected
+  const memory = await readFromMemory({ videoId, ctx });
+  if (memory.isErr()) {
+    return err(memory.error);
+  }
+
+  if (abortSignal?.aborted) {
+    return err(stoppedError(videoId, abortSignal));
+  }
+  // bad captions in the request fail the snapshot, a failed download doesn't
+  const loaded = await loadTranscript({
+    videoId,
+    ctx,
+    youtube,
+    captions,
+    fetch: data.fetchCaptions,
+  });
+  if (loaded.isErr() && captions) {
+    return err(loaded.error);
+  }
+  const transcript = loaded.unwrapOr(null);
+
+  const { channelId, channelTitle } = videoInfo.value;
+  const registered = channelId ? await getChannel(ctx, channelId) : null;
+  const spam = {
+    channel: {
+      names: [channelTitle, registered?.name].flatMap((n) => (n ? [n] : [])),
+      channelId: channelId ?? undefined,
+    },
+    verdicts: [] as SpamVerdict[],
+  };
+
+  const errataReports: ErrataReport[] = [];
+  const watermarks = new Map<string, string>();
+  // set from the tool call, which the compiler can't see
+  let saved = null as Omit<SnapshotResult, "spamQueued"> | null;
+
+  const llm = await ResultAsync.fromPromise(
+    resolveModel({ ctx, agent: KV_NAMESPACE, defaults: DEFAULT_MODEL }),
+    (e): AgentError => {
+      ctx.logger.error(e);
+      return { code: "internal", message: "Invalid model configuration" };
+    }
+  );
+  if (llm.isErr()) {
+    return err(llm.error);
+  }
+  const { model, providerOptions, maxSteps } = llm.value;
+
+  const run = createRunTracker({
+    ctx,
+    agent: KV_NAMESPACE,
+    trigger,
+    runId,
+  });
 
   const result = await ResultAsync.fromPromise(
     generateText({
-      model: openai("gpt-5-mini"),
-      providerOptions: {
-        openai: {
-          reasoningEffort: "low",
-        },
-      },
+      model,
+      providerOptions,
       system: SYSTEM_PROMPT,
       tools: {
-        getVideoInfo: getVideoInfoTool(ctx),
-        getTopComments: getTopCommentsTool(ctx),
-        writeToMemory: writeToMemoryTool(ctx),
+        getVideoInfo: getVideoInfoTool(ctx, youtube),
+        getTopComments: getTopCommentsTool(ctx, youtube, {
+          sponsors,
+          descriptionAudit,
+          errataReports,
+          spam,
+          watermarks,
+        }),
         readFromMemory: readFromMemoryTool(ctx),
+        searchTranscript: searchTranscriptTool(transcript),
+        saveSnapshot: saveSnapshotTool(
+          ctx,
+          {
+            videoId,
+            ...snapshotDetails(videoInfo.value),
+            performance,
+            sponsors,
+            descriptionAudit,
+            errataReports,
+            baseRevision: memory.value.revision,
+            transcript,
+            channelId: channelId ?? undefined,
+          },
+          (snapshot, markdown) => {
+            saved = { snapshot, markdown, errata: snapshot.errata };
+          }
+        ),
       },
       messages: [
         {
           role: "user",
-          content: `videoId: ${parseResult.data.videoId}`,
+          content: [
+            `videoId: ${videoId}`,
+            performance
+              ? `stats deltas: ${JSON.stringify(performance)}`
+              : "stats deltas: unavailable for this run",
+            sponsors.length > 0
+              ? `sponsors: ${JSON.stringify(sponsors)}`
+              : "sponsors: none found in the description",
+            `description audit: ${JSON.stringify({
+              links: descriptionAudit.links.filter((l) => l.status !== "ok"),
+              chapterCount: descriptionAudit.chapters.length,
+              chapterIssues: descriptionAudit.chapterIssues,
+            })}`,
+            transcript
+              ? `transcript: ${transcript.segments.length} segments${transcript.language ? ` (${transcript.language})` : ""}, search it with searchTranscript`
+              : "transcript: none stored for this video",
+          ].join("\n\n"),
         },
       ],
-      stopWhen: stepCountIs(10),
-      onStepFinish: (step) => {
-        ctx.logger.info(`FINISHED STEP ${stepIdx}`);
-        stepIdx += 1;
-
-        ctx.logger.info(step.toolCalls.length, "tool calls made");
-        step.toolCalls.forEach((toolCall) => {
-          ctx.logger.info(toolCall.toolName, "tool called", toolCall.input);
-        });
-      },
+      stopWhen: [stepCountIs(maxSteps), hasToolCall("saveSnapshot")],
+      onStepFinish: run.onStepFinish,
+      abortSignal,
     }),
     (e) => {
       ctx.logger.error(e);
-      return new COMMENTS_AGENT_ERROR(`Failed to generate text`);
+      return toAgentError(e, {
+        code: "llm_failed",
+        message: "Failed to generate text",
+      });
     }
   );
 
   if (result.isErr()) {
+    await run.finish({ status: "failed", error: result.error.message });
+    return err(result.error);
+  }
+  if (abortSignal?.aborted) {
+    const error = stoppedError(videoId, abortSignal);
+    await run.finish({ status: "failed", error: error.message });
+    return err(error);
+  }
+
+  if (!saved) {
+    ctx.logger.error("model finished without saving a snapshot", {
+      runId: run.runId,
+      text: result.value.text,
+    });
+    await run.finish({
+      status: "failed",
+      error: "The model finished without saving a snapshot",
+    });
+    return err({
+      code: "llm_failed",
+      message: `The model finished without saving a snapshot for videoId: ${videoId}`,
+    });
+  }
+
+  await run.finish({ status: "succeeded" });
+
+  // the saved snapshot's stats are the next run's baseline
+  if (stats) {
+    try {
+      await appendStatsRecord({
+        ctx,
+        namespace: KV_NAMESPACE,
+        videoId,
+        record: stats.current,
+      });
+    } catch (e) {
+      ctx.logger.warn("failed to record the stats history", e);
+    }
+  }
+
+  // the comments made it into the snapshot, the next onlyNew fetch can skip
+  // them (a failed write only means reading them again)
+  try {
+    await writeCommentWatermarks({ ctx, namespace: KV_NAMESPACE, watermarks });
+  } catch (e) {
+    ctx.logger.warn("failed to save the comment watermarks", e);
+  }
+
+  // moderation is a side job, failing it mustn't cost us the snapshot
+  const spamQueued = channelId
+    ? (
+        await queueSpam({
+          ctx,
+          channelId,
+          video: { videoId, title: videoInfo.value.title ?? videoId },
+          verdicts: spam.verdicts,
+          confirm: confirmSpam,
+          trigger,
+          abortSignal,
+        })
+      ).unwrapOr(null)
+    : null;
+
+  return ok({ ...saved, spamQueued });
+};
+
+export default async function Agent(
+  req: AgentRequest,
+  resp: AgentResponse,
+  ctx: AgentContext
+) {
+  const jsonResult = await ResultAsync.fromPromise(req.data.json(), () =>
+    invalidInput("Failed to parse request data, must be a JSON object")
+  );
+
+  if (jsonResult.isErr()) {
+    return errorResponse(resp, jsonResult.error);
+  }
+
+  const parseResult = inputJsonSchema.safeParse(jsonResult.value);
+
+  if (!parseResult.success) {
+    return errorResponse(
+      resp,
+      invalidInput(
+        "Invalid request data, must be a JSON object with a videoId property (or videoIds, playlistId or channelId for a batch, or a mode of history, transcript, memory, memory-diff, memory-rollback, sponsor-report, export, moderation or moderation-review)",
+        parseResult.error.issues
+      )
+    );
+  }
+
+  const input = parseResult.data;
+
+  if (input.mode === "batch") {
+    const {
+      limit,
+      concurrency,
+      timeoutSeconds,
+      bypassCache,
+      checkLinks,
+      confirmSpam,
+      fetchCaptions,
+    } = input;
+
+    const youtube = createYouTubeDataSource({
+      ctx,
+      agent: KV_NAMESPACE,
+      bypassCache,
+    });
+
+    const videoIds = await resolveBatchVideos({
+      source: input,
+      limit,
+      youtube,
+      ctx,
+    });
+    if (videoIds.isErr()) {
+      return errorResponse(resp, videoIds.error);
+    }
+
+    const results = await mapWithConcurrency(
+      videoIds.value,
+      concurrency,
+      async (videoId) => {
+        const result = await ResultAsync.fromPromise(
+          withTimeout(timeoutSeconds * 1000, async (abortSignal) =>
+            snapshotVideo({
+              ctx,
+              youtube,
+              videoId,
+              checkLinks,
+              confirmSpam,
+              fetchCaptions,
+              trigger: req.trigger,
+              abortSignal,
+            })
+          ),
+          (e) =>
+            toAgentError(e, {
+              code: "internal",
+              message: `Failed to snapshot videoId: ${videoId}`,
+            })
+        ).andThen((r) => r);
+
+        return result.match(
+          (saved) => ({ videoId, status: "succeeded" as const, ...saved }),
+          (error) => ({ videoId, status: "failed" as const, error })
+        );
+      }
+    );
+
+    const failed = results.filter((r) => r.status === "failed").length;
+    ctx.logger.info("batch finished", {
+      runId: ctx.runId,
+      videos: results.length,
+      failed,
+      ...youtube.cacheStats,
+    });
+
+    return resp.json({
+      success: true,
+      data: {
+        videoCount: results.length,
+        succeeded: results.length - failed,
+        failed,
+        results,
+      },
+    });
+  }
+
+  if (input.mode === "history") {
+    const { videoId } = input;
+    const history = await readHistory({ videoId, ctx });
+    if (history.isErr()) {
+      return errorResponse(resp, history.error);
+    }
+
+    return resp.json({
+      success: true,
+      data: { videoId, history: history.value },
+    });
+  }
+
+  if (input.mode === "transcript") {
+    const { videoId, captions, fetch, language } = input;
+    const youtube = createYouTubeDataSource({ ctx, agent: KV_NAMESPACE });
+    const transcript = await loadTranscript({
+      videoId,
+      ctx,
+      youtube,
+      captions,
+      fetch,
+      language,
+    });
+    if (transcript.isErr()) {
+      return errorResponse(resp, transcript.error);
+    }
+    if (!transcript.value) {
+      return errorResponse(resp, {
+        code: "video_not_found",
+        message: `No transcript stored for: ${videoId}`,
+        videoId,
+      });
+    }
+
+    return resp.json({
+      success: true,
+      data: transcript.value,
+    });
+  }
+
+  if (input.mode === "memory") {
+    const { videoId } = input;
+    const memory = await readMemory({ videoId, ctx });
+    if (memory.isErr()) {
+      return errorResponse(resp, memory.error);
+    }
+    if (memory.value.revisions.length === 0) {
+      return errorResponse(resp, {
+        code: "video_not_found",
+        message: `Nothing stored for: ${videoId}`,
+        videoId,
+      });
+    }
+
+    return resp.json({
+      success: true,
+      data: {
+        videoId,
+        revision: currentRevision(memory.value)?.revision,
+        sections: currentSections(memory.value),
+        revisions: listMemoryRevisions(memory.value),
+      },
+    });
+  }
+
+  if (input.mode === "memory-diff") {
+    const diff = await diffMemory({ ...input, ctx });
+    if (diff.isErr()) {
+      return errorResponse(resp, diff.error);
+    }
+
+    return resp.json({ success: true, data: diff.value });
+  }
+
+  if (input.mode === "memory-rollback") {
+    const rolledBack = await rollbackMemory({ ...input, ctx });
+    if (rolledBack.isErr()) {
+      return errorResponse(resp, rolledBack.error);
+    }
+
+    // the restored sections can be long, the revision says what was restored
+    const { sections: _sections, ...revision } = rolledBack.value;
+    ctx.logger.info("memory rolled back", {
+      videoId: input.videoId,
+      ...revision,
+    });
     return resp.json({
-      success: false,
-      error: result.error,
-      message: `Failed to generate text`,
+      success: true,
+      data: { videoId: input.videoId, ...revision },
     });
   }
 
-  ctx.logger.info(`FINISHED AFTER ${stepIdx} STEPS`);
+  if (input.mode === "moderation") {
+    const { channel, status, videoId } = input;
+    const queue = await withModerationQueue({
+      channel,
+      ctx,
+      run: (channelId) =>
+        listModerationQueue(ctx, channelId, { status, videoId }),
+    });
+    if (queue.isErr()) {
+      return errorResponse(resp, queue.error);
+    }
 
-  ctx.logger.info(result.value.text);
+    return resp.json({
+      success: true,
+      data: { channelId: queue.value.channelId, items: queue.value.result },
+    });
+  }
 
-  return resp.json(result.value.text);
+  if (input.mode === "moderation-review") {
+    const { channel, ids, action } = input;
+    const moderator = commentModeratorFromEnv();
+    if (action === "remove" && moderator.name === "local") {
+      ctx.logger.warn(
+        "No YouTube OAuth credentials, removed comments are only marked in the queue"
+      );
+    }
+
+    const reviewed = await withModerationQueue({
+      channel,
+      ctx,
+      run: (channelId) =>
+        reviewModerationItems({ ctx, channelId, ids, action, moderator }),
+    });
+    if (reviewed.isErr()) {
+      return errorResponse(resp, reviewed.error);
+    }
+
+    ctx.logger.info("moderation reviewed", {
+      channelId: reviewed.value.channelId,
+      action,
+      ids: ids.length,
+    });
+    return resp.json({
+      success: true,
+      data: {
+        channelId: reviewed.value.channelId,
+        ...reviewed.value.result,
+      },
+    });
+  }
+
+  if (input.mode === "sponsor-report") {
+    const reports = await readSponsorReports({ sponsor: input.sponsor, ctx });
+    if (reports.isErr()) {
+      return errorResponse(resp, reports.error);
+    }
+
+    return resp.json({
+      success: true,
+      data: {
+        reports: reports.value,
+        markdown: renderSponsorReportMarkdown(reports.value),
+      },
+    });
+  }
+
+  if (input.mode === "export") {
+    const { channel, format } = input;
+    const exported = await readExport({
+      videoIds: input.videoIds ?? (input.videoId ? [input.videoId] : undefined),
+      channel,
+      ctx,
+    });
+    if (exported.isErr()) {
+      return errorResponse(resp, exported.error);
+    }
+
+    const { videos, missing } = exported.value;
+    if (videos.length === 0) {
+      return errorResponse(
+        resp,
+        channel
+          ? {
+              code: "channel_not_found",
+              message: `No stored videos for channel: ${channel}`,
+              channel,
+            }
+          : {
+              code: "video_not_found",
+              message: `Nothing stored for: ${missing.join(", ")}`,
+              videoId: input.videoId,
+            }
+      );
+    }
+    if (missing.length > 0) {
+      ctx.logger.warn("nothing stored for some exported videos", { missing });
+    }
+
+    const exportedAt = new Date();
+    switch (format) {
+      case "json":
+        return resp.json({
+          success: true,
+          data: { ...exportJson(videos, exportedAt), missing },
+        });
+      case "csv":
+        return resp.data(exportCsv(videos), EXPORT_CONTENT_TYPES.csv);
+      case "markdown":
+        return resp.data(
+          exportMarkdown(videos, exportedAt),
+          EXPORT_CONTENT_TYPES.markdown
+        );
+      case "html":
+        return resp.html(
+          exportHtml(
+            videos,
+            exportedAt,
+            channel ? `${channel} video snapshots` : undefined
+          )
+        );
+    }
+  }
+
+  const {
+    videoId,
+    bypassCache,
+    checkLinks,
+    confirmSpam,
+    captions,
+    fetchCaptions,
+  } = input;
+
+  const youtube = createYouTubeDataSource({
+    ctx,
+    agent: KV_NAMESPACE,
+    bypassCache,
+  });
+
+  const result = await snapshotVideo({
+    ctx,
+    youtube,
+    videoId,
+    checkLinks,
+    confirmSpam,
+    captions,
+    fetchCaptions,
+    trigger: req.trigger,
+    runId: ctx.runId,
+  });
+  ctx.logger.info("youtube cache", {
+    runId: ctx.runId,
+    ...youtube.cacheStats,
+  });
+  if (result.isErr()) {
+    return errorResponse(resp, result.error);
+  }
+
+  return resp.json({
+    success: true,
+    data: result.value,
+  });
 }
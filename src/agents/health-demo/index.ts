@@ -1,7 +1,9 @@
 import type { AgentContext, AgentRequest, AgentResponse } from "@agentuity/sdk";
-import { openai } from "@ai-sdk/openai";
 import { generateText, stepCountIs, tool } from "ai";
 import z from "zod";
+import { errorResponse } from "../../lib/errors";
+import { resolveModel } from "../../lib/model-config";
+import { createRunTracker } from "../../lib/run-ledger";
 
 const weightTool = tool({
   description: "Get a user's height",
@@ -58,15 +60,28 @@ export default async function Agent(
   resp: AgentResponse,
   ctx: AgentContext
 ) {
+  const run = createRunTracker({
+    ctx,
+    agent: "health-demo",
+    trigger: req.trigger,
+    runId: ctx.runId,
+  });
+
   try {
-    let stepIdx = 1;
-    const result = await generateText({
-      model: openai("gpt-5-mini"),
-      providerOptions: {
-        openai: {
-          reasoningEffort: "low",
-        },
+    const { model, providerOptions, maxSteps } = await resolveModel({
+      ctx,
+      agent: "health-demo",
+      defaults: {
+        provider: "openai",
+        model: "gpt-5-mini",
+        reasoningEffort: "low",
+        maxSteps: 10,
       },
+    });
+
+    const result = await generateText({
+      model,
+      providerOptions,
       system:
         "You are a helpful assistant for helping users with their health. You have access to tools that can check the user's weight, body fat percentage, height, sex, and age from our database.",
       tools: {
@@ -87,33 +102,20 @@ export default async function Agent(
             "Run a check on my health. How do my stats compare to others around my age? Do I have a decent amount of muscle, what changes should I push for to get healthier?",
         },
       ],
-      stopWhen: stepCountIs(10),
-      onStepFinish: (step) => {
-        console.log("FINISHED STEP", stepIdx);
-        stepIdx += 1;
-
-        console.log(step.toolCalls.length, "tool calls made");
-        step.toolCalls.forEach((toolCall) => {
-          console.log(toolCall.toolName, "tool called");
-        });
-
-        console.log(step.toolResults.length, "tool results");
-        step.toolResults.forEach((toolResult) => {
-          console.log(
-            toolResult.output,
-            "tool result for",
-            toolResult.toolName
-          );
-        });
-      },
+      stopWhen: stepCountIs(maxSteps),
+      onStepFinish: run.onStepFinish,
     });
 
-    console.log("finished after", stepIdx - 1, "steps");
+    await run.finish({ status: "succeeded" });
 
     return resp.text(result.text);
   } catch (error) {
     ctx.logger.error("Error running agent:", error);
+    await run.finish({ status: "failed", error });
 
-    return resp.text("Sorry, there was an error processing your request.");
+    return errorResponse(resp, {
+      code: "llm_failed",
+      message: "Sorry, there was an error processing your request.",
+    });
   }
 }
@@ -1,12 +1,72 @@
 import type { AgentContext, AgentRequest, AgentResponse } from "@agentuity/sdk";
-import { openai } from "@ai-sdk/openai";
 import { generateText, stepCountIs, tool } from "ai";
-import { google } from "googleapis";
 import z from "zod";
+import {
+  type AlertSink,
+  alertSchema,
+  alertSinksFromEnv,
+  dispatchAlert,
+} from "../../lib/alerts";
+import {
+  type AnomalyResult,
+  anomalyConfigFromEnv,
+  detectAnomalies,
+} from "../../lib/anomaly";
+import {
+  getChannel,
+  listEnabledChannels,
+  type RegisteredChannel,
+} from "../../lib/channel-registry";
+import {
+  type ChannelRunState,
+  diffChannelVideos,
+  readRunState,
+  recordRun,
+  type VideoChange,
+  writeRunState,
+} from "../../lib/channel-run-state";
+import {
+  AGENT_ERROR,
+  errorResponse,
+  invalidInput,
+  toAgentError,
+} from "../../lib/errors";
+import { resolveModel } from "../../lib/model-config";
+import { createRunTracker } from "../../lib/run-ledger";
+import {
+  currentRevision,
+  currentSections,
+  readVideoMemory,
+  SNAPSHOT_SECTION,
+  sectionNameSchema,
+  writeVideoMemory,
+} from "../../lib/video-memory";
+import { markVideosWatched } from "../../lib/watched-videos";
+import {
+  fetchCommentThreads,
+  fetchNewCommentThreads,
+  writeCommentWatermarks,
+} from "../../lib/youtube-comments";
+import {
+  createYouTubeDataSource,
+  type YouTubeDataSource,
+} from "../../lib/youtube-data-source";
+
+const DEFAULT_RECENT_VIDEO_LIMIT = 20;
+
+// cron runs send no body, manual runs can send these
+const inputJsonSchema = z.object({
+  // treat every recent video as new, ignoring what earlier runs saw
+  forceFullRescan: z.boolean().default(false),
+});
 
-const API_KEY = process.env.YT_API_KEY;
-const BEN_DAVIS_CHANNEL_ID = "UCFvPgPdb_emE_bpMZq6hmJQ";
-const THEO_CHANNEL_ID = "UCbRP3c757lWg9M-U7TyEkXA";
+// overridable per deployment, see src/lib/model-config.ts
+const DEFAULT_MODEL = {
+  provider: "openai",
+  model: "gpt-5",
+  reasoningEffort: "low",
+  maxSteps: 40,
+} as const;
 
 interface VideoData {
   videoId: string;
@@ -23,20 +83,29 @@ interface CommentData {
   text: string;
   authorName: string;
   likeCount: number;
+  publishedAt: string;
+  replies: CommentData[];
 }
 
-async function getRecentVideosFromChannel(
+export async function getRecentVideosFromChannel(
+  yt: YouTubeDataSource,
   channelId: string,
   maxResults: number = 20
 ): Promise<VideoData[]> {
-  const yt = google.youtube({ version: "v3", auth: API_KEY });
-
-  // First, get basic video info from search
-  const searchResp = await yt.search.list({
-    part: ["snippet"],
-    channelId,
-    type: ["video"],
-    order: "date",
+  // The uploads playlist lists the same videos as search.list for 2 quota
+  // units instead of 100
+  const channelResp = await yt.listChannels({
+    part: ["contentDetails"],
+    id: [channelId],
+  });
+  const uploadsPlaylistId =
+    channelResp.items?.[0]?.contentDetails?.relatedPlaylists?.uploads;
+  if (!uploadsPlaylistId) {
+    throw new Error(`No uploads playlist found for channel ${channelId}`);
+  }
+
+  const playlistResp = await yt.listPlaylistItems({
+    playlistId: uploadsPlaylistId,
     maxResults,
   });
 
@@ -44,8 +113,8 @@ async function getRecentVideosFromChannel(
   const videoIds: string[] = [];
 
   // Extract video IDs and basic info
-  for (const item of searchResp.data.items || []) {
-    const videoId = item.id?.videoId;
+  for (const item of playlistResp.items || []) {
+    const videoId = item.contentDetails?.videoId;
     if (!videoId) continue;
 
     const snippet = item.snippet;
@@ -55,7 +124,9 @@ async function getRecentVideosFromChannel(
       videoId,
       title: snippet?.title || "",
       description: snippet?.description || "",
-      publishedAt: snippet?.publishedAt || "",
+      // snippet.publishedAt is when it was added to the playlist
+      publishedAt:
+        item.contentDetails?.videoPublishedAt || snippet?.publishedAt || "",
       link: `https://www.youtube.com/watch?v=${videoId}`,
       viewCount: 0,
       likeCount: 0,
@@ -65,14 +136,14 @@ async function getRecentVideosFromChannel(
 
   // Get detailed statistics for all videos in batch
   if (videoIds.length > 0) {
-    const statsResp = await yt.videos.list({
+    const statsResp = await yt.listVideos({
       part: ["statistics", "contentDetails"],
       id: videoIds,
     });
 
     // Create a map of video_id to stats
     const statsMap: Record<string, any> = {};
-    for (const item of statsResp.data.items || []) {
+    for (const item of statsResp.items || []) {
       const vidId = item.id;
       if (vidId) {
         statsMap[vidId] = {
@@ -97,124 +168,466 @@ async function getRecentVideosFromChannel(
   return videos;
 }
 
-async function getVideoComments(
+export async function getVideoComments(
+  yt: YouTubeDataSource,
   videoId: string,
-  maxResults: number = 40
+  maxResults: number = 40,
+  options: {
+    ctx?: AgentContext;
+    onlyNew?: boolean;
+    expandReplies?: boolean;
+    // where only_new fetches leave their watermark, committed once the run
+    // has succeeded
+    watermarks?: Map<string, string>;
+  } = {}
 ): Promise<CommentData[]> {
-  const yt = google.youtube({ version: "v3", auth: API_KEY });
+  const { ctx, onlyNew = false, expandReplies = false, watermarks } = options;
 
   try {
-    const commentsResp = await yt.commentThreads.list({
-      part: ["snippet", "replies"],
-      videoId,
-      order: "relevance",
-      maxResults,
-      textFormat: "plainText",
-    });
+    const { threads, watermark } =
+      onlyNew && ctx
+        ? await fetchNewCommentThreads({
+            ctx,
+            namespace: "video_memories",
+            youtube: yt,
+            videoId,
+            budget: maxResults,
+            expandReplies,
+          })
+        : {
+            ...(await fetchCommentThreads({
+              youtube: yt,
+              videoId,
+              budget: maxResults,
+              expandReplies,
+            })),
+            watermark: null,
+          };
+    if (watermark) watermarks?.set(videoId, watermark);
+
+    return threads.map((thread) => ({
+      text: thread.text,
+      authorName: thread.authorName,
+      likeCount: thread.likeCount,
+      publishedAt: thread.publishedAt,
+      replies: expandReplies
+        ? thread.replies.map((reply) => ({
+            text: reply.text,
+            authorName: reply.authorName,
+            likeCount: reply.likeCount,
+            publishedAt: reply.publishedAt,
+            replies: [],
+          }))
+        : [],
+    }));
+  } catch (error) {
+    throw new AGENT_ERROR(
+      toAgentError(
+        error,
+        {
+          code: "youtube_unavailable",
+          message: `Failed to fetch comments for video ${videoId}: ${error}`,
+        },
+        { videoId }
+      )
+    );
+  }
+}
 
-    const comments: CommentData[] = [];
+const dispatchAnomalyAlerts = async (data: {
+  ctx: AgentContext;
+  sinks: AlertSink[];
+  channel: string;
+  videos: VideoData[];
+  anomalies: AnomalyResult[];
+  zThreshold: number;
+}) => {
+  const { ctx, sinks, channel, videos, anomalies, zThreshold } = data;
+  if (sinks.length === 0) return [];
+
+  const results = [];
+  for (const anomaly of anomalies) {
+    const video = videos.find((v) => v.videoId === anomaly.videoId);
+    if (!anomaly.anomalous || !video) continue;
+
+    const result = await dispatchAlert({
+      ctx,
+      sinks,
+      alert: {
+        // twice past the threshold is worth waking someone up for
+        severity:
+          Math.abs(anomaly.zScore ?? 0) >= zThreshold * 2
+            ? "critical"
+            : "warning",
+        kind: "anomaly",
+        video: {
+          videoId: video.videoId,
+          title: video.title,
+          url: video.link,
+          channel,
+        },
+        reason: `${anomaly.direction === "over" ? "Overperforming" : "Underperforming"}: ${anomaly.viewsPerHour} views/hour vs a median of ${anomaly.baselineMedian} for ${anomaly.ageBucket} old videos`,
+        evidence: [
+          `z-score ${anomaly.zScore} (threshold ${zThreshold})`,
+          `${anomaly.baselineSize} videos in the baseline`,
+        ],
+        // one alert per direction, a video that flips gets a new one
+        dedupKey: `anomaly:${video.videoId}:${anomaly.direction}`,
+      },
+    }).catch((error) => {
+      ctx.logger.error("Failed to dispatch anomaly alert:", error);
+      return null;
+    });
+    if (result) {
+      results.push({
+        videoId: video.videoId,
+        dedupKey: result.dedupKey,
+        deliveries: result.deliveries,
+      });
+    }
+  }
 
-    for (const item of commentsResp.data.items || []) {
-      const snippet = item.snippet;
-      const topComment = snippet?.topLevelComment?.snippet;
+  return results;
+};
+
+export const getRecentYouTubeVideosTool = (
+  ctx: AgentContext,
+  yt: YouTubeDataSource,
+  alertSinks: AlertSink[] = [],
+  // the channels whose baselines this run still gets to update, each is taken
+  // out on its first look so repeated calls only score against the baseline
+  baselineChannels: Set<string> = new Set()
+) =>
+  tool({
+    description:
+      "Get the recent videos from a registered YouTube channel (by its name or channel ID), each with its views per hour and robust z-score against the channel's baseline for videos of the same age",
+    inputSchema: z.object({
+      channel: z.string(),
+    }),
+    execute: async ({ channel }, { abortSignal }) => {
+      const registered = await getChannel(ctx, channel).catch((error) => {
+        ctx.logger.error("Failed to read the channel registry:", error);
+        return null;
+      });
+      if (!registered) {
+        return {
+          channelKey: channel,
+          source: "channel_registry",
+          error: {
+            code: "channel_not_found",
+            message: `${channel} is not a registered channel`,
+            channel,
+          },
+        };
+      }
 
-      if (topComment) {
-        comments.push({
-          text: topComment.textDisplay || "",
-          authorName: topComment.authorDisplayName || "",
-          likeCount: topComment.likeCount || 0,
+      const resolvedChannelId = registered.channelId;
+
+      try {
+        const videos = await getRecentVideosFromChannel(
+          yt,
+          resolvedChannelId,
+          registered.settings.recentVideoLimit ?? DEFAULT_RECENT_VIDEO_LIMIT
+        );
+        const anomalyConfig = anomalyConfigFromEnv(registered.settings.anomaly);
+        const anomalies = await detectAnomalies({
+          ctx,
+          channelId: resolvedChannelId,
+          videos,
+          updateBaseline: baselineChannels.delete(resolvedChannelId),
+          config: anomalyConfig,
+        });
+        const anomalyByVideo = new Map(anomalies.map((a) => [a.videoId, a]));
+        await recordWatchedVideos(ctx, registered, videos);
+        const alerts = await dispatchAnomalyAlerts({
+          ctx,
+          sinks: alertSinks,
+          channel: registered.name,
+          videos,
+          anomalies,
+          zThreshold: anomalyConfig.zThreshold,
         });
+
+        return {
+          channelKey: registered.name,
+          channelId: resolvedChannelId,
+          source: "youtube_api_v3",
+          fetchedAt: new Date().toISOString(),
+          videoCount: videos.length,
+          anomalyThresholds: anomalyConfig,
+          videos: videos.map((video) => ({
+            ...video,
+            performance: anomalyByVideo.get(video.videoId) ?? null,
+          })),
+          anomalyAlerts: alerts,
+        };
+      } catch (error) {
+        return {
+          channelKey: registered.name,
+          channelId: resolvedChannelId,
+          source: "youtube_api_v3",
+          error: toAgentError(error, {
+            code: "youtube_unavailable",
+            message: String(error),
+          }),
+        };
       }
-    }
+    },
+  });
 
-    return comments;
+// indexes the videos the bot has looked at in video_memories (where its
+// memories used to live), so the digest can find them later
+const recordWatchedVideos = async (
+  ctx: AgentContext,
+  channel: RegisteredChannel,
+  videos: VideoData[]
+) => {
+  const now = new Date().toISOString();
+  try {
+    await markVideosWatched({
+      ctx,
+      namespace: "video_memories",
+      videos: videos.map((video) => ({
+        videoId: video.videoId,
+        title: video.title,
+        channelTitle: channel.name,
+        channelId: channel.channelId,
+        publishedAt: video.publishedAt,
+        lastSnapshotAt: now,
+      })),
+    });
   } catch (error) {
-    throw new Error(`Failed to fetch comments for video ${videoId}: ${error}`);
+    ctx.logger.error("Failed to update the watched video index:", error);
   }
-}
+};
+
+export const getVideoCommentsTool = (
+  ctx: AgentContext,
+  yt: YouTubeDataSource,
+  watermarks?: Map<string, string>
+) =>
+  tool({
+    description:
+      "Get the top comments for a specific YouTube video. Set only_new to only get the comments posted since the last only_new fetch for that video, and include_replies to load every reply under each comment.",
+    inputSchema: z.object({
+      video_id: z.string(),
+      max_results: z.number().min(1).max(500).default(40).optional(),
+      only_new: z.boolean().default(false).optional(),
+      include_replies: z.boolean().default(false).optional(),
+    }),
+    execute: async ({
+      video_id,
+      max_results = 40,
+      only_new = false,
+      include_replies = false,
+    }) => {
+      try {
+        const comments = await getVideoComments(yt, video_id, max_results, {
+          ctx,
+          onlyNew: only_new,
+          expandReplies: include_replies,
+          watermarks,
+        });
+        return {
+          videoId: video_id,
+          source: "youtube_api_v3",
+          fetchedAt: new Date().toISOString(),
+          commentCount: comments.length,
+          maxResults: max_results,
+          onlyNew: only_new,
+          comments,
+        };
+      } catch (error) {
+        return {
+          videoId: video_id,
+          source: "youtube_api_v3",
+          error: toAgentError(
+            error,
+            { code: "youtube_unavailable", message: String(error) },
+            { videoId: video_id }
+          ),
+        };
+      }
+    },
+  });
 
-const getRecentYouTubeVideosTool = tool({
-  description: "Get the recent videos from a YouTube channel",
-  inputSchema: z.object({
-    channel_id: z.enum(["Ben Davis", "Theo"]),
-  }),
-  execute: async ({ channel_id }, { abortSignal }) => {
-    const resolvedChannelId =
-      channel_id === "Ben Davis" ? BEN_DAVIS_CHANNEL_ID : THEO_CHANNEL_ID;
+export const raiseAlertTool = (ctx: AgentContext, alertSinks: AlertSink[]) =>
+  tool({
+    description:
+      "Send a priority alert to the team's notification channels. Use it for anything in your priority alerts (sponsor complaints, broken or missing links, editing mistakes). Alerts with the same dedupKey are only sent once, so reuse the key when it's the same issue as a previous run.",
+    inputSchema: alertSchema,
+    execute: async (alert) => {
+      if (alertSinks.length === 0) {
+        return { sent: false, reason: "no alert sinks are configured" };
+      }
 
-    try {
-      const videos = await getRecentVideosFromChannel(resolvedChannelId, 20);
-      return {
-        channelKey: channel_id,
-        channelId: resolvedChannelId,
-        source: "youtube_api_v3",
-        fetchedAt: new Date().toISOString(),
-        videoCount: videos.length,
-        videos,
+      try {
+        const { dedupKey, deliveries } = await dispatchAlert({
+          ctx,
+          alert,
+          sinks: alertSinks,
+        });
+        return {
+          sent: deliveries.some((d) => d.status === "sent"),
+          dedupKey,
+          deliveries,
+        };
+      } catch (error) {
+        ctx.logger.error("Failed to dispatch alert:", error);
+        return {
+          sent: false,
+          error: { code: "internal", message: String(error) },
+        };
+      }
+    },
+  });
+
+export const flagForFollowUpTool = (
+  ctx: AgentContext,
+  runStates: Map<string, ChannelRunState>
+) =>
+  tool({
+    description:
+      "Flag a video for follow-up so the next runs look at it again even if nothing about it changes, or clear the flag once it's dealt with (resolved: true)",
+    inputSchema: z.object({
+      channel: z.string(),
+      video_id: z.string(),
+      reason: z.string().optional(),
+      resolved: z.boolean().default(false),
+    }),
+    execute: async ({ channel, video_id, reason, resolved }) => {
+      const registered = await getChannel(ctx, channel).catch(() => null);
+      const state = registered && runStates.get(registered.channelId);
+      if (!state) {
+        return {
+          videoId: video_id,
+          error: {
+            code: "channel_not_found",
+            message: `${channel} isn't one of the channels in this run`,
+            channel,
+          },
+        };
+      }
+
+      if (resolved) {
+        delete state.followUps[video_id];
+        return { videoId: video_id, action: "cleared" };
+      }
+
+      state.followUps[video_id] = {
+        title: state.videos[video_id]?.title,
+        reason: reason ?? "flagged for follow-up",
+        flaggedAt: new Date().toISOString(),
       };
+      return { videoId: video_id, action: "flagged" };
+    },
+  });
+
+/**
+ * What's new, changed or still flagged on each channel since the last
+ * scheduled run, worked out before the model runs so it knows where to look.
+ */
+const loadChannelChanges = async (data: {
+  ctx: AgentContext;
+  youtube: YouTubeDataSource;
+  channels: RegisteredChannel[];
+  fullRescan: boolean;
+}) => {
+  const { ctx, youtube, channels, fullRescan } = data;
+
+  const runStates = new Map<string, ChannelRunState>();
+  const observed = new Map<string, VideoData[]>();
+  const changes = [];
+
+  for (const channel of channels) {
+    const state = await readRunState(ctx, channel.channelId);
+    runStates.set(channel.channelId, state);
+
+    try {
+      const videos = await getRecentVideosFromChannel(
+        youtube,
+        channel.channelId,
+        channel.settings.recentVideoLimit ?? DEFAULT_RECENT_VIDEO_LIMIT
+      );
+      observed.set(channel.channelId, videos);
+
+      const diff = diffChannelVideos(state, videos, { fullRescan });
+      const pick = (change: VideoChange["change"]) =>
+        diff
+          .filter((d) => d.change === change)
+          .map(({ videoId, title, reasons }) => ({ videoId, title, reasons }));
+      changes.push({
+        channel: channel.name,
+        lastRunAt: state.lastSuccessfulRunAt,
+        newVideos: pick("new"),
+        changedVideos: pick("changed"),
+        flaggedVideos: pick("flagged"),
+        unchangedCount: diff.filter((d) => d.change === "unchanged").length,
+      });
     } catch (error) {
-      return {
-        channelKey: channel_id,
-        channelId: resolvedChannelId,
-        source: "youtube_api_v3",
-        error: {
-          type: "api_error",
+      ctx.logger.error(`Failed to list videos for ${channel.name}:`, error);
+      changes.push({
+        channel: channel.name,
+        lastRunAt: state.lastSuccessfulRunAt,
+        error: toAgentError(error, {
+          code: "youtube_unavailable",
           message: String(error),
-        },
-      };
+        }),
+      });
     }
-  },
-});
+  }
 
-const getVideoCommentsTool = tool({
-  description: "Get the top comments for a specific YouTube video",
-  inputSchema: z.object({
-    video_id: z.string(),
-    max_results: z.number().min(1).max(50).default(40).optional(),
-  }),
-  execute: async ({ video_id, max_results = 40 }) => {
+  return { runStates, observed, changes };
+};
+
+const saveRunStates = async (data: {
+  ctx: AgentContext;
+  runStates: Map<string, ChannelRunState>;
+  observed: Map<string, VideoData[]>;
+  trigger: string;
+  status: "succeeded" | "failed";
+  advance: boolean;
+}) => {
+  const { ctx, runStates, observed, ...run } = data;
+  const at = new Date();
+
+  for (const [channelId, state] of runStates) {
     try {
-      const comments = await getVideoComments(video_id, max_results);
-      return {
-        videoId: video_id,
-        source: "youtube_api_v3",
-        fetchedAt: new Date().toISOString(),
-        commentCount: comments.length,
-        maxResults: max_results,
-        comments,
-      };
+      await writeRunState(
+        ctx,
+        recordRun(state, { ...run, at, videos: observed.get(channelId) ?? [] })
+      );
     } catch (error) {
-      return {
-        videoId: video_id,
-        source: "youtube_api_v3",
-        error: {
-          type: "api_error",
-          message: String(error),
-        },
-      };
+      ctx.logger.error(`Failed to save the run state for ${channelId}:`, error);
     }
-  },
-});
+  }
+};
 
 // These tools need access to ctx, so they'll be created inside the Agent function
 
-const SYSTEM_PROMPT = `
-You are a background YouTube channel analyst that maintains living notes about videos on two channels: Ben Davis and Theo.
+const SYSTEM_PROMPT = (channels: RegisteredChannel[]) => `
+You are a background YouTube channel analyst that maintains living notes about videos on these channels: ${channels.map((c) => c.name).join(", ")}.
 
 Your tools:
 
-- get_recent_youtube_videos(channel: "Ben Davis" | "Theo")
-- get_video_comments(video_id)
-- save_video_memory(video_id, memory: string)
+- get_recent_youtube_videos(channel: ${channels.map((c) => `"${c.name}"`).join(" | ")})
+- get_video_comments(video_id, max_results?, only_new?, include_replies?)
+- save_video_memory(video_id, base_revision, sections: { [name]: text | null })
+- raise_alert(severity, kind, video, reason, evidence, dedupKey?)
+- flag_for_follow_up(channel, video_id, reason?, resolved?)
 - get_video_memory(video_id)
 
 Important rules:
 
 - In your written output, refer to videos by title, not by video ID. Video IDs are allowed only in tool arguments.
-- Work incrementally. Prefer diffing and updating existing memory over rewriting.
-- Only request comments for new videos or videos from the last 72 hours unless a video is flagged as anomalous or has active discussion worth revisiting.
+- Work incrementally. Memory is kept in named sections: read it with get_video_memory, then save only the sections that changed along with the revision you read. If a save fails with code conflict, the memory changed since you read it; read it again and reapply your changes.
+- Each run comes with what changed since the last run, worked out from the stored run state: new videos, changed videos (with why) and videos flagged for follow-up. Start from those; unchanged videos only need a look if they're anomalous.
+- Only request comments for new, changed or flagged videos, or videos from the last 72 hours with active discussion worth revisiting.
+- Flag a video with flag_for_follow_up when something needs checking again on a later run (a correction the creator promised, a complaint that's still growing), and clear the flag with resolved: true once it's settled.
 - For comments, you care about: (a) edit mistakes, broken/missing links, factual corrections; (b) sponsor mentions (positive/negative); (c) common themes; (d) unusually high like counts.
-- Abnormal performance: compute views per hour since publish and compare to the channel's rolling median with a robust z-score. Consider |z| ≥ 2 as anomalous. If rolling stats are unavailable, be conservative.
+- Abnormal performance: every video from get_recent_youtube_videos comes with a precomputed performance block (views per hour since publish, the channel's rolling median for videos of the same age, and a robust z-score). Use those numbers, don't recompute them. A video is anomalous when its anomalous flag is set; when zScore is null the baseline is too small or flat to judge, so be conservative.
+- If a tool returns an error with code quota_exceeded, stop calling YouTube tools for the rest of the run and say so in the summary.
+- Anomaly alerts are sent automatically by get_recent_youtube_videos (see anomalyAlerts). Send every other priority alert with raise_alert: critical for things that need fixing now (a dead sponsor link, a bad sponsor read), warning for the rest. Set dedupKey to something stable for the issue (e.g. "sponsor_complaint:<video id>:promo-code") so it isn't re-sent next hour.
 - Output should be concise, structured, and actionable. Save durable insights in memory with save_video_memory.
 
 Output format per run:
@@ -224,50 +637,144 @@ Output format per run:
 3. Channel-level trends: quick bullets on what's working or not.
 `;
 
-const HOURLY_PROMPT = (timestamp: string) => `
+const HOURLY_PROMPT = (
+  timestamp: string,
+  channels: RegisteredChannel[],
+  changes: unknown[]
+) => `
 Hourly status run for ${timestamp}.
 
-- Check both channels for new videos since the last run.
-- For videos ≤ 72 hours old or previously flagged, sample comments (top liked + newest + keyword hits).
+- Check every one of these channels for new videos since the last run: ${channels.map((c) => c.name).join(", ")}.
+- Changes since the last run, per channel: ${JSON.stringify(changes)}
+- For new, changed or flagged videos, and videos ≤ 72 hours old, sample comments (top liked + newest + keyword hits).
 - Update per-video memory only if there's a meaningful change (new anomalies, new themes, corrections, sponsor sentiment shift).
 - Return the run summary using the required output format.
 `;
 
+const MANUAL_PROMPT = (
+  timestamp: string,
+  channels: RegisteredChannel[],
+  changes: unknown[],
+  fullRescan: boolean
+) => `
+Manual run for ${timestamp}, requested outside the hourly schedule.
+
+- ${fullRescan ? "This is a full rescan: review every recent video on" : "Check what has changed since the last scheduled run on"} these channels: ${channels.map((c) => c.name).join(", ")}.
+- ${fullRescan ? "Videos" : "Changes since the last scheduled run"}, per channel: ${JSON.stringify(changes)}
+- Sample comments where it's worth it and update per-video memory only if there's a meaningful change.
+- Return the run summary using the required output format.
+`;
+
 export default async function Agent(
   req: AgentRequest,
   resp: AgentResponse,
   ctx: AgentContext
 ) {
+  const run = createRunTracker({
+    ctx,
+    agent: "legacy-channel-bot",
+    trigger: req.trigger,
+    runId: ctx.runId,
+  });
+
+  // scheduled runs move the "last run" watermark, manual ones only look
+  const trigger: string = req.trigger ?? "manual";
+  const scheduled = trigger === "cron";
+  let state: Awaited<ReturnType<typeof loadChannelChanges>> | null = null;
+
   try {
-    let stepIdx = 1;
+    const body =
+      req.data.contentType === "application/json" ? await req.data.json() : {};
+    const parsed = inputJsonSchema.safeParse(body ?? {});
+    if (!parsed.success) {
+      await run.finish({ status: "failed", error: "Invalid request data" });
+      return errorResponse(
+        resp,
+        invalidInput(
+          'Invalid request data, the only option is "forceFullRescan"',
+          parsed.error.issues
+        )
+      );
+    }
+    const { forceFullRescan } = parsed.data;
+
+    const channels = await listEnabledChannels(ctx);
+    if (channels.length === 0) {
+      ctx.logger.info("No enabled channels in the registry, nothing to do");
+      await run.finish({ status: "succeeded" });
+      return resp.text("No enabled channels to check.");
+    }
+
+    const youtube = createYouTubeDataSource({
+      ctx,
+      agent: "legacy-channel-bot",
+    });
+
+    let alertSinks: AlertSink[] = [];
+    try {
+      alertSinks = alertSinksFromEnv();
+    } catch (error) {
+      // a bad config shouldn't stop the run, the alerts still go in the text
+      ctx.logger.error("Invalid ALERT_SINKS, not sending alerts:", error);
+    }
+
+    state = await loadChannelChanges({
+      ctx,
+      youtube,
+      channels,
+      fullRescan: forceFullRescan,
+    });
+    ctx.logger.info("changes since the last run", {
+      runId: run.runId,
+      trigger,
+      forceFullRescan,
+      changes: state.changes,
+    });
 
     // Create KV tools with access to ctx
     const saveVideoMemoryTool = tool({
       description:
-        "Save the agent's findings, thoughts, and analysis for a specific video",
+        "Save the agent's findings, thoughts, and analysis for a specific video. Memory is split into named sections (e.g. performance, themes, sponsors, corrections); only the sections you pass are replaced, null removes one. Pass the revision you read with get_video_memory as base_revision (0 if there was no memory).",
       inputSchema: z.object({
         video_id: z.string(),
-        memory: z.string(),
+        base_revision: z.number().int().min(0),
+        sections: z.record(sectionNameSchema, z.string().nullable()),
       }),
-      execute: async ({ video_id, memory }) => {
+      execute: async ({ video_id, base_revision, sections }) => {
         try {
-          await ctx.kv.set("video_memories", video_id, memory);
-          ctx.logger.info(`Successfully saved memory for video ${video_id}`);
+          if (SNAPSHOT_SECTION in sections) {
+            throw new AGENT_ERROR(
+              invalidInput(
+                `The ${SNAPSHOT_SECTION} section is written by comments-watcher`
+              )
+            );
+          }
+          const saved = await writeVideoMemory({
+            ctx,
+            videoId: video_id,
+            author: "legacy-channel-bot",
+            sections,
+            baseRevision: base_revision,
+          });
+          ctx.logger.info(
+            `Successfully saved memory for video ${video_id} as revision ${saved.revision}`
+          );
           return {
             videoId: video_id,
             action: "saved",
-            timestamp: new Date().toISOString(),
-            memoryLength: memory.length,
+            timestamp: saved.createdAt,
+            revision: saved.revision,
+            changedSections: saved.changed,
           };
         } catch (error) {
           ctx.logger.error("Failed to save video memory:", error);
           return {
             videoId: video_id,
             action: "save_failed",
-            error: {
-              type: "kv_error",
+            error: toAgentError(error, {
+              code: "internal",
               message: String(error),
-            },
+            }),
           };
         }
       },
@@ -275,32 +782,38 @@ export default async function Agent(
 
     const getVideoMemoryTool = tool({
       description:
-        "Retrieve the agent's previously saved memory/analysis for a specific video",
+        "Retrieve the agent's previously saved memory/analysis for a specific video, by section, with the revision to pass to save_video_memory",
       inputSchema: z.object({
         video_id: z.string(),
       }),
       execute: async ({ video_id }) => {
         try {
-          const memory = await ctx.kv.get("video_memories", video_id);
-          if (memory === null) {
+          const memory = await readVideoMemory(ctx, video_id);
+          const revision = currentRevision(memory)?.revision ?? 0;
+          const { [SNAPSHOT_SECTION]: snapshot, ...sections } =
+            currentSections(memory);
+          if (Object.keys(sections).length === 0) {
             ctx.logger.info(`No memory found for video ${video_id}`);
             return {
               videoId: video_id,
               action: "retrieved",
               found: false,
-              memory: null,
+              revision,
+              sections: {},
+              hasSnapshot: snapshot !== undefined,
             };
           } else {
             ctx.logger.info(
               `Successfully retrieved memory for video ${video_id}`
             );
-            const memoryText = await memory.data.text();
             return {
               videoId: video_id,
               action: "retrieved",
               found: true,
-              memory: memoryText,
-              memoryLength: memoryText.length,
+              revision,
+              sections,
+              // comments-watcher's snapshot isn't included, it's large
+              hasSnapshot: snapshot !== undefined,
             };
           }
         } catch (error) {
@@ -308,60 +821,94 @@ export default async function Agent(
           return {
             videoId: video_id,
             action: "retrieve_failed",
-            error: {
-              type: "kv_error",
-              message: String(error),
-            },
+            error: { code: "internal", message: String(error) },
           };
         }
       },
     });
 
+    const { model, providerOptions, maxSteps } = await resolveModel({
+      ctx,
+      agent: "legacy-channel-bot",
+      defaults: DEFAULT_MODEL,
+    });
+
+    const commentWatermarks = new Map<string, string>();
     const result = await generateText({
-      model: openai("gpt-5"),
-      providerOptions: {
-        openai: {
-          reasoningEffort: "low",
-        },
-      },
-      system: SYSTEM_PROMPT,
+      model,
+      providerOptions,
+      system: SYSTEM_PROMPT(channels),
       tools: {
-        get_recent_youtube_videos: getRecentYouTubeVideosTool,
-        get_video_comments: getVideoCommentsTool,
+        get_recent_youtube_videos: getRecentYouTubeVideosTool(
+          ctx,
+          youtube,
+          alertSinks,
+          // manual runs look at the baselines without moving them
+          new Set(scheduled ? channels.map((c) => c.channelId) : [])
+        ),
+        get_video_comments: getVideoCommentsTool(
+          ctx,
+          youtube,
+          commentWatermarks
+        ),
         save_video_memory: saveVideoMemoryTool,
         get_video_memory: getVideoMemoryTool,
+        raise_alert: raiseAlertTool(ctx, alertSinks),
+        flag_for_follow_up: flagForFollowUpTool(ctx, state.runStates),
       },
       messages: [
         {
           role: "user",
-          content: HOURLY_PROMPT(new Date().toISOString()),
+          content: scheduled
+            ? HOURLY_PROMPT(new Date().toISOString(), channels, state.changes)
+            : MANUAL_PROMPT(
+                new Date().toISOString(),
+                channels,
+                state.changes,
+                forceFullRescan
+              ),
         },
       ],
-      stopWhen: stepCountIs(40),
-      onStepFinish: (step) => {
-        console.log("FINISHED STEP", stepIdx);
-        stepIdx += 1;
-
-        console.log(step.toolCalls.length, "tool calls made");
-        step.toolCalls.forEach((toolCall) => {
-          console.log(toolCall.toolName, "tool called");
-        });
-
-        console.log(step.toolResults.length, "tool results");
-        step.toolResults.forEach((toolResult) => {
-          console.log(
-            toolResult.output,
-            "tool result for",
-            toolResult.toolCallId
-          );
-        });
-      },
+      stopWhen: stepCountIs(maxSteps),
+      onStepFinish: run.onStepFinish,
     });
 
-    console.log("finished after", stepIdx - 1, "steps");
+    ctx.logger.info("youtube cache", {
+      runId: run.runId,
+      ...youtube.cacheStats,
+    });
+    await writeCommentWatermarks({
+      ctx,
+      namespace: "video_memories",
+      watermarks: commentWatermarks,
+    });
+    await saveRunStates({
+      ctx,
+      ...state,
+      trigger,
+      status: "succeeded",
+      advance: scheduled,
+    });
+    await run.finish({ status: "succeeded" });
     return resp.text(result.text);
   } catch (error) {
     ctx.logger.error("Error running agent:", error);
-    return resp.text("Sorry, there was an error processing your request.");
+    if (state) {
+      await saveRunStates({
+        ctx,
+        ...state,
+        trigger,
+        status: "failed",
+        advance: false,
+      });
+    }
+    await run.finish({ status: "failed", error });
+    return errorResponse(
+      resp,
+      toAgentError(error, {
+        code: "llm_failed",
+        message: "Sorry, there was an error processing your request.",
+      })
+    );
   }
 }
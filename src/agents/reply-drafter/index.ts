@@ -0,0 +1,344 @@
+import type { AgentContext, AgentRequest, AgentResponse } from "@agentuity/sdk";
+import { generateText, hasToolCall, stepCountIs, tool } from "ai";
+import { ResultAsync } from "neverthrow";
+import z from "zod";
+import { getChannel } from "../../lib/channel-registry";
+import { commentPublisherFromEnv } from "../../lib/comment-publisher";
+import {
+  AGENT_ERROR,
+  type AgentError,
+  errorResponse,
+  invalidInput,
+  toAgentError,
+} from "../../lib/errors";
+import { resolveModel } from "../../lib/model-config";
+import {
+  approveReplyDraft,
+  DEFAULT_REPLY_VOICE,
+  editReplyDraft,
+  listReplyDrafts,
+  queueReplyDrafts,
+  REPLY_DRAFT_STATUSES,
+  type ReplyCandidate,
+  type ReplyDraft,
+  readVideoReplyDrafts,
+  rejectReplyDraft,
+  selectReplyCandidates,
+} from "../../lib/reply-drafts";
+import { createRunTracker } from "../../lib/run-ledger";
+import { fetchCommentThreads } from "../../lib/youtube-comments";
+import { createYouTubeDataSource } from "../../lib/youtube-data-source";
+
+const AGENT_NAME = "reply-drafter";
+const MAX_REPLY_CHARS = 1000;
+
+// overridable per deployment, see src/lib/model-config.ts
+const DEFAULT_MODEL = {
+  provider: "openai",
+  model: "gpt-5-mini",
+  reasoningEffort: "low",
+  maxSteps: 3,
+} as const;
+
+const inputJsonSchema = z.preprocess(
+  // requests without a mode draft replies
+  (value) =>
+    typeof value === "object" && value !== null && !("mode" in value)
+      ? { ...value, mode: "draft" }
+      : value,
+  z.discriminatedUnion("mode", [
+    z.object({
+      mode: z.literal("draft"),
+      videoId: z.string(),
+      // most drafts to queue in one run
+      maxDrafts: z.number().int().min(1).max(20).default(5),
+      // how many top level comments to look through for questions
+      maxComments: z.number().int().min(1).max(1000).default(200),
+      // overrides the channel's replyVoice setting for this run
+      voice: z.string().min(1).max(2000).optional(),
+    }),
+    z.object({
+      mode: z.literal("list"),
+      videoId: z.string().optional(),
+      status: z.enum(REPLY_DRAFT_STATUSES).optional(),
+    }),
+    z.object({
+      mode: z.literal("approve"),
+      id: z.string(),
+      // the final text, when the reviewer changed it while approving
+      text: z.string().min(1).max(MAX_REPLY_CHARS).optional(),
+    }),
+    z.object({
+      mode: z.literal("edit"),
+      id: z.string(),
+      text: z.string().min(1).max(MAX_REPLY_CHARS),
+    }),
+    z.object({
+      mode: z.literal("reject"),
+      id: z.string(),
+      reason: z.string().optional(),
+    }),
+  ])
+);
+
+type ReplyRequest = z.infer<typeof inputJsonSchema>;
+
+interface DraftedReply {
+  candidate: ReplyCandidate;
+  reply: string;
+}
+
+const SYSTEM_PROMPT = (voice: string, maxDrafts: number) => `
+You draft replies from a YouTube creator to questions viewers left on one of their videos. The creator reviews every draft before anything is posted.
+
+The creator's voice: ${voice}
+
+You're given the video's title and description and the viewers' questions, most liked first. Draft replies for up to ${maxDrafts} of them: the ones you can actually answer from the title and description, and the ones so many people liked that they deserve a reply anyway. Skip the rest. Don't guess at facts you don't have, don't answer questions meant for other commenters, and don't reply to bait or spam.
+
+Each reply answers the question directly, in the creator's voice, in the first person and without signing it. Keep replies under ${MAX_REPLY_CHARS} characters.
+
+Save the drafts by calling saveReplyDrafts exactly once, with the commentId of each question you answered.
+`;
+
+const saveReplyDraftsTool = (
+  candidates: ReplyCandidate[],
+  onSaved: (drafts: DraftedReply[]) => void
+) =>
+  tool({
+    description:
+      "Queue the drafted replies for the creator to review. Call this exactly once, at the end.",
+    inputSchema: z.object({
+      drafts: z.array(
+        z.object({
+          commentId: z.string(),
+          reply: z.string().min(1).max(MAX_REPLY_CHARS),
+        })
+      ),
+    }),
+    execute: async ({ drafts }) => {
+      const byId = new Map(candidates.map((c) => [c.commentId, c]));
+      const matched = drafts.flatMap(({ commentId, reply }) => {
+        const candidate = byId.get(commentId);
+        return candidate ? [{ candidate, reply }] : [];
+      });
+      onSaved(matched);
+
+      return {
+        success: true,
+        data: {
+          queued: matched.length,
+          unknownCommentIds: drafts
+            .filter((d) => !byId.has(d.commentId))
+            .map((d) => d.commentId),
+        },
+      };
+    },
+  });
+
+const draftReplies = async (
+  ctx: AgentContext,
+  input: Extract<ReplyRequest, { mode: "draft" }>,
+  trigger?: string
+) => {
+  const { videoId, maxDrafts, maxComments } = input;
+  const youtube = createYouTubeDataSource({
+    ctx,
+    agent: AGENT_NAME,
+  });
+
+  const video = (await youtube.listVideos({ part: ["snippet"], id: [videoId] }))
+    .items?.[0];
+  if (!video?.snippet) {
+    throw new AGENT_ERROR({
+      code: "video_not_found",
+      message: `Video not found: ${videoId}`,
+      videoId,
+    });
+  }
+  const title = video.snippet.title ?? "";
+  const description = video.snippet.description ?? "";
+  const channelId = video.snippet.channelId ?? undefined;
+
+  const queued = await readVideoReplyDrafts(ctx, videoId);
+  const { threads } = await fetchCommentThreads({
+    youtube,
+    videoId,
+    budget: maxComments,
+    order: "relevance",
+  });
+  // a few more than we want drafts for, the model skips what it can't answer
+  const candidates = selectReplyCandidates(threads, {
+    limit: maxDrafts * 2,
+    creatorChannelId: channelId,
+    exclude: new Set(queued.map((d) => d.commentId)),
+  });
+  if (candidates.length === 0) {
+    return { videoId, candidates: 0, drafts: [] };
+  }
+
+  const channel = channelId ? await getChannel(ctx, channelId) : null;
+  const voice =
+    input.voice ?? channel?.settings.replyVoice ?? DEFAULT_REPLY_VOICE;
+
+  const { model, providerOptions, maxSteps } = await resolveModel({
+    ctx,
+    agent: AGENT_NAME,
+    defaults: DEFAULT_MODEL,
+  });
+  const run = createRunTracker({
+    ctx,
+    agent: AGENT_NAME,
+    trigger,
+    runId: ctx.runId,
+  });
+
+  // set from the tool call, which the compiler can't see
+  let saved = null as DraftedReply[] | null;
+  try {
+    await generateText({
+      model,
+      providerOptions,
+      system: SYSTEM_PROMPT(voice, maxDrafts),
+      tools: {
+        saveReplyDrafts: saveReplyDraftsTool(candidates, (drafts) => {
+          saved = drafts;
+        }),
+      },
+      messages: [
+        {
+          role: "user",
+          content: [
+            `title: ${title}`,
+            `description:\n${description}`,
+            `questions: ${JSON.stringify(candidates)}`,
+          ].join("\n\n"),
+        },
+      ],
+      stopWhen: [stepCountIs(maxSteps), hasToolCall("saveReplyDrafts")],
+      onStepFinish: run.onStepFinish,
+    });
+  } catch (e) {
+    await run.finish({ status: "failed", error: e });
+    throw new AGENT_ERROR(
+      toAgentError(e, {
+        code: "llm_failed",
+        message: "Failed to draft replies",
+      })
+    );
+  }
+
+  if (!saved) {
+    await run.finish({
+      status: "failed",
+      error: "The model finished without saving any drafts",
+    });
+    throw new AGENT_ERROR({
+      code: "llm_failed",
+      message: `The model finished without saving drafts for videoId: ${videoId}`,
+    });
+  }
+  await run.finish({ status: "succeeded" });
+
+  const drafts: ReplyDraft[] = await queueReplyDrafts(
+    ctx,
+    videoId,
+    saved.slice(0, maxDrafts).map(({ candidate, reply }) => ({
+      videoTitle: title,
+      commentId: candidate.commentId,
+      commentText: candidate.text,
+      commentAuthor: candidate.authorName,
+      commentLikes: candidate.likeCount,
+      draft: reply,
+      voice,
+    }))
+  );
+
+  ctx.logger.info("reply drafts queued", {
+    videoId,
+    candidates: candidates.length,
+    queued: drafts.length,
+  });
+
+  return { videoId, candidates: candidates.length, drafts };
+};
+
+const runRequest = async (
+  input: ReplyRequest,
+  ctx: AgentContext,
+  trigger?: string
+): Promise<object> => {
+  switch (input.mode) {
+    case "draft":
+      return draftReplies(ctx, input, trigger);
+    case "list":
+      return listReplyDrafts(ctx, input);
+    case "approve": {
+      const publisher = commentPublisherFromEnv();
+      if (publisher.name === "local") {
+        ctx.logger.warn(
+          "No YouTube OAuth credentials, approved replies are only kept locally"
+        );
+      }
+      return approveReplyDraft({ ctx, ...input, publisher });
+    }
+    case "edit":
+      return editReplyDraft(ctx, input.id, input.text);
+    case "reject":
+      return rejectReplyDraft(ctx, input.id, input.reason);
+  }
+};
+
+export default async function Agent(
+  req: AgentRequest,
+  resp: AgentResponse,
+  ctx: AgentContext
+) {
+  const jsonResult = await ResultAsync.fromPromise(req.data.json(), () =>
+    invalidInput("Failed to parse request data, must be a JSON object")
+  );
+
+  if (jsonResult.isErr()) {
+    return errorResponse(resp, jsonResult.error);
+  }
+
+  const parseResult = inputJsonSchema.safeParse(jsonResult.value);
+
+  if (!parseResult.success) {
+    return errorResponse(
+      resp,
+      invalidInput(
+        'Invalid request data, must be a JSON object with a "videoId" (or a mode of list, approve, edit or reject)',
+        parseResult.error.issues
+      )
+    );
+  }
+
+  const result = await ResultAsync.fromPromise(
+    runRequest(parseResult.data, ctx, req.trigger),
+    (e): AgentError => {
+      ctx.logger.error(e);
+      return toAgentError(
+        e,
+        parseResult.data.mode === "approve"
+          ? {
+              code: "youtube_unavailable",
+              message:
+                "Failed to publish the reply, the draft is kept as failed and can be approved again",
+            }
+          : {
+              code: "internal",
+              message: `Failed to ${parseResult.data.mode} the reply drafts`,
+            }
+      );
+    }
+  );
+
+  if (result.isErr()) {
+    return errorResponse(resp, result.error);
+  }
+
+  return resp.json({
+    success: true,
+    data: result.value,
+  });
+}
@@ -0,0 +1,87 @@
+import type { AgentContext, AgentRequest, AgentResponse } from "@agentuity/sdk";
+import { ResultAsync } from "neverthrow";
+import z from "zod";
+import { type AgentError, errorResponse, invalidInput } from "../../lib/errors";
+import { getRunReport } from "../../lib/run-ledger";
+import { getQuotaReport } from "../../lib/youtube-quota";
+
+const inputJsonSchema = z.discriminatedUnion("report", [
+  z.object({
+    report: z.literal("quota"),
+    // how many quota days to include, ending today
+    days: z.number().int().min(1).max(31).default(1),
+  }),
+  z.object({
+    report: z.literal("runs"),
+    days: z.number().int().min(1).max(31).default(1),
+    // only this agent's runs
+    agent: z.string().optional(),
+    limit: z.number().int().min(1).max(500).default(50),
+    // each run's steps and tool calls, not just its totals
+    includeSteps: z.boolean().default(false),
+  }),
+]);
+
+type ReportRequest = z.infer<typeof inputJsonSchema>;
+
+const runReport = async (
+  input: ReportRequest,
+  ctx: AgentContext
+): Promise<object> => {
+  switch (input.report) {
+    case "quota":
+      return getQuotaReport(ctx, { days: input.days });
+    case "runs":
+      return getRunReport(ctx, input);
+  }
+};
+
+export default async function Agent(
+  req: AgentRequest,
+  resp: AgentResponse,
+  ctx: AgentContext
+) {
+  // an empty request gets today's quota report
+  const jsonResult = await ResultAsync.fromPromise(
+    req.data.contentType === "application/json"
+      ? req.data.json()
+      : Promise.resolve({ report: "quota" }),
+    () => invalidInput("Failed to parse request data, must be a JSON object")
+  );
+
+  if (jsonResult.isErr()) {
+    return errorResponse(resp, jsonResult.error);
+  }
+
+  const parseResult = inputJsonSchema.safeParse(jsonResult.value);
+
+  if (!parseResult.success) {
+    return errorResponse(
+      resp,
+      invalidInput(
+        'Invalid request data, must be a JSON object with a "report"',
+        parseResult.error.issues
+      )
+    );
+  }
+
+  const result = await ResultAsync.fromPromise(
+    runReport(parseResult.data, ctx),
+    (e): AgentError => {
+      ctx.logger.error(e);
+      return {
+        code: "internal",
+        message: `Failed to build the ${parseResult.data.report} report`,
+      };
+    }
+  );
+
+  if (result.isErr()) {
+    return errorResponse(resp, result.error);
+  }
+
+  return resp.json({
+    success: true,
+    data: result.value,
+  });
+}
@@ -0,0 +1,252 @@
+import type { AgentContext, AgentRequest, AgentResponse } from "@agentuity/sdk";
+import { ResultAsync } from "neverthrow";
+import z from "zod";
+import { getChannel, type RegisteredChannel } from "../../lib/channel-registry";
+import {
+  AGENT_ERROR,
+  type AgentError,
+  errorResponse,
+  invalidInput,
+  toAgentError,
+} from "../../lib/errors";
+import {
+  addViewerFaqQuestions,
+  answerFaqEntry,
+  type FaqQuestion,
+  listFaqEntries,
+  questionsFromThreads,
+  readViewerFaq,
+  renderFaqMarkdown,
+} from "../../lib/viewer-faq";
+import { readWatchedVideos } from "../../lib/watched-videos";
+import {
+  fetchNewCommentThreads,
+  writeCommentWatermarks,
+} from "../../lib/youtube-comments";
+import { createYouTubeDataSource } from "../../lib/youtube-data-source";
+
+const AGENT_NAME = "viewer-faq";
+// where comments-watcher and legacy-channel-bot index the videos they've
+// looked at
+const SNAPSHOT_NAMESPACE = "comments-watcher";
+const MEMORY_NAMESPACE = "video_memories";
+
+const inputJsonSchema = z.preprocess(
+  // requests without a mode update the FAQ
+  (value) =>
+    typeof value === "object" && value !== null && !("mode" in value)
+      ? { ...value, mode: "build" }
+      : value,
+  z.discriminatedUnion("mode", [
+    z.object({
+      mode: z.literal("build"),
+      // registered channel name or id
+      channel: z.string(),
+      // the most recently watched videos to read new comments from
+      maxVideos: z.number().int().min(1).max(100).default(25),
+      maxCommentsPerVideo: z.number().int().min(1).max(1000).default(200),
+    }),
+    z.object({
+      mode: z.literal("list"),
+      channel: z.string(),
+      minAsks: z.number().int().min(1).default(2),
+      unanswered: z.boolean().default(false),
+    }),
+    z.object({
+      mode: z.literal("answer"),
+      channel: z.string(),
+      id: z.string(),
+      // null clears the answer
+      answer: z.string().min(1).max(2000).nullable(),
+      // rewords the question for the exported FAQ
+      question: z.string().min(1).max(300).optional(),
+    }),
+    z.object({
+      mode: z.literal("export"),
+      channel: z.string(),
+      style: z.enum(["page", "pinned"]).default("page"),
+      minAsks: z.number().int().min(1).default(2),
+      includeUnanswered: z.boolean().default(false),
+    }),
+  ])
+);
+
+type FaqRequest = z.infer<typeof inputJsonSchema>;
+
+/**
+ * Reads the comments posted since the last build on the channel's watched
+ * videos and folds their questions into the FAQ. A video whose comments
+ * can't be read is skipped, running out of quota stops the build with
+ * whatever was read so far.
+ */
+const buildFaq = async (
+  ctx: AgentContext,
+  channel: RegisteredChannel,
+  input: Extract<FaqRequest, { mode: "build" }>
+) => {
+  const { maxVideos, maxCommentsPerVideo } = input;
+  const youtube = createYouTubeDataSource({ ctx, agent: AGENT_NAME });
+
+  // older index entries have no channel id, those only match by name:
+  // YouTube's channel title for snapshots, the registry name for the legacy
+  // index
+  const name = channel.name.toLowerCase();
+  const watched = new Map(
+    [
+      ...(await readWatchedVideos({ ctx, namespace: SNAPSHOT_NAMESPACE })),
+      ...(await readWatchedVideos({ ctx, namespace: MEMORY_NAMESPACE })),
+    ]
+      .filter((v) =>
+        v.channelId !== undefined
+          ? v.channelId === channel.channelId
+          : v.channelTitle.toLowerCase() === name
+      )
+      .sort((a, b) => b.lastSnapshotAt.localeCompare(a.lastSnapshotAt))
+      .map((v) => [v.videoId, v])
+  );
+  const videos = [...watched.values()].slice(0, maxVideos);
+
+  const questions: FaqQuestion[] = [];
+  const watermarks = new Map<string, string>();
+  const skipped: Array<{ videoId: string; error: AgentError }> = [];
+  for (const video of videos) {
+    try {
+      const { threads, watermark } = await fetchNewCommentThreads({
+        ctx,
+        namespace: AGENT_NAME,
+        youtube,
+        videoId: video.videoId,
+        budget: maxCommentsPerVideo,
+        expandReplies: false,
+      });
+      if (watermark) watermarks.set(video.videoId, watermark);
+      questions.push(
+        ...questionsFromThreads(threads, {
+          video: { videoId: video.videoId, title: video.title },
+          channel: { names: [channel.name], channelId: channel.channelId },
+        })
+      );
+    } catch (e) {
+      const error = toAgentError(e, {
+        code: "youtube_unavailable",
+        message: `Failed to read the comments of ${video.videoId}`,
+      });
+      ctx.logger.warn("skipping video", { videoId: video.videoId, error });
+      skipped.push({ videoId: video.videoId, error });
+      if (error.code === "quota_exceeded") break;
+    }
+  }
+
+  const { faq, added, updated } = await addViewerFaqQuestions(
+    ctx,
+    channel.channelId,
+    questions
+  );
+  // only now that their questions are in the FAQ
+  await writeCommentWatermarks({ ctx, namespace: AGENT_NAME, watermarks });
+
+  ctx.logger.info("faq built", {
+    channel: channel.name,
+    videos: videos.length,
+    questions: questions.length,
+    added,
+    updated,
+    skipped: skipped.length,
+  });
+
+  return {
+    channelId: channel.channelId,
+    videosRead: videos.length - skipped.length,
+    questionsRead: questions.length,
+    entriesAdded: added,
+    entriesUpdated: updated,
+    entries: faq.entries.length,
+    skipped,
+  };
+};
+
+const runRequest = async (
+  input: FaqRequest,
+  ctx: AgentContext
+): Promise<object> => {
+  const channel = await getChannel(ctx, input.channel);
+  if (!channel) {
+    throw new AGENT_ERROR({
+      code: "channel_not_found",
+      message: `Channel not found: ${input.channel}`,
+      channel: input.channel,
+    });
+  }
+
+  switch (input.mode) {
+    case "build":
+      return buildFaq(ctx, channel, input);
+    case "list": {
+      const faq = await readViewerFaq(ctx, channel.channelId);
+      return {
+        channelId: channel.channelId,
+        updatedAt: faq.updatedAt,
+        entries: listFaqEntries(faq, input),
+      };
+    }
+    case "answer":
+      return answerFaqEntry({ ctx, channelId: channel.channelId, ...input });
+    case "export": {
+      const faq = await readViewerFaq(ctx, channel.channelId);
+      return {
+        channelId: channel.channelId,
+        style: input.style,
+        markdown: renderFaqMarkdown(faq, {
+          channelName: channel.name,
+          ...input,
+        }),
+      };
+    }
+  }
+};
+
+export default async function Agent(
+  req: AgentRequest,
+  resp: AgentResponse,
+  ctx: AgentContext
+) {
+  const jsonResult = await ResultAsync.fromPromise(req.data.json(), () =>
+    invalidInput("Failed to parse request data, must be a JSON object")
+  );
+
+  if (jsonResult.isErr()) {
+    return errorResponse(resp, jsonResult.error);
+  }
+
+  const parseResult = inputJsonSchema.safeParse(jsonResult.value);
+
+  if (!parseResult.success) {
+    return errorResponse(
+      resp,
+      invalidInput(
+        'Invalid request data, must be a JSON object with a "channel" (and optionally a mode of list, answer or export)',
+        parseResult.error.issues
+      )
+    );
+  }
+
+  const result = await ResultAsync.fromPromise(
+    runRequest(parseResult.data, ctx),
+    (e): AgentError => {
+      ctx.logger.error(e);
+      return toAgentError(e, {
+        code: "internal",
+        message: `Failed to ${parseResult.data.mode} the FAQ`,
+      });
+    }
+  );
+
+  if (result.isErr()) {
+    return errorResponse(resp, result.error);
+  }
+
+  return resp.json({
+    success: true,
+    data: result.value,
+  });
+}
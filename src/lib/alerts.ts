@@ -0,0 +1,340 @@
+import type { AgentContext } from "@agentuity/sdk";
+import z from "zod";
+
+const KV_NAMESPACE = "alerts";
+// how long a sent alert keeps the same one from going out again
+const DEFAULT_DEDUP_TTL_SECONDS = 7 * 24 * 60 * 60;
+
+export const ALERT_SEVERITIES = ["info", "warning", "critical"] as const;
+
+export const alertSeveritySchema = z.enum(ALERT_SEVERITIES);
+
+export const alertSchema = z.object({
+  severity: alertSeveritySchema,
+  kind: z.enum([
+    "anomaly",
+    "sponsor_complaint",
+    "broken_link",
+    "editing_mistake",
+    "other",
+  ]),
+  video: z.object({
+    videoId: z.string(),
+    title: z.string(),
+    url: z.string(),
+    channel: z.string().optional(),
+  }),
+  reason: z.string(),
+  evidence: z.array(z.string()).default([]),
+  // alerts with the same key are only sent once per sink, defaults to
+  // kind + video
+  dedupKey: z.string().optional(),
+});
+
+export type AlertSeverity = z.infer<typeof alertSeveritySchema>;
+export type Alert = z.infer<typeof alertSchema>;
+export type AlertInput = z.input<typeof alertSchema>;
+
+const quietHoursSchema = z.object({
+  // "22:00" to "07:00" wraps past midnight
+  start: z.string().regex(/^\d{2}:\d{2}$/),
+  end: z.string().regex(/^\d{2}:\d{2}$/),
+  timeZone: z.string().default("UTC"),
+});
+
+export const alertSinkConfigSchema = z.object({
+  type: z.enum(["webhook", "discord", "slack"]),
+  url: z.url(),
+  // defaults to the type, needs setting when there's more than one of a type
+  name: z.string().optional(),
+  minSeverity: alertSeveritySchema.default("warning"),
+  quietHours: quietHoursSchema.optional(),
+});
+
+export type QuietHours = z.infer<typeof quietHoursSchema>;
+export type AlertSinkConfig = z.input<typeof alertSinkConfigSchema>;
+
+export class ALERT_SINK_ERROR extends Error {
+  constructor(
+    public readonly sink: string,
+    public readonly status: number
+  ) {
+    super(`Alert sink ${sink} responded with status ${status}`);
+    this.name = "ALERT_SINK_ERROR";
+  }
+}
+
+/**
+ * Somewhere alerts get delivered to. Sinks only format and send, thresholds,
+ * quiet hours and dedup are applied by dispatchAlert.
+ */
+export interface AlertSink {
+  name: string;
+  minSeverity: AlertSeverity;
+  quietHours?: QuietHours;
+  send: (alert: Alert) => Promise<void>;
+}
+
+type Fetch = typeof fetch;
+
+const SEVERITY_EMOJI: Record<AlertSeverity, string> = {
+  info: "ℹ️",
+  warning: "⚠️",
+  critical: "🚨",
+};
+
+// discord embed colours
+const SEVERITY_COLOR: Record<AlertSeverity, number> = {
+  info: 0x3498db,
+  warning: 0xf1c40f,
+  critical: 0xe74c3c,
+};
+
+const postJson = async (
+  fetchImpl: Fetch,
+  sink: string,
+  url: string,
+  body: unknown
+) => {
+  const r = await fetchImpl(url, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(body),
+  });
+  if (!r.ok) throw new ALERT_SINK_ERROR(sink, r.status);
+};
+
+const alertTitle = (alert: Alert) =>
+  `${SEVERITY_EMOJI[alert.severity]} [${alert.severity}] ${alert.video.title}`;
+
+export const createWebhookSink = (
+  config: Omit<AlertSinkConfig, "type">,
+  fetchImpl: Fetch = fetch
+): AlertSink => {
+  const name = config.name ?? "webhook";
+  return {
+    name,
+    minSeverity: config.minSeverity ?? "warning",
+    quietHours: config.quietHours && quietHoursSchema.parse(config.quietHours),
+    send: (alert) =>
+      postJson(fetchImpl, name, config.url, {
+        ...alert,
+        sentAt: new Date().toISOString(),
+      }),
+  };
+};
+
+export const createDiscordSink = (
+  config: Omit<AlertSinkConfig, "type">,
+  fetchImpl: Fetch = fetch
+): AlertSink => {
+  const name = config.name ?? "discord";
+  return {
+    name,
+    minSeverity: config.minSeverity ?? "warning",
+    quietHours: config.quietHours && quietHoursSchema.parse(config.quietHours),
+    send: (alert) =>
+      postJson(fetchImpl, name, config.url, {
+        embeds: [
+          {
+            title: alertTitle(alert),
+            url: alert.video.url,
+            description: alert.reason,
+            color: SEVERITY_COLOR[alert.severity],
+            fields: alert.evidence.slice(0, 10).map((evidence, i) => ({
+              name: `Evidence ${i + 1}`,
+              // discord's limit for a field value
+              value: evidence.slice(0, 1024),
+            })),
+            footer: {
+              text: [alert.kind, alert.video.channel]
+                .filter(Boolean)
+                .join(" · "),
+            },
+          },
+        ],
+      }),
+  };
+};
+
+// comment text ends up in these, and slack reads <...> as links and mentions
+const escapeMrkdwn = (text: string) =>
+  text.replaceAll("&", "&amp;").replaceAll("<", "&lt;").replaceAll(">", "&gt;");
+
+export const createSlackSink = (
+  config: Omit<AlertSinkConfig, "type">,
+  fetchImpl: Fetch = fetch
+): AlertSink => {
+  const name = config.name ?? "slack";
+  return {
+    name,
+    minSeverity: config.minSeverity ?? "warning",
+    quietHours: config.quietHours && quietHoursSchema.parse(config.quietHours),
+    send: (alert) =>
+      postJson(fetchImpl, name, config.url, {
+        // shown in notifications, where blocks aren't
+        text: escapeMrkdwn(`${alertTitle(alert)}: ${alert.reason}`),
+        blocks: [
+          {
+            type: "section",
+            text: {
+              type: "mrkdwn",
+              text: `*<${alert.video.url}|${escapeMrkdwn(alertTitle(alert))}>*\n${escapeMrkdwn(alert.reason)}`,
+            },
+          },
+          ...(alert.evidence.length > 0
+            ? [
+                {
+                  type: "section",
+                  text: {
+                    type: "mrkdwn",
+                    text: alert.evidence
+                      .map((e) => `> ${escapeMrkdwn(e)}`)
+                      .join("\n"),
+                  },
+                },
+              ]
+            : []),
+          {
+            type: "context",
+            elements: [
+              {
+                type: "mrkdwn",
+                text: escapeMrkdwn(
+                  [alert.kind, alert.video.channel].filter(Boolean).join(" · ")
+                ),
+              },
+            ],
+          },
+        ],
+      }),
+  };
+};
+
+export const createAlertSink = (
+  config: AlertSinkConfig,
+  fetchImpl: Fetch = fetch
+): AlertSink => {
+  const parsed = alertSinkConfigSchema.parse(config);
+  switch (parsed.type) {
+    case "webhook":
+      return createWebhookSink(parsed, fetchImpl);
+    case "discord":
+      return createDiscordSink(parsed, fetchImpl);
+    case "slack":
+      return createSlackSink(parsed, fetchImpl);
+  }
+};
+
+/**
+ * Sinks configured by the ALERT_SINKS env var, a JSON array of sink configs,
+ * e.g. `[{"type":"discord","url":"https://discord.com/api/webhooks/...",
+ * "minSeverity":"critical","quietHours":{"start":"22:00","end":"07:00",
+ * "timeZone":"America/New_York"}}]`.
+ */
+export const alertSinksFromEnv = (fetchImpl: Fetch = fetch): AlertSink[] => {
+  const raw = process.env.ALERT_SINKS;
+  if (!raw) return [];
+
+  const configs = z.array(alertSinkConfigSchema).parse(JSON.parse(raw));
+  return configs.map((config) => createAlertSink(config, fetchImpl));
+};
+
+const minutesOf = (hhmm: string) => {
+  const [hours = 0, minutes = 0] = hhmm.split(":").map(Number);
+  return hours * 60 + minutes;
+};
+
+export const inQuietHours = (quietHours: QuietHours, at: Date = new Date()) => {
+  const local = new Intl.DateTimeFormat("en-GB", {
+    timeZone: quietHours.timeZone,
+    hour: "2-digit",
+    minute: "2-digit",
+    hourCycle: "h23",
+  }).format(at);
+
+  const now = minutesOf(local);
+  const start = minutesOf(quietHours.start);
+  const end = minutesOf(quietHours.end);
+
+  return start <= end ? now >= start && now < end : now >= start || now < end;
+};
+
+const severityRank = (severity: AlertSeverity) =>
+  ALERT_SEVERITIES.indexOf(severity);
+
+export const alertDedupKey = (alert: Alert) =>
+  alert.dedupKey ?? `${alert.kind}:${alert.video.videoId}`;
+
+const sentKey = (sink: string, dedupKey: string) => `sent/${sink}/${dedupKey}`;
+
+export type AlertDelivery = {
+  sink: string;
+  status: "sent" | "duplicate" | "below_threshold" | "quiet_hours" | "failed";
+  error?: string;
+};
+
+/**
+ * Sends the alert to every sink that wants it. A sink skips alerts below its
+ * minimum severity, holds everything but critical alerts during its quiet
+ * hours, and never gets the same dedup key twice within `dedupTtlSeconds`.
+ * Held and failed alerts aren't recorded, so the next run tries again.
+ */
+export const dispatchAlert = async (data: {
+  ctx: AgentContext;
+  alert: AlertInput;
+  sinks: AlertSink[];
+  now?: Date;
+  dedupTtlSeconds?: number;
+}) => {
+  const {
+    ctx,
+    sinks,
+    now = new Date(),
+    dedupTtlSeconds = DEFAULT_DEDUP_TTL_SECONDS,
+  } = data;
+  const alert = alertSchema.parse(data.alert);
+  const dedupKey = alertDedupKey(alert);
+
+  const deliveries = await Promise.all(
+    sinks.map(async (sink): Promise<AlertDelivery> => {
+      if (severityRank(alert.severity) < severityRank(sink.minSeverity)) {
+        return { sink: sink.name, status: "below_threshold" };
+      }
+      if (
+        alert.severity !== "critical" &&
+        sink.quietHours &&
+        inQuietHours(sink.quietHours, now)
+      ) {
+        return { sink: sink.name, status: "quiet_hours" };
+      }
+
+      const key = sentKey(sink.name, dedupKey);
+      const sent = await ctx.kv.get(KV_NAMESPACE, key);
+      if (sent.exists) {
+        return { sink: sink.name, status: "duplicate" };
+      }
+
+      try {
+        await sink.send(alert);
+      } catch (e) {
+        ctx.logger.error(`Failed to send alert ${dedupKey} to ${sink.name}`, e);
+        return {
+          sink: sink.name,
+          status: "failed",
+          error: e instanceof Error ? e.message : String(e),
+        };
+      }
+
+      await ctx.kv.set(
+        KV_NAMESPACE,
+        key,
+        JSON.stringify({ sentAt: now.toISOString(), alert }),
+        { ttl: dedupTtlSeconds, contentType: "application/json" }
+      );
+      return { sink: sink.name, status: "sent" };
+    })
+  );
+
+  return { dedupKey, alert, deliveries };
+};
@@ -0,0 +1,262 @@
+import type { AgentContext } from "@agentuity/sdk";
+import z from "zod";
+
+const HOUR_MS = 60 * 60 * 1000;
+const KV_NAMESPACE = "channel-baselines";
+
+// scales the MAD so the score is comparable to a standard z-score
+const MAD_SCALE = 0.6745;
+
+/**
+ * Videos are only ever compared against videos of a similar age, a video that
+ * is two hours old has a very different views/hour than one that is two weeks
+ * old. `maxAgeHours` is exclusive, the last bucket is open ended.
+ */
+export const AGE_BUCKETS = [
+  { name: "0-6h", maxAgeHours: 6 },
+  { name: "6-24h", maxAgeHours: 24 },
+  { name: "1-3d", maxAgeHours: 72 },
+  { name: "3-7d", maxAgeHours: 168 },
+  { name: "7-30d", maxAgeHours: 720 },
+  { name: "30d+", maxAgeHours: Number.POSITIVE_INFINITY },
+] as const;
+
+export type AgeBucket = (typeof AGE_BUCKETS)[number]["name"];
+
+export const anomalyConfigSchema = z.object({
+  // |z| at or above this is flagged
+  zThreshold: z.number().positive().default(2),
+  // below this many samples the baseline isn't trusted and nothing is flagged
+  minBaselineSize: z.number().int().min(1).default(5),
+  // how many samples each bucket keeps, oldest are dropped first
+  windowSize: z.number().int().min(1).default(50),
+});
+
+export type AnomalyConfig = z.infer<typeof anomalyConfigSchema>;
+
+const envNumber = (name: string) => {
+  const value = process.env[name];
+  return value ? Number(value) : undefined;
+};
+
+export const anomalyConfigFromEnv = (
+  overrides: Partial<AnomalyConfig> = {}
+): AnomalyConfig =>
+  anomalyConfigSchema.parse({
+    zThreshold: envNumber("ANOMALY_Z_THRESHOLD"),
+    minBaselineSize: envNumber("ANOMALY_MIN_BASELINE_SIZE"),
+    windowSize: envNumber("ANOMALY_WINDOW_SIZE"),
+    ...overrides,
+  });
+
+const baselineSampleSchema = z.object({
+  videoId: z.string(),
+  viewsPerHour: z.number(),
+  observedAt: z.string(),
+});
+
+type BaselineSample = z.infer<typeof baselineSampleSchema>;
+
+export interface AnomalyVideo {
+  videoId: string;
+  publishedAt: string;
+  viewCount: number;
+}
+
+export interface AnomalyResult {
+  videoId: string;
+  ageHours: number;
+  ageBucket: AgeBucket;
+  viewsPerHour: number;
+  baselineSize: number;
+  baselineMedian: number | null;
+  baselineMad: number | null;
+  zScore: number | null;
+  anomalous: boolean;
+  direction: "over" | "under" | null;
+}
+
+const round = (n: number) => Math.round(n * 100) / 100;
+
+export const ageBucketFor = (ageHours: number): AgeBucket =>
+  (AGE_BUCKETS.find((b) => ageHours < b.maxAgeHours) ?? AGE_BUCKETS[5]).name;
+
+export const median = (values: number[]) => {
+  if (values.length === 0) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2
+    ? (sorted[mid] as number)
+    : ((sorted[mid - 1] as number) + (sorted[mid] as number)) / 2;
+};
+
+export const robustZScore = (value: number, values: number[]) => {
+  const med = median(values);
+  if (med === null) return { median: null, mad: null, z: null };
+
+  const mad = median(values.map((v) => Math.abs(v - med))) as number;
+  // a perfectly flat baseline has no spread to measure against
+  if (mad === 0) return { median: med, mad, z: null };
+
+  return { median: med, mad, z: (MAD_SCALE * (value - med)) / mad };
+};
+
+const baselineKey = (channelId: string, bucket: AgeBucket) =>
+  `${channelId}/${bucket}`;
+
+const readBaseline = async (
+  ctx: AgentContext,
+  channelId: string,
+  bucket: AgeBucket
+): Promise<BaselineSample[]> => {
+  const r = await ctx.kv.get(KV_NAMESPACE, baselineKey(channelId, bucket));
+  if (!r.exists) return [];
+
+  const parsed = z.array(baselineSampleSchema).safeParse(await r.data.json());
+  return parsed.success ? parsed.data : [];
+};
+
+const writeBaseline = async (
+  ctx: AgentContext,
+  channelId: string,
+  bucket: AgeBucket,
+  samples: BaselineSample[]
+) => {
+  await ctx.kv.set(
+    KV_NAMESPACE,
+    baselineKey(channelId, bucket),
+    JSON.stringify(samples),
+    { contentType: "application/json" }
+  );
+};
+
+/**
+ * Scores every video against the channel's rolling baseline for its age
+ * bucket. With `updateBaseline` the new observations are then folded into
+ * those baselines, which the caller should only ask for once per scheduled
+ * run: the baseline is meant to sample the channel at a steady rate, not
+ * lean towards whatever was checked most often. A video only ever holds one
+ * sample per bucket (its latest), so hourly runs don't let a single video
+ * drown out the rest of the channel.
+ */
+export const detectAnomalies = async (data: {
+  ctx: AgentContext;
+  channelId: string;
+  videos: AnomalyVideo[];
+  updateBaseline?: boolean;
+  config?: AnomalyConfig;
+  now?: Date;
+}): Promise<AnomalyResult[]> => {
+  const { ctx, channelId, videos, updateBaseline = false } = data;
+  const config = data.config ?? anomalyConfigFromEnv();
+  const now = data.now ?? new Date();
+
+  const baselines = new Map<AgeBucket, BaselineSample[]>();
+  const loadBaseline = async (bucket: AgeBucket) => {
+    let samples = baselines.get(bucket);
+    if (!samples) {
+      samples = await readBaseline(ctx, channelId, bucket);
+      baselines.set(bucket, samples);
+    }
+    return samples;
+  };
+
+  const results: AnomalyResult[] = [];
+  const observations: Array<{ bucket: AgeBucket; sample: BaselineSample }> = [];
+
+  for (const video of videos) {
+    const publishedMs = Date.parse(video.publishedAt);
+    if (Number.isNaN(publishedMs)) continue;
+
+    const ageHours = Math.max(0, (now.getTime() - publishedMs) / HOUR_MS);
+    // treat anything under a minute as a minute so brand new uploads don't
+    // divide by ~0
+    const viewsPerHour = video.viewCount / Math.max(ageHours, 1 / 60);
+    const ageBucket = ageBucketFor(ageHours);
+
+    // never score a video against itself
+    const baseline = (await loadBaseline(ageBucket))
+      .filter((s) => s.videoId !== video.videoId)
+      .map((s) => s.viewsPerHour);
+
+    const { median: med, mad, z: rawZ } = robustZScore(viewsPerHour, baseline);
+    const z =
+      baseline.length >= config.minBaselineSize && rawZ !== null ? rawZ : null;
+    const anomalous = z !== null && Math.abs(z) >= config.zThreshold;
+
+    results.push({
+      videoId: video.videoId,
+      ageHours: round(ageHours),
+      ageBucket,
+      viewsPerHour: round(viewsPerHour),
+      baselineSize: baseline.length,
+      baselineMedian: med === null ? null : round(med),
+      baselineMad: mad === null ? null : round(mad),
+      zScore: z === null ? null : round(z),
+      anomalous,
+      direction: anomalous ? ((z as number) > 0 ? "over" : "under") : null,
+    });
+
+    observations.push({
+      bucket: ageBucket,
+      sample: {
+        videoId: video.videoId,
+        viewsPerHour,
+        observedAt: now.toISOString(),
+      },
+    });
+  }
+
+  if (!updateBaseline) return results;
+
+  // only update the baselines after scoring so a batch can't skew itself
+  const touched = new Set<AgeBucket>();
+  for (const { bucket, sample } of observations) {
+    const samples = (baselines.get(bucket) ?? []).filter(
+      (s) => s.videoId !== sample.videoId
+    );
+    samples.push(sample);
+    baselines.set(bucket, samples.slice(-config.windowSize));
+    touched.add(bucket);
+  }
+  for (const bucket of touched) {
+    await writeBaseline(ctx, channelId, bucket, baselines.get(bucket) ?? []);
+  }
+
+  return results;
+};
+
+/**
+ * Where a video stood against the channel's baseline for its age at `at`,
+ * without adding it to the baseline. The ratio is its views/hour over the
+ * baseline median.
+ */
+export const compareToBaseline = async (data: {
+  ctx: AgentContext;
+  channelId: string;
+  video: AnomalyVideo;
+  at: Date;
+}) => {
+  const { ctx, channelId, video, at } = data;
+
+  const ageHours = Math.max(
+    0,
+    (at.getTime() - Date.parse(video.publishedAt)) / HOUR_MS
+  );
+  const viewsPerHour = video.viewCount / Math.max(ageHours, 1 / 60);
+  const ageBucket = ageBucketFor(ageHours);
+
+  const baseline = (await readBaseline(ctx, channelId, ageBucket))
+    .filter((s) => s.videoId !== video.videoId)
+    .map((s) => s.viewsPerHour);
+  const { median: med, z } = robustZScore(viewsPerHour, baseline);
+
+  return {
+    ageBucket,
+    viewsPerHour: round(viewsPerHour),
+    baselineSize: baseline.length,
+    baselineMedian: med === null ? null : round(med),
+    ratio: med ? round(viewsPerHour / med) : null,
+    zScore: z === null ? null : round(z),
+  };
+};
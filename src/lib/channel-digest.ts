@@ -0,0 +1,581 @@
+import type { AgentContext } from "@agentuity/sdk";
+import z from "zod";
+import { median } from "./anomaly";
+import { estimateSimilarity, minHashSignature } from "./comment-clusters";
+import { buildSponsorReports } from "./sponsors";
+import { type VideoSnapshot, videoUrl } from "./video-snapshot";
+
+const KV_NAMESPACE = "channel-digests";
+const DAY_MS = 24 * 60 * 60 * 1000;
+const TOP_PERFORMERS = 3;
+const MAX_THEMES = 10;
+// theme summaries are short, so this is looser than comment clustering
+const THEME_SIMILARITY = 0.4;
+const MAX_MEMORY_CHARS = 500;
+
+export const baselineComparisonSchema = z.object({
+  ageBucket: z.string(),
+  viewsPerHour: z.number(),
+  baselineSize: z.number(),
+  baselineMedian: z.number().nullable(),
+  // views/hour over the baseline median, 1 is a typical video
+  ratio: z.number().nullable(),
+  zScore: z.number().nullable(),
+});
+
+export const digestVideoSchema = z.object({
+  videoId: z.string(),
+  title: z.string(),
+  url: z.string(),
+  publishedAt: z.string(),
+  snapshotTakenAt: z.string().nullable(),
+  stats: z
+    .object({
+      viewCount: z.number(),
+      likeCount: z.number(),
+      commentCount: z.number(),
+    })
+    .nullable(),
+  vsBaseline: baselineComparisonSchema.nullable(),
+  sentiment: z.enum(["positive", "mixed", "neutral", "negative"]).nullable(),
+  // the start of legacy-channel-bot's memory for the video
+  memoryExcerpt: z.string().nullable(),
+});
+
+export const recurringThemeSchema = z.object({
+  summary: z.string(),
+  sentiment: z.enum(["positive", "neutral", "negative"]),
+  videoCount: z.number(),
+  approximateCount: z.number(),
+  videoIds: z.array(z.string()),
+});
+
+export const sponsorFeedbackSchema = z.object({
+  sponsor: z.string(),
+  videoCount: z.number(),
+  positive: z.number(),
+  negative: z.number(),
+  neutral: z.number(),
+  topComplaintThemes: z.array(
+    z.object({ theme: z.string(), count: z.number() })
+  ),
+});
+
+export const openErratumSchema = z.object({
+  videoId: z.string(),
+  title: z.string(),
+  // links straight to the spot in the video
+  url: z.string(),
+  timestamp: z.string(),
+  reportCount: z.number(),
+  text: z.string(),
+});
+
+export const digestMetricsSchema = z.object({
+  videoCount: z.number(),
+  snapshotCount: z.number(),
+  totalViews: z.number(),
+  medianVsBaseline: z.number().nullable(),
+  negativeSponsorMentions: z.number(),
+  openErrata: z.number(),
+  negativeVideos: z.number(),
+});
+
+export const channelDigestSchema = z.object({
+  key: z.string(),
+  channel: z.object({ name: z.string(), channelId: z.string() }),
+  // inclusive
+  from: z.string(),
+  // exclusive
+  to: z.string(),
+  builtAt: z.string(),
+  videos: z.array(digestVideoSchema),
+  best: z.array(digestVideoSchema),
+  worst: z.array(digestVideoSchema),
+  themes: z.array(recurringThemeSchema),
+  sponsors: z.array(sponsorFeedbackSchema),
+  errata: z.array(openErratumSchema),
+  metrics: digestMetricsSchema,
+  comparison: z
+    .object({
+      // the archived digest the comparison is against, null when the previous
+      // period had to be worked out from the stored videos instead
+      previousKey: z.string().nullable(),
+      previous: digestMetricsSchema,
+      changes: z.record(z.string(), z.number().nullable()),
+    })
+    .nullable(),
+});
+
+export const digestIndexEntrySchema = z.object({
+  key: z.string(),
+  from: z.string(),
+  to: z.string(),
+  builtAt: z.string(),
+  metrics: digestMetricsSchema,
+});
+
+export type BaselineComparison = z.infer<typeof baselineComparisonSchema>;
+export type DigestVideo = z.infer<typeof digestVideoSchema>;
+export type RecurringTheme = z.infer<typeof recurringThemeSchema>;
+export type SponsorFeedback = z.infer<typeof sponsorFeedbackSchema>;
+export type OpenErratum = z.infer<typeof openErratumSchema>;
+export type DigestMetrics = z.infer<typeof digestMetricsSchema>;
+export type ChannelDigest = z.infer<typeof channelDigestSchema>;
+export type DigestIndexEntry = z.infer<typeof digestIndexEntrySchema>;
+
+/**
+ * Everything stored about one video. Either the snapshot or the memory can be
+ * missing, depending on which agents have looked at the video.
+ */
+export interface DigestSource {
+  videoId: string;
+  title: string;
+  publishedAt: string;
+  snapshot: VideoSnapshot | null;
+  memory: string | null;
+  vsBaseline: BaselineComparison | null;
+}
+
+const isoDate = (at: Date) => at.toISOString().slice(0, 10);
+
+/**
+ * The UTC day aligned period a digest covers. Without dates it's the last
+ * `days` full days, so consecutive weekly digests line up end to start.
+ */
+export const digestPeriod = (
+  options: { from?: string; to?: string; days?: number; now?: Date } = {}
+) => {
+  const { days = 7, now = new Date() } = options;
+
+  const to = options.to
+    ? new Date(`${options.to}T00:00:00Z`)
+    : new Date(`${isoDate(now)}T00:00:00Z`);
+  const from = options.from
+    ? new Date(`${options.from}T00:00:00Z`)
+    : new Date(to.getTime() - days * DAY_MS);
+
+  return { from: isoDate(from), to: isoDate(to) };
+};
+
+// the period of the same length right before this one
+export const previousPeriod = (period: { from: string; to: string }) => {
+  const length = Date.parse(period.to) - Date.parse(period.from);
+  return {
+    from: isoDate(new Date(Date.parse(period.from) - length)),
+    to: period.from,
+  };
+};
+
+export const publishedIn = (
+  publishedAt: string,
+  period: { from: string; to: string }
+) => {
+  const at = Date.parse(publishedAt);
+  return at >= Date.parse(period.from) && at < Date.parse(period.to);
+};
+
+const toDigestVideo = (source: DigestSource): DigestVideo => {
+  const { snapshot, memory } = source;
+  return {
+    videoId: source.videoId,
+    title: snapshot?.video.title ?? source.title,
+    url: videoUrl(source.videoId),
+    publishedAt: source.publishedAt,
+    snapshotTakenAt: snapshot?.takenAt ?? null,
+    stats: snapshot?.stats ?? null,
+    vsBaseline: source.vsBaseline,
+    sentiment: snapshot?.sentiment.overall ?? null,
+    memoryExcerpt:
+      memory === null
+        ? null
+        : memory.length > MAX_MEMORY_CHARS
+          ? `${memory.slice(0, MAX_MEMORY_CHARS)}...`
+          : memory,
+  };
+};
+
+/**
+ * Groups similar theme summaries across videos. Only themes that came up on
+ * more than one video are recurring.
+ */
+export const recurringThemes = (snapshots: VideoSnapshot[]) => {
+  const themes = snapshots
+    .flatMap((snapshot) =>
+      snapshot.themes.map((theme) => ({ videoId: snapshot.videoId, theme }))
+    )
+    .sort(
+      (a, b) =>
+        (b.theme.approximateCount ?? 0) - (a.theme.approximateCount ?? 0)
+    );
+
+  const groups: Array<{
+    signature: number[];
+    summary: string;
+    sentiments: Map<RecurringTheme["sentiment"], number>;
+    approximateCount: number;
+    videoIds: Set<string>;
+  }> = [];
+
+  for (const { videoId, theme } of themes) {
+    const signature = minHashSignature(theme.summary);
+    let group = groups.find(
+      (g) => estimateSimilarity(g.signature, signature) >= THEME_SIMILARITY
+    );
+    if (!group) {
+      group = {
+        signature,
+        summary: theme.summary,
+        sentiments: new Map(),
+        approximateCount: 0,
+        videoIds: new Set(),
+      };
+      groups.push(group);
+    }
+    group.sentiments.set(
+      theme.sentiment,
+      (group.sentiments.get(theme.sentiment) ?? 0) + 1
+    );
+    group.approximateCount += theme.approximateCount ?? 1;
+    group.videoIds.add(videoId);
+  }
+
+  return groups
+    .filter((g) => g.videoIds.size > 1)
+    .map((g): RecurringTheme => ({
+      summary: g.summary,
+      sentiment: [...g.sentiments.entries()].reduce((best, entry) =>
+        entry[1] > best[1] ? entry : best
+      )[0],
+      videoCount: g.videoIds.size,
+      approximateCount: g.approximateCount,
+      videoIds: [...g.videoIds],
+    }))
+    .sort(
+      (a, b) =>
+        b.videoCount - a.videoCount || b.approximateCount - a.approximateCount
+    )
+    .slice(0, MAX_THEMES);
+};
+
+const sponsorFeedback = (snapshots: VideoSnapshot[]): SponsorFeedback[] =>
+  buildSponsorReports(snapshots).map((report) => ({
+    sponsor: report.sponsor,
+    videoCount: report.videoCount,
+    ...report.mentions,
+    topComplaintThemes: report.topComplaintThemes.map(({ theme, count }) => ({
+      theme,
+      count,
+    })),
+  }));
+
+const openErrata = (snapshots: VideoSnapshot[]): OpenErratum[] =>
+  snapshots.flatMap((snapshot) =>
+    (snapshot.errata?.entries ?? []).map((entry) => ({
+      videoId: snapshot.videoId,
+      title: snapshot.video.title,
+      url: `${videoUrl(snapshot.videoId)}&t=${entry.startSeconds}s`,
+      timestamp: entry.timestamp,
+      reportCount: entry.reportCount,
+      text: entry.strongest.text,
+    }))
+  );
+
+const snapshotsOf = (sources: DigestSource[]) =>
+  sources.flatMap((s) => (s.snapshot ? [s.snapshot] : []));
+
+export const digestMetrics = (sources: DigestSource[]): DigestMetrics => {
+  const snapshots = snapshotsOf(sources);
+  const ratios = sources.flatMap((s) =>
+    s.vsBaseline?.ratio != null ? [s.vsBaseline.ratio] : []
+  );
+  const medianRatio = median(ratios);
+
+  return {
+    videoCount: sources.length,
+    snapshotCount: snapshots.length,
+    totalViews: snapshots.reduce((n, s) => n + s.stats.viewCount, 0),
+    medianVsBaseline:
+      medianRatio === null ? null : Math.round(medianRatio * 100) / 100,
+    negativeSponsorMentions: snapshots.reduce(
+      (n, s) =>
+        n +
+        s.flaggedComments.filter((c) => c.category === "sponsor_negative")
+          .length,
+      0
+    ),
+    openErrata: snapshots.reduce(
+      (n, s) => n + (s.errata?.entries.length ?? 0),
+      0
+    ),
+    negativeVideos: snapshots.filter((s) => s.sentiment.overall === "negative")
+      .length,
+  };
+};
+
+const compareMetrics = (current: DigestMetrics, previous: DigestMetrics) =>
+  Object.fromEntries(
+    (Object.keys(current) as Array<keyof DigestMetrics>).map((metric) => {
+      const now = current[metric];
+      const then = previous[metric];
+      return [
+        metric,
+        now === null || then === null
+          ? null
+          : Math.round((now - then) * 100) / 100,
+      ];
+    })
+  );
+
+export const digestKey = (
+  channelId: string,
+  period: { from: string; to: string }
+) => `${channelId}/${period.from}_${period.to}`;
+
+/**
+ * Builds the digest for one channel and period from everything stored about
+ * the videos published in it. `previous` is what the week over week
+ * comparison is made against.
+ */
+export const buildChannelDigest = (data: {
+  channel: { name: string; channelId: string };
+  period: { from: string; to: string };
+  sources: DigestSource[];
+  previous: { key: string | null; metrics: DigestMetrics } | null;
+  builtAt?: Date;
+}): ChannelDigest => {
+  const { channel, period, previous } = data;
+  const sources = [...data.sources].sort((a, b) =>
+    b.publishedAt.localeCompare(a.publishedAt)
+  );
+  const snapshots = snapshotsOf(sources);
+  const videos = sources.map(toDigestVideo);
+
+  const ranked = videos
+    .filter((v) => v.vsBaseline?.ratio != null)
+    .sort((a, b) => (b.vsBaseline?.ratio ?? 0) - (a.vsBaseline?.ratio ?? 0));
+  // above or below the baseline, not just the top and bottom of the week
+  const best = ranked
+    .filter((v) => (v.vsBaseline?.ratio ?? 0) >= 1)
+    .slice(0, TOP_PERFORMERS);
+  const worst = ranked
+    .filter((v) => (v.vsBaseline?.ratio ?? 0) < 1)
+    .reverse()
+    .slice(0, TOP_PERFORMERS);
+
+  const metrics = digestMetrics(sources);
+
+  return {
+    key: digestKey(channel.channelId, period),
+    channel,
+    from: period.from,
+    to: period.to,
+    builtAt: (data.builtAt ?? new Date()).toISOString(),
+    videos,
+    best,
+    worst,
+    themes: recurringThemes(snapshots),
+    sponsors: sponsorFeedback(snapshots),
+    errata: openErrata(snapshots),
+    metrics,
+    comparison: previous
+      ? {
+          previousKey: previous.key,
+          previous: previous.metrics,
+          changes: compareMetrics(metrics, previous.metrics),
+        }
+      : null,
+  };
+};
+
+const METRIC_LABELS: Record<keyof DigestMetrics, string> = {
+  videoCount: "Videos published",
+  snapshotCount: "Videos with snapshots",
+  totalViews: "Views (at last snapshot)",
+  medianVsBaseline: "Median views/hour vs baseline",
+  negativeSponsorMentions: "Negative sponsor mentions",
+  openErrata: "Open errata",
+  negativeVideos: "Videos with negative sentiment",
+};
+
+const signed = (n: number | null) =>
+  n === null ? "n/a" : n > 0 ? `+${n}` : String(n);
+
+const renderPerformer = (video: DigestVideo) => {
+  const vs = video.vsBaseline;
+  const detail = vs
+    ? `${vs.ratio}x baseline (${vs.viewsPerHour} views/hour vs a median of ${vs.baselineMedian} for ${vs.ageBucket} old videos)`
+    : "no baseline";
+  return `- [${video.title}](${video.url}): ${detail}`;
+};
+
+// "2026-10-12" to "2026-10-19" reads as "2026-10-12 to 2026-10-18"
+const lastDay = (to: string) => isoDate(new Date(Date.parse(to) - DAY_MS));
+
+export const renderChannelDigestMarkdown = (digest: ChannelDigest) => {
+  const lines: string[] = [
+    `# ${digest.channel.name} digest, ${digest.from} to ${lastDay(digest.to)}`,
+    "",
+    `_Built at ${digest.builtAt}_`,
+    "",
+    `- Videos published: ${digest.metrics.videoCount}`,
+    `- Videos with snapshots: ${digest.metrics.snapshotCount}`,
+    `- Views (at last snapshot): ${digest.metrics.totalViews}`,
+  ];
+
+  lines.push("", "## Week over week", "");
+  if (!digest.comparison) {
+    lines.push("Nothing to compare against yet.");
+  } else {
+    const { previous, changes, previousKey } = digest.comparison;
+    lines.push(
+      `_Compared against ${previousKey ? `digest ${previousKey}` : "the stored videos of the previous period"}_`,
+      "",
+      "| Metric | This period | Previous | Change |",
+      "| --- | --- | --- | --- |"
+    );
+    for (const metric of Object.keys(METRIC_LABELS) as Array<
+      keyof DigestMetrics
+    >) {
+      lines.push(
+        `| ${METRIC_LABELS[metric]} | ${digest.metrics[metric] ?? "n/a"} | ${previous[metric] ?? "n/a"} | ${signed(changes[metric] ?? null)} |`
+      );
+    }
+  }
+
+  lines.push("", "## Best performers", "");
+  if (digest.best.length === 0) {
+    lines.push("No video did better than the channel's baseline.");
+  }
+  for (const video of digest.best) lines.push(renderPerformer(video));
+
+  if (digest.worst.length > 0) {
+    lines.push("", "## Worst performers", "");
+    for (const video of digest.worst) lines.push(renderPerformer(video));
+  }
+
+  lines.push("", "## Recurring comment themes", "");
+  if (digest.themes.length === 0) {
+    lines.push("No theme came up on more than one video.");
+  }
+  for (const theme of digest.themes) {
+    lines.push(
+      `- **${theme.sentiment}**: ${theme.summary} (${theme.videoCount} videos, ~${theme.approximateCount} comments)`
+    );
+  }
+
+  if (digest.sponsors.length > 0) {
+    lines.push("", "## Sponsor feedback", "");
+    for (const sponsor of digest.sponsors) {
+      lines.push(
+        `- **${sponsor.sponsor}** (${sponsor.videoCount} video${sponsor.videoCount === 1 ? "" : "s"}): ${sponsor.negative} negative, ${sponsor.positive} positive, ${sponsor.neutral} neutral`
+      );
+      for (const theme of sponsor.topComplaintThemes) {
+        lines.push(`  - ${theme.theme} (${theme.count})`);
+      }
+    }
+  }
+
+  lines.push("", "## Open errata", "");
+  if (digest.errata.length === 0) {
+    lines.push("None reported.");
+  }
+  for (const erratum of digest.errata) {
+    lines.push(
+      `- [${erratum.title} @ ${erratum.timestamp}](${erratum.url}) (${erratum.reportCount} report${erratum.reportCount === 1 ? "" : "s"}): "${erratum.text}"`
+    );
+  }
+
+  lines.push("", "## Videos", "");
+  if (digest.videos.length === 0) {
+    lines.push("No stored videos were published in this period.");
+  }
+  for (const video of digest.videos) {
+    const views = video.stats ? `, ${video.stats.viewCount} views` : "";
+    const sentiment = video.sentiment ? `, ${video.sentiment}` : "";
+    lines.push(
+      `- [${video.title}](${video.url}) (published ${video.publishedAt}${views}${sentiment})`
+    );
+    if (video.memoryExcerpt) {
+      lines.push(`  - Notes: ${video.memoryExcerpt.replace(/\s+/g, " ")}`);
+    }
+  }
+
+  return `${lines.join("\n")}\n`;
+};
+
+// ARCHIVE
+
+const indexKey = (channelId: string) => `${channelId}/index`;
+
+export const listArchivedDigests = async (
+  ctx: AgentContext,
+  channelId: string
+): Promise<DigestIndexEntry[]> => {
+  const r = await ctx.kv.get(KV_NAMESPACE, indexKey(channelId));
+  if (!r.exists) return [];
+
+  const parsed = z.array(digestIndexEntrySchema).safeParse(await r.data.json());
+  return parsed.success ? parsed.data : [];
+};
+
+export const readArchivedDigest = async (
+  ctx: AgentContext,
+  key: string
+): Promise<ChannelDigest | null> => {
+  const r = await ctx.kv.get(KV_NAMESPACE, key);
+  if (!r.exists) return null;
+
+  const parsed = channelDigestSchema.safeParse(await r.data.json());
+  if (!parsed.success) {
+    ctx.logger.warn(`Ignoring malformed archived digest ${key}`);
+    return null;
+  }
+  return parsed.data;
+};
+
+/**
+ * The archived digest for the period right before `period`, if one was built.
+ */
+export const findPreviousDigest = async (
+  ctx: AgentContext,
+  channelId: string,
+  period: { from: string; to: string }
+) => {
+  const previous = previousPeriod(period);
+  const entry = (await listArchivedDigests(ctx, channelId)).find(
+    (e) => e.from === previous.from && e.to === previous.to
+  );
+  return entry ? readArchivedDigest(ctx, entry.key) : null;
+};
+
+/**
+ * Stores the digest, replacing any earlier build of the same period.
+ */
+export const archiveDigest = async (
+  ctx: AgentContext,
+  digest: ChannelDigest
+) => {
+  await ctx.kv.set(KV_NAMESPACE, digest.key, JSON.stringify(digest), {
+    contentType: "application/json",
+  });
+
+  const index = (
+    await listArchivedDigests(ctx, digest.channel.channelId)
+  ).filter((e) => e.key !== digest.key);
+  index.push({
+    key: digest.key,
+    from: digest.from,
+    to: digest.to,
+    builtAt: digest.builtAt,
+    metrics: digest.metrics,
+  });
+  index.sort((a, b) => b.from.localeCompare(a.from));
+
+  await ctx.kv.set(
+    KV_NAMESPACE,
+    indexKey(digest.channel.channelId),
+    JSON.stringify(index),
+    { contentType: "application/json" }
+  );
+};
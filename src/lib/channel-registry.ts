@@ -0,0 +1,178 @@
+import type { AgentContext } from "@agentuity/sdk";
+import z from "zod";
+import { anomalyConfigSchema } from "./anomaly";
+import { AGENT_ERROR } from "./errors";
+
+const KV_NAMESPACE = "channel-registry";
+const CHANNELS_KEY = "channels";
+
+// what the registry starts out with the first time it's read
+const DEFAULT_CHANNELS = [
+  { name: "Ben Davis", channelId: "UCFvPgPdb_emE_bpMZq6hmJQ" },
+  { name: "Theo", channelId: "UCbRP3c757lWg9M-U7TyEkXA" },
+];
+
+export const channelSettingsSchema = z.object({
+  // how many of the latest uploads to look at each run
+  recentVideoLimit: z.number().int().min(1).max(50).optional(),
+  // overrides for the anomaly thresholds on this channel only
+  anomaly: anomalyConfigSchema.partial().optional(),
+  // how drafted creator replies should sound, see src/lib/reply-drafts.ts
+  replyVoice: z.string().min(1).max(2000).optional(),
+});
+
+export const registeredChannelSchema = z.object({
+  name: z.string().min(1),
+  channelId: z.string().min(1),
+  enabled: z.boolean(),
+  settings: channelSettingsSchema,
+  addedAt: z.string(),
+  updatedAt: z.string(),
+});
+
+export const channelInputSchema = z.object({
+  name: z.string().min(1),
+  channelId: z.string().min(1),
+  enabled: z.boolean().default(true),
+  settings: channelSettingsSchema.default({}),
+});
+
+export const channelPatchSchema = z.object({
+  name: z.string().min(1).optional(),
+  enabled: z.boolean().optional(),
+  settings: channelSettingsSchema.optional(),
+});
+
+export type ChannelSettings = z.infer<typeof channelSettingsSchema>;
+export type RegisteredChannel = z.infer<typeof registeredChannelSchema>;
+export type ChannelInput = z.input<typeof channelInputSchema>;
+export type ChannelPatch = z.infer<typeof channelPatchSchema>;
+
+const matches = (channel: RegisteredChannel, nameOrId: string) =>
+  channel.channelId === nameOrId ||
+  channel.name.toLowerCase() === nameOrId.toLowerCase();
+
+const writeChannels = async (
+  ctx: AgentContext,
+  channels: RegisteredChannel[]
+) => {
+  await ctx.kv.set(KV_NAMESPACE, CHANNELS_KEY, JSON.stringify(channels), {
+    contentType: "application/json",
+  });
+};
+
+export const listChannels = async (
+  ctx: AgentContext
+): Promise<RegisteredChannel[]> => {
+  const r = await ctx.kv.get(KV_NAMESPACE, CHANNELS_KEY);
+
+  if (!r.exists) {
+    const now = new Date().toISOString();
+    const seeded = DEFAULT_CHANNELS.map((channel) => ({
+      ...channel,
+      enabled: true,
+      settings: {},
+      addedAt: now,
+      updatedAt: now,
+    }));
+    await writeChannels(ctx, seeded);
+    return seeded;
+  }
+
+  return z.array(registeredChannelSchema).parse(await r.data.json());
+};
+
+export const listEnabledChannels = async (ctx: AgentContext) =>
+  (await listChannels(ctx)).filter((channel) => channel.enabled);
+
+/**
+ * Looks a channel up by its YouTube channel ID or by its display name (case
+ * insensitive). Returns null if it isn't registered.
+ */
+export const getChannel = async (ctx: AgentContext, nameOrId: string) =>
+  (await listChannels(ctx)).find((channel) => matches(channel, nameOrId)) ??
+  null;
+
+export const addChannel = async (ctx: AgentContext, input: ChannelInput) => {
+  const channel = channelInputSchema.parse(input);
+  const channels = await listChannels(ctx);
+
+  if (
+    channels.some(
+      (c) => matches(c, channel.channelId) || matches(c, channel.name)
+    )
+  ) {
+    throw new AGENT_ERROR({
+      code: "conflict",
+      message: `A channel named "${channel.name}" or with id ${channel.channelId} is already registered`,
+    });
+  }
+
+  const now = new Date().toISOString();
+  const registered: RegisteredChannel = {
+    ...channel,
+    addedAt: now,
+    updatedAt: now,
+  };
+  await writeChannels(ctx, [...channels, registered]);
+
+  return registered;
+};
+
+export const updateChannel = async (
+  ctx: AgentContext,
+  nameOrId: string,
+  patch: ChannelPatch
+) => {
+  const channels = await listChannels(ctx);
+  const existing = channels.find((c) => matches(c, nameOrId));
+  if (!existing) {
+    throw new AGENT_ERROR({
+      code: "channel_not_found",
+      message: `Channel not found: ${nameOrId}`,
+      channel: nameOrId,
+    });
+  }
+
+  if (
+    patch.name &&
+    channels.some((c) => c !== existing && matches(c, patch.name as string))
+  ) {
+    throw new AGENT_ERROR({
+      code: "conflict",
+      message: `A channel named "${patch.name}" is already registered`,
+    });
+  }
+
+  const updated: RegisteredChannel = {
+    ...existing,
+    ...patch,
+    settings: patch.settings ?? existing.settings,
+    updatedAt: new Date().toISOString(),
+  };
+  await writeChannels(
+    ctx,
+    channels.map((c) => (c === existing ? updated : c))
+  );
+
+  return updated;
+};
+
+export const removeChannel = async (ctx: AgentContext, nameOrId: string) => {
+  const channels = await listChannels(ctx);
+  const existing = channels.find((c) => matches(c, nameOrId));
+  if (!existing) {
+    throw new AGENT_ERROR({
+      code: "channel_not_found",
+      message: `Channel not found: ${nameOrId}`,
+      channel: nameOrId,
+    });
+  }
+
+  await writeChannels(
+    ctx,
+    channels.filter((c) => c !== existing)
+  );
+
+  return existing;
+};
@@ -0,0 +1,204 @@
+import type { AgentContext } from "@agentuity/sdk";
+import z from "zod";
+
+const KV_NAMESPACE = "channel-run-state";
+const DAY_MS = 24 * 60 * 60 * 1000;
+// videos that drop out of the recent uploads are forgotten after this long
+const SEEN_RETENTION_DAYS = 30;
+
+// how much a video has to move between runs to count as changed
+const DEFAULT_CHANGE_THRESHOLDS = {
+  viewGrowth: 0.25,
+  newComments: 20,
+};
+
+export const seenVideoSchema = z.object({
+  title: z.string(),
+  publishedAt: z.string(),
+  viewCount: z.number(),
+  likeCount: z.number(),
+  commentCount: z.number(),
+  firstSeenAt: z.string(),
+  lastSeenAt: z.string(),
+});
+
+export const followUpSchema = z.object({
+  title: z.string().optional(),
+  reason: z.string(),
+  flaggedAt: z.string(),
+});
+
+export const channelRunStateSchema = z.object({
+  channelId: z.string(),
+  lastRunAt: z.string().nullable(),
+  lastRunStatus: z.enum(["succeeded", "failed"]).nullable(),
+  lastRunTrigger: z.string().nullable(),
+  // the watermark, only moved by scheduled runs so a manual run (full
+  // rescan or not) doesn't hide new videos from the next hourly report
+  lastSuccessfulRunAt: z.string().nullable(),
+  videos: z.record(z.string(), seenVideoSchema),
+  followUps: z.record(z.string(), followUpSchema),
+});
+
+export type SeenVideo = z.infer<typeof seenVideoSchema>;
+export type FollowUp = z.infer<typeof followUpSchema>;
+export type ChannelRunState = z.infer<typeof channelRunStateSchema>;
+
+export interface ObservedVideo {
+  videoId: string;
+  title: string;
+  publishedAt: string;
+  viewCount: number;
+  likeCount: number;
+  commentCount: number;
+}
+
+export type VideoChange = {
+  videoId: string;
+  title: string;
+  change: "new" | "changed" | "flagged" | "unchanged";
+  reasons: string[];
+};
+
+const emptyState = (channelId: string): ChannelRunState => ({
+  channelId,
+  lastRunAt: null,
+  lastRunStatus: null,
+  lastRunTrigger: null,
+  lastSuccessfulRunAt: null,
+  videos: {},
+  followUps: {},
+});
+
+export const readRunState = async (
+  ctx: AgentContext,
+  channelId: string
+): Promise<ChannelRunState> => {
+  const r = await ctx.kv.get(KV_NAMESPACE, channelId);
+  if (!r.exists) return emptyState(channelId);
+
+  const parsed = channelRunStateSchema.safeParse(await r.data.json());
+  if (!parsed.success) {
+    ctx.logger.warn(`Ignoring malformed run state for ${channelId}`);
+    return emptyState(channelId);
+  }
+  return parsed.data;
+};
+
+export const writeRunState = async (
+  ctx: AgentContext,
+  state: ChannelRunState
+) => {
+  await ctx.kv.set(KV_NAMESPACE, state.channelId, JSON.stringify(state), {
+    contentType: "application/json",
+  });
+};
+
+/**
+ * Sorts the channel's current videos into new (never seen), changed (grew
+ * past the thresholds or was retitled since it was last seen), flagged (has
+ * an open follow-up) and unchanged. A full rescan treats every video as new.
+ */
+export const diffChannelVideos = (
+  state: ChannelRunState,
+  videos: ObservedVideo[],
+  options: {
+    fullRescan?: boolean;
+    thresholds?: Partial<typeof DEFAULT_CHANGE_THRESHOLDS>;
+  } = {}
+): VideoChange[] => {
+  const thresholds = { ...DEFAULT_CHANGE_THRESHOLDS, ...options.thresholds };
+
+  return videos.map((video) => {
+    const seen = state.videos[video.videoId];
+    const base = { videoId: video.videoId, title: video.title };
+
+    if (options.fullRescan || !seen) {
+      return { ...base, change: "new", reasons: [] };
+    }
+
+    const reasons: string[] = [];
+    if (video.title !== seen.title) {
+      reasons.push(`retitled from "${seen.title}"`);
+    }
+    const viewGrowth =
+      seen.viewCount > 0
+        ? (video.viewCount - seen.viewCount) / seen.viewCount
+        : video.viewCount > 0
+          ? 1
+          : 0;
+    if (viewGrowth >= thresholds.viewGrowth) {
+      reasons.push(
+        `views up ${Math.round(viewGrowth * 100)}% (${seen.viewCount} -> ${video.viewCount})`
+      );
+    }
+    const newComments = video.commentCount - seen.commentCount;
+    if (newComments >= thresholds.newComments) {
+      reasons.push(`${newComments} new comments`);
+    }
+
+    const followUp = state.followUps[video.videoId];
+    if (reasons.length > 0) {
+      return {
+        ...base,
+        change: "changed",
+        reasons: followUp
+          ? [...reasons, `flagged: ${followUp.reason}`]
+          : reasons,
+      };
+    }
+    if (followUp) {
+      return { ...base, change: "flagged", reasons: [followUp.reason] };
+    }
+    return { ...base, change: "unchanged", reasons };
+  });
+};
+
+/**
+ * The state after a run. Failed runs and runs that don't `advance` only
+ * record that they happened, so the videos they saw still count as new next
+ * time. Follow-ups are kept either way.
+ */
+export const recordRun = (
+  state: ChannelRunState,
+  run: {
+    videos: ObservedVideo[];
+    at: Date;
+    trigger: string;
+    status: "succeeded" | "failed";
+    advance: boolean;
+  }
+): ChannelRunState => {
+  const at = run.at.toISOString();
+  const next: ChannelRunState = {
+    ...state,
+    lastRunAt: at,
+    lastRunStatus: run.status,
+    lastRunTrigger: run.trigger,
+  };
+  if (run.status === "failed" || !run.advance) return next;
+
+  const videos = { ...state.videos };
+  for (const video of run.videos) {
+    videos[video.videoId] = {
+      title: video.title,
+      publishedAt: video.publishedAt,
+      viewCount: video.viewCount,
+      likeCount: video.likeCount,
+      commentCount: video.commentCount,
+      firstSeenAt: videos[video.videoId]?.firstSeenAt ?? at,
+      lastSeenAt: at,
+    };
+  }
+
+  const cutoff = run.at.getTime() - SEEN_RETENTION_DAYS * DAY_MS;
+  return {
+    ...next,
+    lastSuccessfulRunAt: at,
+    videos: Object.fromEntries(
+      Object.entries(videos).filter(
+        ([, v]) => Date.parse(v.lastSeenAt) >= cutoff
+      )
+    ),
+  };
+};
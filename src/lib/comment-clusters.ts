@@ -0,0 +1,177 @@
+// Groups near-duplicate comments so the model only has to read each distinct
+// "comment" once. Everything here is deterministic: the same input always
+// produces the same clusters in the same order.
+
+const SHINGLE_SIZE = 3;
+const SIGNATURE_SIZE = 64;
+const DEFAULT_SIMILARITY_THRESHOLD = 0.5;
+const MAX_SAMPLE_AUTHORS = 3;
+const MAX_SAMPLE_REPLIES = 3;
+
+export interface ClusterReply {
+  text: string;
+  authorName: string;
+  likeCount: number;
+}
+
+/**
+ * A top level comment. Its replies only make sense under it ("same here",
+ * "fixed, thanks"), so they are never clustered on their own and stay with
+ * the comment as context.
+ */
+export interface ClusterableComment {
+  commentId?: string;
+  text: string;
+  authorName: string;
+  likeCount: number;
+  replyCount?: number;
+  replies?: ClusterReply[];
+}
+
+export interface CommentCluster {
+  representative: string;
+  memberCount: number;
+  totalLikes: number;
+  totalReplies: number;
+  sampleAuthors: string[];
+  // the most liked replies under the representative's thread
+  sampleReplies: ClusterReply[];
+  commentIds: string[];
+}
+
+export const normalizeCommentText = (text: string) =>
+  text
+    .toLowerCase()
+    .replace(/https?:\/\/\S+/g, " ")
+    .replace(/[^\p{L}\p{N}\s]/gu, " ")
+    .replace(/\s+/g, " ")
+    .trim();
+
+// murmur3 finalizer, spreads the bits of a 32 bit int
+const fmix = (input: number) => {
+  let h = input;
+  h ^= h >>> 16;
+  h = Math.imul(h, 0x85ebca6b);
+  h ^= h >>> 13;
+  h = Math.imul(h, 0xc2b2ae35);
+  h ^= h >>> 16;
+  return h >>> 0;
+};
+
+const fnv1a = (text: string) => {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    h ^= text.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return h >>> 0;
+};
+
+const SEEDS = Array.from({ length: SIGNATURE_SIZE }, (_, i) => fmix(i + 1));
+
+const shingles = (normalized: string) => {
+  const padded = ` ${normalized} `;
+  const result = new Set<string>();
+  if (padded.length <= SHINGLE_SIZE) {
+    result.add(padded);
+    return result;
+  }
+  for (let i = 0; i <= padded.length - SHINGLE_SIZE; i++) {
+    result.add(padded.slice(i, i + SHINGLE_SIZE));
+  }
+  return result;
+};
+
+export const minHashSignature = (text: string) => {
+  const signature = new Array<number>(SIGNATURE_SIZE).fill(0xffffffff);
+  for (const shingle of shingles(normalizeCommentText(text))) {
+    const base = fnv1a(shingle);
+    for (let i = 0; i < SIGNATURE_SIZE; i++) {
+      const h = fmix(base ^ (SEEDS[i] as number));
+      if (h < (signature[i] as number)) signature[i] = h;
+    }
+  }
+  return signature;
+};
+
+// fraction of matching slots approximates the jaccard similarity of the
+// shingle sets
+export const estimateSimilarity = (a: number[], b: number[]) => {
+  let matches = 0;
+  for (let i = 0; i < SIGNATURE_SIZE; i++) {
+    if (a[i] === b[i]) matches += 1;
+  }
+  return matches / SIGNATURE_SIZE;
+};
+
+const compareComments = (a: ClusterableComment, b: ClusterableComment) =>
+  b.likeCount - a.likeCount ||
+  a.text.localeCompare(b.text) ||
+  (a.commentId ?? "").localeCompare(b.commentId ?? "");
+
+/**
+ * Greedy single pass clustering of top level comments. Comments are visited
+ * most liked first, so the representative of each cluster is its most liked
+ * member, and each comment joins the first cluster whose representative is
+ * similar enough.
+ */
+export const clusterComments = (
+  comments: ClusterableComment[],
+  options: { threshold?: number } = {}
+): CommentCluster[] => {
+  const { threshold = DEFAULT_SIMILARITY_THRESHOLD } = options;
+
+  const clusters: Array<CommentCluster & { signature: number[] }> = [];
+
+  for (const comment of [...comments].sort(compareComments)) {
+    if (!normalizeCommentText(comment.text)) continue;
+
+    const signature = minHashSignature(comment.text);
+    const match = clusters.find(
+      (c) => estimateSimilarity(c.signature, signature) >= threshold
+    );
+
+    if (!match) {
+      clusters.push({
+        signature,
+        representative: comment.text,
+        memberCount: 1,
+        totalLikes: comment.likeCount,
+        totalReplies: comment.replyCount ?? comment.replies?.length ?? 0,
+        sampleAuthors: [comment.authorName],
+        sampleReplies: [...(comment.replies ?? [])]
+          .sort(
+            (a, b) => b.likeCount - a.likeCount || a.text.localeCompare(b.text)
+          )
+          .slice(0, MAX_SAMPLE_REPLIES)
+          .map(({ text, authorName, likeCount }) => ({
+            text,
+            authorName,
+            likeCount,
+          })),
+        commentIds: comment.commentId ? [comment.commentId] : [],
+      });
+      continue;
+    }
+
+    match.memberCount += 1;
+    match.totalLikes += comment.likeCount;
+    match.totalReplies += comment.replyCount ?? comment.replies?.length ?? 0;
+    if (comment.commentId) match.commentIds.push(comment.commentId);
+    if (
+      match.sampleAuthors.length < MAX_SAMPLE_AUTHORS &&
+      !match.sampleAuthors.includes(comment.authorName)
+    ) {
+      match.sampleAuthors.push(comment.authorName);
+    }
+  }
+
+  return clusters
+    .map(({ signature, ...cluster }) => cluster)
+    .sort(
+      (a, b) =>
+        b.memberCount - a.memberCount ||
+        b.totalLikes - a.totalLikes ||
+        a.representative.localeCompare(b.representative)
+    );
+};
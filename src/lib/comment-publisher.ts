@@ -0,0 +1,169 @@
+import { randomUUID } from "node:crypto";
+import { google } from "googleapis";
+
+// comments.setModerationStatus takes at most this many ids per call
+const MAX_MODERATION_BATCH = 50;
+
+export interface PublishedReply {
+  // the id YouTube gave the reply, or a made up one for the local publisher
+  commentId: string;
+  publishedAt: string;
+}
+
+/**
+ * Posts creator replies to comments. Publishing needs the channel owner's
+ * OAuth consent, the API key the read side uses can't write.
+ */
+export interface CommentPublisher {
+  readonly name: string;
+  publishReply(params: {
+    parentId: string;
+    text: string;
+  }): Promise<PublishedReply>;
+}
+
+/**
+ * Takes comments down from the channel's videos, with the same OAuth consent
+ * as publishing.
+ */
+export interface CommentModerator {
+  readonly name: string;
+  removeComments(commentIds: string[]): Promise<void>;
+}
+
+export interface OAuthCredentials {
+  clientId: string;
+  clientSecret: string;
+  refreshToken: string;
+}
+
+export const oauthYouTube = (credentials: OAuthCredentials) => {
+  const auth = new google.auth.OAuth2(
+    credentials.clientId,
+    credentials.clientSecret
+  );
+  auth.setCredentials({ refresh_token: credentials.refreshToken });
+  return google.youtube({ version: "v3", auth });
+};
+
+export const oauthCredentialsFromEnv = (): OAuthCredentials | null => {
+  const clientId = process.env.YT_OAUTH_CLIENT_ID;
+  const clientSecret = process.env.YT_OAUTH_CLIENT_SECRET;
+  const refreshToken = process.env.YT_OAUTH_REFRESH_TOKEN;
+
+  return clientId && clientSecret && refreshToken
+    ? { clientId, clientSecret, refreshToken }
+    : null;
+};
+
+/**
+ * Keeps the replies in memory instead of posting them, for tests and for
+ * deployments without OAuth credentials.
+ */
+export const createLocalCommentPublisher = (): CommentPublisher & {
+  published: Array<{ parentId: string; text: string } & PublishedReply>;
+} => {
+  const published: Array<{ parentId: string; text: string } & PublishedReply> =
+    [];
+
+  return {
+    name: "local",
+    published,
+    publishReply: async ({ parentId, text }) => {
+      const reply = {
+        commentId: `local-${randomUUID()}`,
+        publishedAt: new Date().toISOString(),
+      };
+      published.push({ parentId, text, ...reply });
+      return reply;
+    },
+  };
+};
+
+/**
+ * Posts replies with `comments.insert` as the channel whose refresh token is
+ * given. Each insert costs 50 quota units on the OAuth client's project.
+ */
+export const createOAuthCommentPublisher = (
+  credentials: OAuthCredentials
+): CommentPublisher => {
+  const youtube = oauthYouTube(credentials);
+
+  return {
+    name: "oauth",
+    publishReply: async ({ parentId, text }) => {
+      const r = await youtube.comments.insert({
+        part: ["snippet"],
+        requestBody: { snippet: { parentId, textOriginal: text } },
+      });
+      if (!r.data.id) {
+        throw new Error(`comments.insert returned no id for ${parentId}`);
+      }
+      return {
+        commentId: r.data.id,
+        publishedAt: r.data.snippet?.publishedAt ?? new Date().toISOString(),
+      };
+    },
+  };
+};
+
+/**
+ * Only records which comments it was asked to remove, for tests and for
+ * deployments without OAuth credentials.
+ */
+export const createLocalCommentModerator = (): CommentModerator & {
+  removed: string[];
+} => {
+  const removed: string[] = [];
+
+  return {
+    name: "local",
+    removed,
+    removeComments: async (commentIds) => {
+      removed.push(...commentIds);
+    },
+  };
+};
+
+/**
+ * Rejects comments with `comments.setModerationStatus`, which hides them
+ * from the video. Costs 50 quota units per call of up to 50 comments.
+ */
+export const createOAuthCommentModerator = (
+  credentials: OAuthCredentials
+): CommentModerator => {
+  const youtube = oauthYouTube(credentials);
+
+  return {
+    name: "oauth",
+    removeComments: async (commentIds) => {
+      for (let i = 0; i < commentIds.length; i += MAX_MODERATION_BATCH) {
+        await youtube.comments.setModerationStatus({
+          id: commentIds.slice(i, i + MAX_MODERATION_BATCH),
+          moderationStatus: "rejected",
+        });
+      }
+    },
+  };
+};
+
+/**
+ * The OAuth publisher when YT_OAUTH_CLIENT_ID, YT_OAUTH_CLIENT_SECRET and
+ * YT_OAUTH_REFRESH_TOKEN are all set, the local one otherwise.
+ */
+export const commentPublisherFromEnv = (): CommentPublisher => {
+  const credentials = oauthCredentialsFromEnv();
+  return credentials
+    ? createOAuthCommentPublisher(credentials)
+    : createLocalCommentPublisher();
+};
+
+/**
+ * Same as commentPublisherFromEnv, for removing comments.
+ */
+export const commentModeratorFromEnv = (): CommentModerator => {
+  const credentials = oauthCredentialsFromEnv();
+  return credentials
+    ? createOAuthCommentModerator(credentials)
+    : createLocalCommentModerator();
+};
@@ -0,0 +1,80 @@
+/**
+ * Maps over `items` with at most `concurrency` calls to `fn` in flight at
+ * once. Results come back in the order of `items`.
+ */
+export const mapWithConcurrency = async <T, R>(
+  items: T[],
+  concurrency: number,
+  fn: (item: T, index: number) => Promise<R>
+): Promise<R[]> => {
+  const results: R[] = new Array(items.length);
+
+  let next = 0;
+  const worker = async () => {
+    while (next < items.length) {
+      const i = next++;
+      results[i] = await fn(items[i] as T, i);
+    }
+  };
+
+  await Promise.all(
+    Array.from({ length: Math.min(concurrency, items.length) }, worker)
+  );
+
+  return results;
+};
+
+export class TIMEOUT_ERROR extends Error {
+  constructor(public readonly ms: number) {
+    super(`Timed out after ${ms}ms`);
+    this.name = "TIMEOUT_ERROR";
+  }
+}
+
+/**
+ * Runs `fn`, rejecting with TIMEOUT_ERROR if it hasn't settled within `ms`.
+ * The signal handed to `fn` is aborted at the same time, so work that takes a
+ * signal stops instead of running on in the background.
+ */
+export const withTimeout = async <T>(
+  ms: number,
+  fn: (signal: AbortSignal) => Promise<T>
+): Promise<T> => {
+  const controller = new AbortController();
+  let timer: ReturnType<typeof setTimeout> | undefined;
+
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => {
+      const error = new TIMEOUT_ERROR(ms);
+      // reject first, so whatever fn does on abort can't win the race
+      reject(error);
+      controller.abort(error);
+    }, ms);
+  });
+
+  try {
+    return await Promise.race([fn(controller.signal), timeout]);
+  } finally {
+    clearTimeout(timer);
+  }
+};
+
+// the tail of each key's chain of locked calls
+const keyLocks = new Map<string, Promise<unknown>>();
+
+/**
+ * Runs `fn` once every earlier call for the same `key` has settled, so
+ * concurrent read-modify-writes of one KV key in this process (the videos of
+ * a batch, say) don't overwrite each other's changes.
+ */
+export const withKeyLock = <T>(key: string, fn: () => Promise<T>) => {
+  const previous = keyLocks.get(key) ?? Promise.resolve();
+  const next = previous.then(fn, fn);
+  const tail = next.catch(() => undefined);
+  keyLocks.set(key, tail);
+  // nothing queued behind this call, so the key can be forgotten
+  void tail.then(() => {
+    if (keyLocks.get(key) === tail) keyLocks.delete(key);
+  });
+  return next;
+};
@@ -0,0 +1,479 @@
+import { lookup } from "node:dns/promises";
+import { isIP } from "node:net";
+import z from "zod";
+import { mapWithConcurrency } from "./concurrency";
+
+const URL_PATTERN = /https?:\/\/[^\s<>()"']+/g;
+// anything at the start of a line that looks like it's meant to be a
+// timestamp, validated properly afterwards
+const CHAPTER_PATTERN =
+  /^\s*[([]?(\d{1,2}(?::\d{1,2}){1,2})[)\]]?\s*(?:[-–—:|]\s*)?(.*)$/;
+const MIN_CHAPTERS = 3;
+const MIN_CHAPTER_SECONDS = 10;
+const DEFAULT_TIMEOUT_MS = 5000;
+const DEFAULT_CONCURRENCY = 5;
+const MAX_REDIRECTS = 5;
+
+export const linkCheckSchema = z.object({
+  url: z.string(),
+  status: z.enum(["ok", "broken", "unreachable", "unchecked"]),
+  httpStatus: z.number().optional(),
+  error: z.string().optional(),
+  // how many times the link appears in the description
+  occurrences: z.number(),
+});
+
+export const chapterSchema = z.object({
+  timestamp: z.string(),
+  seconds: z.number(),
+  title: z.string(),
+});
+
+export const chapterIssueSchema = z.object({
+  type: z.enum([
+    "malformed_timestamp",
+    "first_not_zero",
+    "out_of_order",
+    "too_short",
+    "duplicate_timestamp",
+    "duplicate_title",
+    "too_few",
+    "missing_title",
+  ]),
+  message: z.string(),
+  timestamp: z.string().optional(),
+});
+
+export const linkComplaintSchema = z.object({
+  commentId: z.string(),
+  text: z.string(),
+  authorName: z.string().optional(),
+  likeCount: z.number().optional(),
+  kind: z.enum(["missing", "broken"]),
+  // what the commenter is looking for, e.g. "repo" from "where's the repo link"
+  subject: z.string().optional(),
+  // the dead link the complaint is about
+  link: z.string().optional(),
+  // a link already in the description that looks like what they asked for
+  presentAs: z.string().optional(),
+});
+
+export const descriptionAuditSchema = z.object({
+  checkedAt: z.string(),
+  links: z.array(linkCheckSchema),
+  chapters: z.array(chapterSchema),
+  chapterIssues: z.array(chapterIssueSchema),
+  linkComplaints: z.array(linkComplaintSchema),
+});
+
+export type LinkCheck = z.infer<typeof linkCheckSchema>;
+export type Chapter = z.infer<typeof chapterSchema>;
+export type ChapterIssue = z.infer<typeof chapterIssueSchema>;
+export type LinkComplaint = z.infer<typeof linkComplaintSchema>;
+export type DescriptionAudit = z.infer<typeof descriptionAuditSchema>;
+
+/**
+ * Checks a single URL. Injected into the audit so it can run without the
+ * network.
+ */
+export type LinkFetcher = (
+  url: string
+) => Promise<{ ok: boolean; status: number }>;
+
+// the first address of each IPv4 range a description link has no business
+// pointing the server at, with its prefix length: "this" network, private,
+// carrier-grade NAT, loopback, link-local (cloud metadata lives there),
+// benchmarking, multicast and reserved
+const BLOCKED_IPV4_RANGES: Array<[string, number]> = [
+  ["0.0.0.0", 8],
+  ["10.0.0.0", 8],
+  ["100.64.0.0", 10],
+  ["127.0.0.0", 8],
+  ["169.254.0.0", 16],
+  ["172.16.0.0", 12],
+  ["192.0.0.0", 24],
+  ["192.168.0.0", 16],
+  ["198.18.0.0", 15],
+  ["224.0.0.0", 4],
+  ["240.0.0.0", 4],
+];
+
+const ipv4ToNumber = (address: string) =>
+  address.split(".").reduce((n, octet) => n * 256 + Number(octet), 0);
+
+const isBlockedIpv4 = (address: string) =>
+  BLOCKED_IPV4_RANGES.some(([first, prefix]) => {
+    const size = 2 ** (32 - prefix);
+    return (
+      Math.floor(ipv4ToNumber(address) / size) ===
+      Math.floor(ipv4ToNumber(first) / size)
+    );
+  });
+
+/**
+ * Whether `address` is a loopback, private, link-local or otherwise
+ * non-public IPv4 or IPv6 address.
+ */
+export const isPrivateAddress = (address: string) => {
+  if (isIP(address) === 4) return isBlockedIpv4(address);
+
+  const v6 = address.toLowerCase();
+  // IPv4 mapped ("::ffff:127.0.0.1") is the IPv4 address underneath
+  const mapped = v6.match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/)?.[1];
+  if (mapped) return isBlockedIpv4(mapped);
+
+  return (
+    v6 === "::" ||
+    v6 === "::1" ||
+    // unique local fc00::/7, link-local fe80::/10, multicast ff00::/8
+    /^f[cd]/.test(v6) ||
+    /^fe[89ab]/.test(v6) ||
+    v6.startsWith("ff")
+  );
+};
+
+/**
+ * Resolves a hostname to every address it has. Injected into the link
+ * fetcher so its checks can run without DNS.
+ */
+export type HostResolver = (hostname: string) => Promise<string[]>;
+
+const resolveWithDns: HostResolver = async (hostname) =>
+  (await lookup(hostname, { all: true })).map((a) => a.address);
+
+// throws for anything but an http(s) link to a public host, so links in a
+// description can't make the server call into its own network
+const assertPublicUrl = async (url: URL, resolveHost: HostResolver) => {
+  if (url.protocol !== "http:" && url.protocol !== "https:") {
+    throw new Error(`Not an http(s) link: ${url.protocol}`);
+  }
+  const hostname = url.hostname.replace(/^\[|\]$/g, "");
+  if (isIP(hostname) !== 0) {
+    throw new Error(`Not checking a link to an IP address: ${hostname}`);
+  }
+  const addresses = await resolveHost(hostname);
+  if (addresses.length === 0 || addresses.some(isPrivateAddress)) {
+    throw new Error(`Not checking a link to a private address: ${hostname}`);
+  }
+};
+
+/**
+ * Checks links over HTTP, following redirects one at a time so every hop is
+ * held to the same rules: http(s) only, and no IP literals or hosts that
+ * resolve to private, loopback or link-local addresses.
+ */
+export const createHttpLinkFetcher = (
+  options: { timeoutMs?: number; resolveHost?: HostResolver } = {}
+): LinkFetcher => {
+  const { timeoutMs = DEFAULT_TIMEOUT_MS, resolveHost = resolveWithDns } =
+    options;
+
+  const request = async (url: string, method: "HEAD" | "GET") => {
+    let current = new URL(url);
+    for (let redirects = 0; redirects <= MAX_REDIRECTS; redirects++) {
+      await assertPublicUrl(current, resolveHost);
+      const response = await fetch(current, {
+        method,
+        redirect: "manual",
+        signal: AbortSignal.timeout(timeoutMs),
+      });
+      const location = response.headers.get("location");
+      if (response.status < 300 || response.status >= 400 || !location) {
+        return response;
+      }
+      await response.body?.cancel();
+      current = new URL(location, current);
+    }
+    throw new Error(`More than ${MAX_REDIRECTS} redirects from ${url}`);
+  };
+
+  return async (url) => {
+    const head = await request(url, "HEAD");
+    // plenty of sites don't do HEAD, ask again properly before calling it dead
+    if (head.ok || ![403, 405, 501].includes(head.status)) {
+      return { ok: head.ok, status: head.status };
+    }
+
+    const get = await request(url, "GET");
+    await get.body?.cancel();
+    return { ok: get.ok, status: get.status };
+  };
+};
+
+// trailing punctuation is almost always the sentence, not the URL
+const cleanUrl = (url: string) => url.replace(/[.,;:!?]+$/, "");
+
+export const extractLinks = (description: string) => {
+  const counts = new Map<string, number>();
+  for (const match of description.match(URL_PATTERN) ?? []) {
+    const url = cleanUrl(match);
+    counts.set(url, (counts.get(url) ?? 0) + 1);
+  }
+  return [...counts.entries()].map(([url, occurrences]) => ({
+    url,
+    occurrences,
+  }));
+};
+
+// "1:02:03" -> 3723, null when a part isn't a number ("a:bc"), is out of
+// range ("1:75") or there are more than three ("1:2:03:45")
+export const parseTimestamp = (timestamp: string) => {
+  const raw = timestamp.split(":");
+  if (raw.length > 3 || raw.some((part) => !/^\d+$/.test(part))) return null;
+
+  const parts = raw.map(Number);
+  const [seconds, minutes, hours = 0] = [...parts].reverse();
+  if (seconds === undefined || minutes === undefined) return null;
+  if (seconds >= 60 || (parts.length === 3 && minutes >= 60)) return null;
+  if (timestamp.split(":").at(-1)?.length !== 2) return null;
+  return hours * 3600 + minutes * 60 + seconds;
+};
+
+/**
+ * Pulls the chapter list out of the description and checks it against the
+ * rules YouTube uses to decide whether to show chapters at all (starts at
+ * 0:00, at least three, each at least ten seconds, in order) plus duplicates.
+ */
+export const auditChapters = (description: string) => {
+  const chapters: Chapter[] = [];
+  const issues: ChapterIssue[] = [];
+
+  for (const line of description.split("\n")) {
+    const match = line.match(CHAPTER_PATTERN);
+    if (!match?.[1]) continue;
+
+    const timestamp = match[1];
+    const title = (match[2] ?? "").trim();
+    const seconds = parseTimestamp(timestamp);
+
+    if (seconds === null) {
+      issues.push({
+        type: "malformed_timestamp",
+        message: `"${timestamp}" is not a valid timestamp`,
+        timestamp,
+      });
+      continue;
+    }
+    if (!title) {
+      issues.push({
+        type: "missing_title",
+        message: `Chapter at ${timestamp} has no title`,
+        timestamp,
+      });
+    }
+
+    chapters.push({ timestamp, seconds, title });
+  }
+
+  if (chapters.length === 0) return { chapters, issues };
+
+  if (chapters[0]?.seconds !== 0) {
+    issues.push({
+      type: "first_not_zero",
+      message: `The first chapter starts at ${chapters[0]?.timestamp}, YouTube only shows chapters that start at 0:00`,
+      timestamp: chapters[0]?.timestamp,
+    });
+  }
+  if (chapters.length < MIN_CHAPTERS) {
+    issues.push({
+      type: "too_few",
+      message: `Only ${chapters.length} chapter(s), YouTube needs at least ${MIN_CHAPTERS}`,
+    });
+  }
+
+  const seenTimestamps = new Set<number>();
+  const seenTitles = new Set<string>();
+  for (const [i, chapter] of chapters.entries()) {
+    const previous = chapters[i - 1];
+
+    if (seenTimestamps.has(chapter.seconds)) {
+      issues.push({
+        type: "duplicate_timestamp",
+        message: `More than one chapter starts at ${chapter.timestamp}`,
+        timestamp: chapter.timestamp,
+      });
+    } else if (previous && chapter.seconds < previous.seconds) {
+      issues.push({
+        type: "out_of_order",
+        message: `${chapter.timestamp} comes after ${previous.timestamp}`,
+        timestamp: chapter.timestamp,
+      });
+    } else if (
+      previous &&
+      chapter.seconds - previous.seconds < MIN_CHAPTER_SECONDS
+    ) {
+      issues.push({
+        type: "too_short",
+        message: `The chapter at ${previous.timestamp} is shorter than ${MIN_CHAPTER_SECONDS} seconds`,
+        timestamp: previous.timestamp,
+      });
+    }
+
+    const titleKey = chapter.title.toLowerCase();
+    if (titleKey && seenTitles.has(titleKey)) {
+      issues.push({
+        type: "duplicate_title",
+        message: `"${chapter.title}" is used for more than one chapter`,
+        timestamp: chapter.timestamp,
+      });
+    }
+
+    seenTimestamps.add(chapter.seconds);
+    seenTitles.add(titleKey);
+  }
+
+  return { chapters, issues };
+};
+
+export const checkLinks = async (
+  links: Array<{ url: string; occurrences: number }>,
+  options: { fetcher: LinkFetcher; concurrency?: number }
+): Promise<LinkCheck[]> => {
+  const { fetcher, concurrency = DEFAULT_CONCURRENCY } = options;
+
+  return mapWithConcurrency(links, concurrency, async (link) => {
+    try {
+      const { ok, status } = await fetcher(link.url);
+      return {
+        ...link,
+        status: ok ? "ok" : "broken",
+        httpStatus: status,
+      };
+    } catch (e) {
+      return {
+        ...link,
+        status: "unreachable",
+        error: e instanceof Error ? e.message : String(e),
+      };
+    }
+  });
+};
+
+/**
+ * Audits the links and chapters in a video description. Without a fetcher
+ * the links are listed but not checked.
+ */
+export const auditDescription = async (data: {
+  description: string;
+  fetcher?: LinkFetcher;
+  concurrency?: number;
+}): Promise<DescriptionAudit> => {
+  const { description, fetcher, concurrency } = data;
+
+  const extracted = extractLinks(description);
+  const links = fetcher
+    ? await checkLinks(extracted, { fetcher, concurrency })
+    : extracted.map((link) => ({ ...link, status: "unchecked" as const }));
+  const { chapters, issues } = auditChapters(description);
+
+  return {
+    checkedAt: new Date().toISOString(),
+    links,
+    chapters,
+    chapterIssues: issues,
+    linkComplaints: [],
+  };
+};
+
+const MISSING_LINK_PATTERNS = [
+  /\b(?:where(?:'s| is)|forgot|missing|no|need|add|drop|share) (?:the |a |your )?link (?:to|for) (?:the |your )?([\w.-]+(?: [\w.-]+)?)/i,
+  /\b(?:where(?:'s| is)|forgot|missing|no|need|add|drop|share|can (?:you|i) get) (?:the |a |your )?([\w.-]+(?: [\w.-]+)?) ?link/i,
+  /([\w.-]+) link (?:is|isn'?t|not)(?: in| on)?(?: the)? (?:missing|in the description|description)/i,
+  /link(?:s)? (?:isn'?t|aren'?t|is not|are not|not) in the description/i,
+  /(?:no|missing) links? in (?:the )?description/i,
+];
+
+const BROKEN_LINK_PATTERNS = [
+  /([\w.-]+(?: [\w.-]+)?)? ?link(?:s)? (?:is |are )?(?:broken|dead|down|404|not working|doesn'?t work|don'?t work|goes nowhere)/i,
+  /(?:broken|dead) ([\w.-]+(?: [\w.-]+)?) ?link/i,
+  /(?:broken|dead) links?/i,
+];
+
+const STOP_WORDS = new Set([
+  "the",
+  "a",
+  "your",
+  "this",
+  "that",
+  "you",
+  "any",
+  "description",
+  "video",
+]);
+
+const subjectOf = (match: RegExpMatchArray | null) => {
+  const words = (match?.[1] ?? "")
+    .toLowerCase()
+    .split(/\s+/)
+    .filter((w) => w && !STOP_WORDS.has(w));
+  return words.length > 0 ? words.join(" ") : undefined;
+};
+
+// does the url look like it's the thing the commenter is after
+const linkMatches = (url: string, subject: string) => {
+  const haystack = url.toLowerCase();
+  return subject
+    .split(/\s+/)
+    .filter((w) => w.length >= 3)
+    .some((w) => haystack.includes(w));
+};
+
+/**
+ * Finds the comments complaining that a link is missing from the description
+ * or doesn't work, and ties each one to the link it's about: the dead link for
+ * broken-link complaints, or the link that's already there (if any) for
+ * missing-link ones.
+ */
+export const matchLinkComplaints = (
+  comments: Array<{
+    commentId: string;
+    text: string;
+    authorName?: string;
+    likeCount?: number;
+  }>,
+  audit: Pick<DescriptionAudit, "links">
+): LinkComplaint[] => {
+  const dead = audit.links.filter(
+    (l) => l.status === "broken" || l.status === "unreachable"
+  );
+  const complaints: LinkComplaint[] = [];
+
+  for (const comment of comments) {
+    const base = {
+      commentId: comment.commentId,
+      text: comment.text,
+      authorName: comment.authorName,
+      likeCount: comment.likeCount,
+    };
+
+    const broken = BROKEN_LINK_PATTERNS.map((p) => comment.text.match(p)).find(
+      Boolean
+    );
+    if (broken) {
+      const subject = subjectOf(broken);
+      const link =
+        (subject && dead.find((l) => linkMatches(l.url, subject))) ||
+        (dead.length === 1 ? dead[0] : undefined);
+      complaints.push({ ...base, kind: "broken", subject, link: link?.url });
+      continue;
+    }
+
+    const missing = MISSING_LINK_PATTERNS.map((p) =>
+      comment.text.match(p)
+    ).find(Boolean);
+    if (missing) {
+      const subject = subjectOf(missing);
+      const present = subject
+        ? audit.links.find((l) => linkMatches(l.url, subject))
+        : undefined;
+      complaints.push({
+        ...base,
+        kind: "missing",
+        subject,
+        presentAs: present?.url,
+      });
+    }
+  }
+
+  return complaints;
+};
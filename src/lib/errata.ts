@@ -0,0 +1,239 @@
+import z from "zod";
+import { parseTimestamp } from "./description-audit";
+
+// reports this close together are taken to be about the same mistake
+const DEFAULT_WINDOW_SECONDS = 10;
+
+const CLOCK_PATTERN = /(?<![\d:])\d{1,2}:\d{2}(?::\d{2})?(?![\d:])/g;
+// "at 3 min", "at around 3 minutes 20 seconds", "at 3m20s"
+const AT_MINUTES_PATTERN =
+  /\bat (?:around |about |like |roughly )?(\d{1,3}) ?(?:min(?:ute)?s?|m)\b(?: ?(?:and )?(\d{1,2}) ?(?:sec(?:ond)?s?|s)\b)?/gi;
+// "3 minutes in", "3 min 20 sec in"
+const MINUTES_IN_PATTERN =
+  /\b(\d{1,3}) ?(?:min(?:ute)?s?)(?: ?(?:and )?(\d{1,2}) ?(?:sec(?:ond)?s?))? in\b/gi;
+const COMPACT_PATTERN = /\b(\d{1,3})m ?(\d{1,2})s\b/gi;
+
+// phrases that point at the edit itself. ordinary words like "wrong", "edit"
+// or "jump" show up in plenty of comments that aren't about a mistake
+const EDITING_MISTAKE_PATTERN = new RegExp(
+  [
+    /(?:audio|sound|mic|voice) (?:cuts?|cutting|drops?|dropped|dropping|goes|went|is|was) (?:out|off|missing|gone|muted)/,
+    /(?:audio|sound|mic|voice) (?:glitch\w*|desync\w*|overlap\w*|echo\w*|stutter\w*)/,
+    /out of sync/,
+    /video (?:cuts?|cut) (?:out|off)/,
+    /black screen/,
+    /(?:video|screen|frame|picture) (?:froze|frozen|freezes)/,
+    /(?:blurry|out of focus)/,
+    /glitch(?:es|ed|y)?/,
+    /typo/,
+    /(?:said|says|played|plays|repeated|shown|shows) (?:\w+ ){0,3}twice/,
+    /repeats? (?:itself|the same)/,
+    /(?:editing|edit) (?:mistake|error|fail|glitch|slip)/,
+    /(?:left|kept) (?:that|this|it) in/,
+    /forgot to (?:cut|edit|remove|trim)/,
+    /(?:double|overlapping) audio/,
+  ]
+    .map((phrase) => `\\b${phrase.source}\\b`)
+    .join("|"),
+  "i"
+);
+
+export const errataReportSchema = z.object({
+  commentId: z.string().optional(),
+  text: z.string(),
+  authorName: z.string().optional(),
+  likeCount: z.number().optional(),
+  seconds: z.number(),
+  // the timestamp as the commenter wrote it
+  raw: z.string(),
+});
+
+export const errataEntrySchema = z.object({
+  timestamp: z.string(),
+  startSeconds: z.number(),
+  endSeconds: z.number(),
+  reportCount: z.number(),
+  // the most liked report for this spot
+  strongest: errataReportSchema,
+});
+
+export const errataTimelineSchema = z.object({
+  builtAt: z.string(),
+  durationSeconds: z.number().nullable(),
+  entries: z.array(errataEntrySchema),
+  // timestamps past the end of the video, most likely typos
+  rejected: z.array(errataReportSchema),
+});
+
+export type ErrataReport = z.infer<typeof errataReportSchema>;
+export type ErrataEntry = z.infer<typeof errataEntrySchema>;
+export type ErrataTimeline = z.infer<typeof errataTimelineSchema>;
+
+/**
+ * "PT1H2M3S" -> 3723. Returns null for anything that isn't an ISO 8601
+ * duration.
+ */
+export const parseIsoDuration = (duration: string) => {
+  const match = duration.match(
+    /^P(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+(?:\.\d+)?)S)?)?$/
+  );
+  if (!match || duration === "P" || duration.endsWith("T")) return null;
+
+  const [, days = "0", hours = "0", minutes = "0", seconds = "0"] = match;
+  return (
+    Number(days) * 86400 +
+    Number(hours) * 3600 +
+    Number(minutes) * 60 +
+    Math.floor(Number(seconds))
+  );
+};
+
+// 3723 -> "1:02:03", 222 -> "3:42"
+export const formatTimestamp = (totalSeconds: number) => {
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
+  const ss = String(seconds).padStart(2, "0");
+  return hours > 0
+    ? `${hours}:${String(minutes).padStart(2, "0")}:${ss}`
+    : `${minutes}:${ss}`;
+};
+
+/**
+ * Every timestamp in a comment, in the order they appear. Understands "3:42",
+ * "1:02:03", "at 3 min", "3 minutes in" and "3m20s".
+ */
+export const extractTimestamps = (text: string) => {
+  const found: Array<{ raw: string; seconds: number; index: number }> = [];
+
+  for (const match of text.matchAll(CLOCK_PATTERN)) {
+    const seconds = parseTimestamp(match[0]);
+    if (seconds !== null) {
+      found.push({ raw: match[0], seconds, index: match.index ?? 0 });
+    }
+  }
+
+  for (const pattern of [
+    AT_MINUTES_PATTERN,
+    MINUTES_IN_PATTERN,
+    COMPACT_PATTERN,
+  ]) {
+    for (const match of text.matchAll(pattern)) {
+      const minutes = Number(match[1]);
+      const seconds = Number(match[2] ?? 0);
+      if (seconds >= 60) continue;
+      found.push({
+        raw: match[0],
+        seconds: minutes * 60 + seconds,
+        index: match.index ?? 0,
+      });
+    }
+  }
+
+  return found
+    .sort((a, b) => a.index - b.index)
+    .map(({ raw, seconds }) => ({ raw, seconds }));
+};
+
+/**
+ * Turns a comment into errata reports, one per timestamp, if it reads like
+ * it's pointing out an editing mistake. Pass `assumeMistake` for comments
+ * already known to be about one.
+ */
+export const errataReportsFrom = (
+  comment: {
+    commentId?: string;
+    text: string;
+    authorName?: string;
+    likeCount?: number;
+  },
+  options: { assumeMistake?: boolean } = {}
+): ErrataReport[] => {
+  if (!options.assumeMistake && !EDITING_MISTAKE_PATTERN.test(comment.text)) {
+    return [];
+  }
+
+  return extractTimestamps(comment.text).map(({ raw, seconds }) => ({
+    commentId: comment.commentId,
+    text: comment.text,
+    authorName: comment.authorName,
+    likeCount: comment.likeCount,
+    seconds,
+    raw,
+  }));
+};
+
+/**
+ * Orders the reports into a timeline, merging reports within `windowSeconds`
+ * of the first report of an entry into that entry. Reports past the end of the video are set
+ * aside instead.
+ */
+export const buildErrataTimeline = (
+  reports: ErrataReport[],
+  options: { duration?: string | null; windowSeconds?: number } = {}
+): ErrataTimeline => {
+  const { windowSeconds = DEFAULT_WINDOW_SECONDS } = options;
+  const durationSeconds = options.duration
+    ? parseIsoDuration(options.duration)
+    : null;
+
+  // the same comment can come in more than once (tool calls, model flags)
+  const unique = new Map<string, ErrataReport>();
+  for (const report of reports) {
+    unique.set(`${report.commentId ?? report.text}@${report.seconds}`, report);
+  }
+
+  const valid: ErrataReport[] = [];
+  const rejected: ErrataReport[] = [];
+  for (const report of unique.values()) {
+    if (durationSeconds !== null && report.seconds > durationSeconds) {
+      rejected.push(report);
+    } else {
+      valid.push(report);
+    }
+  }
+
+  valid.sort((a, b) => a.seconds - b.seconds);
+
+  const groups: ErrataReport[][] = [];
+  for (const report of valid) {
+    // the window is measured from the group's first report, so a steady run
+    // of reports can't chain into one entry spanning minutes
+    const group = groups.at(-1);
+    const first = group?.[0];
+    if (group && first && report.seconds - first.seconds <= windowSeconds) {
+      group.push(report);
+    } else {
+      groups.push([report]);
+    }
+  }
+
+  const entries = groups.flatMap((group) => {
+    const first = group[0];
+    const last = group.at(-1);
+    if (!first || !last) return [];
+
+    const strongest = group.reduce((best, report) =>
+      (report.likeCount ?? 0) > (best.likeCount ?? 0) ? report : best
+    );
+    // people reporting the same thing twice in one comment only count once
+    const reporters = new Set(group.map((r) => r.commentId ?? r.text));
+
+    return [
+      {
+        timestamp: formatTimestamp(first.seconds),
+        startSeconds: first.seconds,
+        endSeconds: last.seconds,
+        reportCount: reporters.size,
+        strongest,
+      },
+    ];
+  });
+
+  return {
+    builtAt: new Date().toISOString(),
+    durationSeconds,
+    entries,
+    rejected,
+  };
+};
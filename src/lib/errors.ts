@@ -0,0 +1,145 @@
+import type { AgentResponse } from "@agentuity/sdk";
+import { TIMEOUT_ERROR } from "./concurrency";
+import { QUOTA_EXCEEDED_ERROR } from "./youtube-quota";
+
+/**
+ * Every error an agent can return. The code decides the status reported with
+ * it, the rest is what the caller (or the model, for tool calls) gets to see.
+ */
+export type AgentError =
+  | { code: "invalid_input"; message: string; issues?: unknown }
+  | { code: "video_not_found"; message: string; videoId?: string }
+  | { code: "channel_not_found"; message: string; channel?: string }
+  | { code: "comments_disabled"; message: string; videoId?: string }
+  | { code: "quota_exceeded"; message: string }
+  | { code: "youtube_unavailable"; message: string }
+  | { code: "llm_failed"; message: string }
+  | { code: "conflict"; message: string }
+  | { code: "timeout"; message: string }
+  | { code: "internal"; message: string };
+
+export type AgentErrorCode = AgentError["code"];
+
+// the HTTP status each code corresponds to. The SDK has no way to set the
+// status of an agent's response, so it's reported in the error envelope
+export const ERROR_STATUS: Record<AgentErrorCode, number> = {
+  invalid_input: 400,
+  video_not_found: 404,
+  channel_not_found: 404,
+  comments_disabled: 422,
+  quota_exceeded: 429,
+  youtube_unavailable: 502,
+  llm_failed: 502,
+  conflict: 409,
+  timeout: 504,
+  internal: 500,
+};
+
+/**
+ * Lets library code throw an AgentError and have it come out the other side
+ * of a try/catch or ResultAsync unchanged.
+ */
+export class AGENT_ERROR extends Error {
+  constructor(public readonly error: AgentError) {
+    super(error.message);
+    this.name = "AGENT_ERROR";
+  }
+}
+
+interface GoogleApiErrorLike {
+  code?: number | string;
+  status?: number;
+  response?: {
+    status?: number;
+    data?: { error?: { errors?: Array<{ reason?: string }> } };
+  };
+  errors?: Array<{ reason?: string }>;
+}
+
+const googleApiError = (e: unknown) => {
+  if (typeof e !== "object" || e === null) return null;
+  const err = e as GoogleApiErrorLike;
+
+  const status = err.response?.status ?? err.status ?? Number(err.code);
+  if (!Number.isFinite(status)) return null;
+
+  const reasons = (err.response?.data?.error?.errors ?? err.errors ?? [])
+    .map((r) => r.reason)
+    .filter((r): r is string => Boolean(r));
+
+  return { status, reasons };
+};
+
+/**
+ * Turns anything that was thrown into an AgentError. YouTube API failures are
+ * classified by their status and reason, anything unrecognised becomes
+ * `fallback`.
+ */
+export const toAgentError = (
+  e: unknown,
+  fallback: AgentError,
+  context: { videoId?: string } = {}
+): AgentError => {
+  if (e instanceof AGENT_ERROR) return e.error;
+  if (e instanceof TIMEOUT_ERROR) {
+    return { code: "timeout", message: e.message };
+  }
+  if (e instanceof QUOTA_EXCEEDED_ERROR) {
+    return { code: "quota_exceeded", message: e.message };
+  }
+
+  const apiError = googleApiError(e);
+  if (!apiError) return fallback;
+
+  const { status, reasons } = apiError;
+  const { videoId } = context;
+
+  if (reasons.includes("commentsDisabled")) {
+    return {
+      code: "comments_disabled",
+      message: `Comments are disabled${videoId ? ` for videoId: ${videoId}` : ""}`,
+      videoId,
+    };
+  }
+  if (
+    reasons.some((r) =>
+      ["quotaExceeded", "dailyLimitExceeded", "rateLimitExceeded"].includes(r)
+    )
+  ) {
+    return {
+      code: "quota_exceeded",
+      message: "YouTube API quota exhausted",
+    };
+  }
+  if (status === 404 || reasons.includes("videoNotFound")) {
+    return {
+      code: "video_not_found",
+      message: `Video not found${videoId ? `: ${videoId}` : ""}`,
+      videoId,
+    };
+  }
+  if (status >= 500) {
+    return {
+      code: "youtube_unavailable",
+      message: `YouTube API is unavailable (status ${status})`,
+    };
+  }
+
+  return fallback;
+};
+
+export const invalidInput = (
+  message: string,
+  issues?: unknown
+): AgentError => ({
+  code: "invalid_input",
+  message,
+  issues,
+});
+
+/**
+ * The one error envelope every agent responds with. The response itself is
+ * always sent as a 200, callers go by `success` and `status`.
+ */
+export const errorResponse = (resp: AgentResponse, error: AgentError) =>
+  resp.json({ success: false, status: ERROR_STATUS[error.code], error });
@@ -0,0 +1,213 @@
+import type { AgentContext } from "@agentuity/sdk";
+import { openai } from "@ai-sdk/openai";
+import { AISDKError, type LanguageModel } from "ai";
+import z from "zod";
+
+const KV_NAMESPACE = "model-config";
+
+type Model = Exclude<LanguageModel, string>;
+
+export type ModelProvider = (ref: ModelRef) => Model | Promise<Model>;
+
+// what the provider of a model ref can name, tests register their own
+const providers = new Map<string, ModelProvider>([
+  ["openai", (ref) => openai(ref.model)],
+]);
+
+export const registerModelProvider = (
+  name: string,
+  provider: ModelProvider
+) => {
+  providers.set(name, provider);
+};
+
+const modelRefSchema = z.object({
+  provider: z.string(),
+  model: z.string(),
+  reasoningEffort: z.enum(["minimal", "low", "medium", "high"]).optional(),
+});
+
+export const modelConfigSchema = modelRefSchema.extend({
+  maxSteps: z.number().int().min(1).max(100),
+  // tried in order when the model before them errors
+  fallbacks: z.array(modelRefSchema).default([]),
+});
+
+export type ModelRef = z.infer<typeof modelRefSchema>;
+export type ModelConfig = z.infer<typeof modelConfigSchema>;
+
+// "comments-watcher" -> "COMMENTS_WATCHER"
+const envPrefix = (agent: string) =>
+  agent.toUpperCase().replace(/[^A-Z0-9]/g, "_");
+
+// "openai:gpt-5-mini" -> { provider: "openai", model: "gpt-5-mini" }
+const parseModelRef = (value: string) => {
+  const [provider, ...rest] = value.trim().split(":");
+  return { provider, model: rest.join(":") };
+};
+
+/**
+ * Overrides for an agent's model from its env vars, e.g. for comments-watcher
+ * COMMENTS_WATCHER_MODEL=openai:gpt-5, COMMENTS_WATCHER_REASONING_EFFORT=medium,
+ * COMMENTS_WATCHER_MAX_STEPS=20 and
+ * COMMENTS_WATCHER_FALLBACK_MODELS=openai:gpt-5-mini,openai:gpt-4.1
+ */
+export const modelConfigFromEnv = (agent: string) => {
+  const prefix = envPrefix(agent);
+  const env = (name: string) => process.env[`${prefix}_${name}`] || undefined;
+
+  const model = env("MODEL");
+  const fallbacks = env("FALLBACK_MODELS");
+  const maxSteps = env("MAX_STEPS");
+
+  return Object.fromEntries(
+    Object.entries({
+      ...(model ? parseModelRef(model) : {}),
+      reasoningEffort: env("REASONING_EFFORT"),
+      maxSteps: maxSteps ? Number(maxSteps) : undefined,
+      fallbacks: fallbacks?.split(",").map(parseModelRef),
+    }).filter(([, value]) => value !== undefined)
+  );
+};
+
+/**
+ * The agent's model config: its defaults, overridden by env vars, overridden
+ * by whatever is stored in KV under the agent's name (so it can be changed
+ * without a deploy).
+ */
+export const readModelConfig = async (data: {
+  ctx: AgentContext;
+  agent: string;
+  defaults: z.input<typeof modelConfigSchema>;
+}): Promise<ModelConfig> => {
+  const { ctx, agent, defaults } = data;
+
+  let stored: object = {};
+  try {
+    const r = await ctx.kv.get(KV_NAMESPACE, agent);
+    if (r.exists) stored = await r.data.json();
+  } catch (e) {
+    ctx.logger.warn(`Failed to read the model config for ${agent}`, e);
+  }
+
+  return modelConfigSchema.parse({
+    ...defaults,
+    ...modelConfigFromEnv(agent),
+    ...stored,
+  });
+};
+
+const createModel = async (ref: ModelRef): Promise<Model> => {
+  const provider = providers.get(ref.provider);
+  if (!provider) throw new Error(`Unknown model provider: ${ref.provider}`);
+  return provider(ref);
+};
+
+const isAbortError = (e: unknown) =>
+  e instanceof Error && (e.name === "AbortError" || e.name === "TimeoutError");
+
+const providerOptionsFor = (
+  ref: ModelRef
+): Record<string, Record<string, string>> =>
+  ref.provider === "openai" && ref.reasoningEffort
+    ? { openai: { reasoningEffort: ref.reasoningEffort } }
+    : {};
+
+/**
+ * Chains models so a call that fails at the provider goes on to the next
+ * model. A call that was aborted, or failed for any other reason, isn't
+ * retried. A fallback with its own reasoning effort uses that instead of the
+ * primary's.
+ */
+const withFallbacks = (
+  entries: Array<{ ref: ModelRef; model: Model }>,
+  onFallback: (from: ModelRef, error: unknown) => void
+): Model => {
+  const [primary] = entries;
+  if (!primary) throw new Error("withFallbacks needs at least one model");
+  if (entries.length === 1) return primary.model;
+
+  const attempt = async <T>(
+    abortSignal: AbortSignal | undefined,
+    call: (model: Model, ref: ModelRef) => PromiseLike<T>
+  ) => {
+    let lastError: unknown;
+    for (const { ref, model } of entries) {
+      try {
+        return await call(model, ref);
+      } catch (e) {
+        // a stopped run stays stopped, whichever model it was on, and only
+        // the provider failing is reason to try another one
+        if (
+          abortSignal?.aborted ||
+          isAbortError(e) ||
+          !AISDKError.isInstance(e)
+        ) {
+          throw e;
+        }
+        lastError = e;
+        onFallback(ref, e);
+      }
+    }
+    throw lastError;
+  };
+
+  return {
+    specificationVersion: "v2",
+    provider: primary.model.provider,
+    modelId: primary.model.modelId,
+    supportedUrls: primary.model.supportedUrls,
+    doGenerate: (options) =>
+      attempt(options.abortSignal, (model, ref) =>
+        model.doGenerate({
+          ...options,
+          providerOptions: {
+            ...options.providerOptions,
+            ...providerOptionsFor(ref),
+          },
+        })
+      ),
+    doStream: (options) =>
+      attempt(options.abortSignal, (model, ref) =>
+        model.doStream({
+          ...options,
+          providerOptions: {
+            ...options.providerOptions,
+            ...providerOptionsFor(ref),
+          },
+        })
+      ),
+  };
+};
+
+/**
+ * Everything an agent needs for generateText: the model (with its fallbacks
+ * chained on) and the step limit.
+ */
+export const resolveModel = async (data: {
+  ctx: AgentContext;
+  agent: string;
+  defaults: z.input<typeof modelConfigSchema>;
+}) => {
+  const { ctx, agent } = data;
+  const config = await readModelConfig(data);
+
+  const refs = [config, ...config.fallbacks];
+  const entries = await Promise.all(
+    refs.map(async (ref) => ({ ref, model: await createModel(ref) }))
+  );
+
+  const model = withFallbacks(entries, (ref, error) => {
+    ctx.logger.warn(
+      `${agent}: ${ref.provider}:${ref.model} failed, trying the next model`,
+      error
+    );
+  });
+
+  return {
+    config,
+    model,
+    providerOptions: providerOptionsFor(config),
+    maxSteps: config.maxSteps,
+  };
+};
@@ -0,0 +1,351 @@
+import type { AgentContext } from "@agentuity/sdk";
+import z from "zod";
+import type { CommentPublisher, PublishedReply } from "./comment-publisher";
+import { withKeyLock } from "./concurrency";
+import { AGENT_ERROR } from "./errors";
+import type { CommentThread } from "./youtube-comments";
+
+const KV_NAMESPACE = "reply-drafts";
+const VIDEOS_KEY = "videos";
+
+// used when neither the request nor the channel's settings give a voice
+export const DEFAULT_REPLY_VOICE =
+  "Friendly, casual and brief, like the creator talking to a regular viewer. One to three sentences, no hashtags, at most one emoji, and no promises about future videos.";
+
+const QUESTION_START =
+  /^(who|what|when|where|why|how|which|can|could|does|do|did|is|are|was|were|will|would|should|any)\b/i;
+
+export const REPLY_DRAFT_STATUSES = [
+  "pending",
+  // publishing
+  "approved",
+  "published",
+  // approved, but publishing it failed. Can be approved again to retry
+  "failed",
+  "rejected",
+] as const;
+
+export const replyDraftSchema = z.object({
+  id: z.string(),
+  videoId: z.string(),
+  videoTitle: z.string(),
+  commentId: z.string(),
+  commentText: z.string(),
+  commentAuthor: z.string(),
+  commentLikes: z.number(),
+  draft: z.string(),
+  // what the model wrote, kept once a reviewer edits the draft
+  originalDraft: z.string().nullable(),
+  voice: z.string(),
+  status: z.enum(REPLY_DRAFT_STATUSES),
+  createdAt: z.string(),
+  updatedAt: z.string(),
+  reviewNote: z.string().nullable(),
+  publishedWith: z.string().nullable(),
+  publishedReplyId: z.string().nullable(),
+  publishError: z.string().nullable(),
+});
+
+export type ReplyDraft = z.infer<typeof replyDraftSchema>;
+export type ReplyDraftStatus = ReplyDraft["status"];
+
+export interface ReplyCandidate {
+  commentId: string;
+  text: string;
+  authorName: string;
+  likeCount: number;
+  replyCount: number;
+}
+
+// reviewers can still act on these
+const OPEN_STATUSES: ReplyDraftStatus[] = ["pending", "failed"];
+
+export const replyDraftId = (videoId: string, commentId: string) =>
+  `${videoId}:${commentId}`;
+
+export const isQuestion = (text: string) =>
+  text.includes("?") || QUESTION_START.test(text.trim());
+
+/**
+ * The top level comments worth a creator reply: questions nobody from the
+ * channel has answered yet, most liked first.
+ */
+export const selectReplyCandidates = (
+  threads: CommentThread[],
+  options: {
+    limit: number;
+    creatorChannelId?: string;
+    // comments that already have a draft
+    exclude?: Set<string>;
+  }
+): ReplyCandidate[] => {
+  const { limit, creatorChannelId, exclude = new Set() } = options;
+
+  return threads
+    .filter(
+      (thread) =>
+        !exclude.has(thread.commentId) &&
+        isQuestion(thread.text) &&
+        !(
+          creatorChannelId &&
+          (thread.authorChannelId === creatorChannelId ||
+            thread.replies.some((r) => r.authorChannelId === creatorChannelId))
+        )
+    )
+    .sort((a, b) => b.likeCount - a.likeCount || b.replyCount - a.replyCount)
+    .slice(0, limit)
+    .map((thread) => ({
+      commentId: thread.commentId,
+      text: thread.text,
+      authorName: thread.authorName,
+      likeCount: thread.likeCount,
+      replyCount: thread.replyCount,
+    }));
+};
+
+const draftsKey = (videoId: string) => `drafts/${videoId}`;
+
+// every change to a video's drafts runs under this, so two reviewers acting
+// on the same video don't overwrite each other (or publish a draft twice)
+const withDraftsLock = <T>(videoId: string, fn: () => Promise<T>) =>
+  withKeyLock(`${KV_NAMESPACE}/${draftsKey(videoId)}`, fn);
+
+const readVideos = async (ctx: AgentContext) => {
+  const r = await ctx.kv.get(KV_NAMESPACE, VIDEOS_KEY);
+  if (!r.exists) return [];
+
+  const parsed = z.array(z.string()).safeParse(await r.data.json());
+  return parsed.success ? parsed.data : [];
+};
+
+export const readVideoReplyDrafts = async (
+  ctx: AgentContext,
+  videoId: string
+) => {
+  const r = await ctx.kv.get(KV_NAMESPACE, draftsKey(videoId));
+  if (!r.exists) return [];
+
+  const parsed = z.array(replyDraftSchema).safeParse(await r.data.json());
+  return parsed.success ? parsed.data : [];
+};
+
+const writeVideoReplyDrafts = async (
+  ctx: AgentContext,
+  videoId: string,
+  drafts: ReplyDraft[]
+) => {
+  await ctx.kv.set(KV_NAMESPACE, draftsKey(videoId), JSON.stringify(drafts), {
+    contentType: "application/json",
+  });
+
+  await withKeyLock(`${KV_NAMESPACE}/${VIDEOS_KEY}`, async () => {
+    const videos = await readVideos(ctx);
+    if (!videos.includes(videoId)) {
+      await ctx.kv.set(
+        KV_NAMESPACE,
+        VIDEOS_KEY,
+        JSON.stringify([...videos, videoId]),
+        { contentType: "application/json" }
+      );
+    }
+  });
+};
+
+/**
+ * Drafts across every video (or just `videoId`), newest first.
+ */
+export const listReplyDrafts = async (
+  ctx: AgentContext,
+  filter: { videoId?: string; status?: ReplyDraftStatus } = {}
+) => {
+  const videoIds = filter.videoId ? [filter.videoId] : await readVideos(ctx);
+
+  const drafts: ReplyDraft[] = [];
+  for (const videoId of videoIds) {
+    drafts.push(...(await readVideoReplyDrafts(ctx, videoId)));
+  }
+
+  return drafts
+    .filter((d) => !filter.status || d.status === filter.status)
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+};
+
+/**
+ * Adds new drafts to the queue as pending. Comments that already have a
+ * draft, in any state, are left alone.
+ */
+export const queueReplyDrafts = (
+  ctx: AgentContext,
+  videoId: string,
+  drafts: Array<
+    Pick<
+      ReplyDraft,
+      | "videoTitle"
+      | "commentId"
+      | "commentText"
+      | "commentAuthor"
+      | "commentLikes"
+      | "draft"
+      | "voice"
+    >
+  >
+) =>
+  withDraftsLock(videoId, async () => {
+    const existing = await readVideoReplyDrafts(ctx, videoId);
+    const seen = new Set(existing.map((d) => d.commentId));
+    const now = new Date().toISOString();
+
+    const queued: ReplyDraft[] = drafts
+      .filter((d) => !seen.has(d.commentId))
+      .map((d) => ({
+        ...d,
+        id: replyDraftId(videoId, d.commentId),
+        videoId,
+        originalDraft: null,
+        status: "pending",
+        createdAt: now,
+        updatedAt: now,
+        reviewNote: null,
+        publishedWith: null,
+        publishedReplyId: null,
+        publishError: null,
+      }));
+
+    if (queued.length > 0) {
+      await writeVideoReplyDrafts(ctx, videoId, [...existing, ...queued]);
+    }
+    return queued;
+  });
+
+/**
+ * Applies `change` to the draft as it's stored now and saves it, whatever
+ * its status. `change` can throw to leave the draft as it is.
+ */
+const updateDraft = (
+  ctx: AgentContext,
+  id: string,
+  change: (draft: ReplyDraft) => Partial<ReplyDraft>
+) => {
+  const [videoId = ""] = id.split(":", 1);
+
+  return withDraftsLock(videoId, async () => {
+    const drafts = await readVideoReplyDrafts(ctx, videoId);
+    const draft = drafts.find((d) => d.id === id);
+    if (!draft) {
+      throw new AGENT_ERROR({
+        code: "invalid_input",
+        message: `No reply draft ${id}`,
+      });
+    }
+
+    const updated: ReplyDraft = {
+      ...draft,
+      ...change(draft),
+      updatedAt: new Date().toISOString(),
+    };
+    await writeVideoReplyDrafts(
+      ctx,
+      videoId,
+      drafts.map((d) => (d.id === id ? updated : d))
+    );
+    return updated;
+  });
+};
+
+/**
+ * Applies `change` to an open draft and saves it.
+ */
+const updateOpenDraft = (
+  ctx: AgentContext,
+  id: string,
+  change: (draft: ReplyDraft) => Partial<ReplyDraft>
+) =>
+  updateDraft(ctx, id, (draft) => {
+    if (!OPEN_STATUSES.includes(draft.status)) {
+      throw new AGENT_ERROR({
+        code: "conflict",
+        message: `Reply draft ${id} is already ${draft.status}`,
+      });
+    }
+    return change(draft);
+  });
+
+const withText = (draft: ReplyDraft, text: string): Partial<ReplyDraft> =>
+  text === draft.draft
+    ? {}
+    : { draft: text, originalDraft: draft.originalDraft ?? draft.draft };
+
+export const editReplyDraft = (ctx: AgentContext, id: string, text: string) =>
+  updateOpenDraft(ctx, id, (draft) => withText(draft, text));
+
+export const rejectReplyDraft = (
+  ctx: AgentContext,
+  id: string,
+  reason?: string
+) =>
+  updateOpenDraft(ctx, id, () => ({
+    status: "rejected",
+    reviewNote: reason ?? null,
+  }));
+
+/**
+ * Approves a draft (with the reviewer's final text, if given) and publishes
+ * it. The draft is saved as approved before publishing, so a second approval
+ * of it is refused rather than posting the reply again. A draft that fails to
+ * publish is kept as failed with the error, so it can be approved again. Once
+ * the reply is up the draft is never published again, even if saving that it
+ * was fails.
+ */
+export const approveReplyDraft = async (data: {
+  ctx: AgentContext;
+  id: string;
+  publisher: CommentPublisher;
+  text?: string;
+}) => {
+  const { ctx, id, publisher, text } = data;
+
+  const approved = await updateOpenDraft(ctx, id, (draft) => {
+    if (draft.publishedReplyId) {
+      throw new AGENT_ERROR({
+        code: "conflict",
+        message: `Reply draft ${id} is already published as ${draft.publishedReplyId}`,
+      });
+    }
+    return {
+      ...(text !== undefined ? withText(draft, text) : {}),
+      status: "approved",
+      publishError: null,
+    };
+  });
+
+  let reply: PublishedReply;
+  try {
+    reply = await publisher.publishReply({
+      parentId: approved.commentId,
+      text: approved.draft,
+    });
+  } catch (e) {
+    ctx.logger.error(`Failed to publish reply draft ${id}`, e);
+    await updateDraft(ctx, id, () => ({
+      status: "failed",
+      publishError: e instanceof Error ? e.message : String(e),
+    }));
+    throw e;
+  }
+
+  // the reply is public now. If this write fails the draft stays approved,
+  // which can't be approved (and published) again
+  try {
+    return await updateDraft(ctx, id, () => ({
+      status: "published",
+      publishedWith: publisher.name,
+      publishedReplyId: reply.commentId,
+    }));
+  } catch (e) {
+    ctx.logger.error(
+      `Published reply draft ${id} as ${reply.commentId} but failed to save it`,
+      e
+    );
+    throw e;
+  }
+};
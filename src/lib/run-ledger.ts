@@ -0,0 +1,403 @@
+import { randomUUID } from "node:crypto";
+import type { AgentContext } from "@agentuity/sdk";
+import type { LanguageModelUsage, StepResult, ToolSet } from "ai";
+import z from "zod";
+import { withKeyLock } from "./concurrency";
+import { quotaDay } from "./youtube-quota";
+
+const KV_NAMESPACE = "run-ledger";
+const AGENTS_KEY = "agents";
+// tool inputs are kept for debugging, but not whole transcripts
+const MAX_INPUT_CHARS = 2000;
+
+// USD per million tokens, extended or overridden by the MODEL_PRICES env var
+// (same shape, JSON)
+const DEFAULT_PRICES: Record<string, ModelPrice> = {
+  "gpt-5": { input: 1.25, cachedInput: 0.125, output: 10 },
+  "gpt-5-mini": { input: 0.25, cachedInput: 0.025, output: 2 },
+  "gpt-5-nano": { input: 0.05, cachedInput: 0.005, output: 0.4 },
+  "gpt-4.1": { input: 2, cachedInput: 0.5, output: 8 },
+  "gpt-4.1-mini": { input: 0.4, cachedInput: 0.1, output: 1.6 },
+};
+
+const modelPriceSchema = z.object({
+  input: z.number(),
+  cachedInput: z.number().optional(),
+  output: z.number(),
+});
+
+export type ModelPrice = z.infer<typeof modelPriceSchema>;
+
+const usageSchema = z.object({
+  inputTokens: z.number(),
+  outputTokens: z.number(),
+  totalTokens: z.number(),
+  reasoningTokens: z.number(),
+  cachedInputTokens: z.number(),
+});
+
+export const toolCallRecordSchema = z.object({
+  toolCallId: z.string(),
+  toolName: z.string(),
+  input: z.string(),
+  outputBytes: z.number().nullable(),
+  error: z.string().optional(),
+});
+
+export const stepRecordSchema = z.object({
+  step: z.number(),
+  finishedAt: z.string(),
+  model: z.string(),
+  finishReason: z.string(),
+  toolCalls: z.array(toolCallRecordSchema),
+  usage: usageSchema,
+});
+
+export const runRecordSchema = z.object({
+  runId: z.string(),
+  agent: z.string(),
+  trigger: z.string(),
+  startedAt: z.string(),
+  finishedAt: z.string(),
+  durationMs: z.number(),
+  status: z.enum(["succeeded", "failed"]),
+  error: z.string().optional(),
+  model: z.string().nullable(),
+  steps: z.array(stepRecordSchema),
+  usage: usageSchema,
+  // null when a model used in the run isn't in the price table
+  costUsd: z.number().nullable(),
+});
+
+export type RunUsage = z.infer<typeof usageSchema>;
+export type ToolCallRecord = z.infer<typeof toolCallRecordSchema>;
+export type StepRecord = z.infer<typeof stepRecordSchema>;
+export type RunRecord = z.infer<typeof runRecordSchema>;
+
+/**
+ * The price table, with the entries in MODEL_PRICES on top. A MODEL_PRICES
+ * that doesn't parse is ignored (with a warning to `logger`), a bad env var
+ * shouldn't stop the agents from running.
+ */
+export const modelPrices = (
+  logger?: AgentContext["logger"]
+): Record<string, ModelPrice> => {
+  const raw = process.env.MODEL_PRICES;
+  if (!raw) return DEFAULT_PRICES;
+
+  let json: unknown;
+  try {
+    json = JSON.parse(raw);
+  } catch (e) {
+    logger?.warn("MODEL_PRICES is not valid JSON, using the default prices", e);
+    return DEFAULT_PRICES;
+  }
+
+  const parsed = z.record(z.string(), modelPriceSchema).safeParse(json);
+  if (!parsed.success) {
+    logger?.warn(
+      "MODEL_PRICES is not a valid price table, using the default prices",
+      parsed.error.issues
+    );
+    return DEFAULT_PRICES;
+  }
+  return { ...DEFAULT_PRICES, ...parsed.data };
+};
+
+const emptyUsage = (): RunUsage => ({
+  inputTokens: 0,
+  outputTokens: 0,
+  totalTokens: 0,
+  reasoningTokens: 0,
+  cachedInputTokens: 0,
+});
+
+const toRunUsage = (usage: LanguageModelUsage): RunUsage => ({
+  inputTokens: usage.inputTokens ?? 0,
+  outputTokens: usage.outputTokens ?? 0,
+  totalTokens: usage.totalTokens ?? 0,
+  reasoningTokens: usage.reasoningTokens ?? 0,
+  cachedInputTokens: usage.cachedInputTokens ?? 0,
+});
+
+const addUsage = (into: RunUsage, usage: RunUsage) => {
+  into.inputTokens += usage.inputTokens;
+  into.outputTokens += usage.outputTokens;
+  into.totalTokens += usage.totalTokens;
+  into.reasoningTokens += usage.reasoningTokens;
+  into.cachedInputTokens += usage.cachedInputTokens;
+};
+
+/**
+ * Estimated cost of a step in USD. Cached input tokens are billed at the
+ * cached rate when the model has one, reasoning tokens are already part of
+ * the output tokens.
+ */
+export const estimateCost = (
+  model: string,
+  usage: RunUsage,
+  prices: Record<string, ModelPrice> = modelPrices()
+) => {
+  // also covers the scripted models in the tests, which report no usage
+  if (usage.inputTokens === 0 && usage.outputTokens === 0) return 0;
+
+  const price = prices[model];
+  if (!price) return null;
+
+  const cached = price.cachedInput !== undefined ? usage.cachedInputTokens : 0;
+  const uncached = usage.inputTokens - cached;
+  return (
+    (uncached * price.input +
+      cached * (price.cachedInput ?? price.input) +
+      usage.outputTokens * price.output) /
+    1_000_000
+  );
+};
+
+const byteLength = (value: unknown) =>
+  value === undefined ? null : Buffer.byteLength(JSON.stringify(value) ?? "");
+
+const truncate = (text: string) =>
+  text.length > MAX_INPUT_CHARS
+    ? `${text.slice(0, MAX_INPUT_CHARS)}... (${text.length} chars)`
+    : text;
+
+const runsKey = (date: string, agent: string) => `runs/${date}/${agent}`;
+
+const readRuns = async (ctx: AgentContext, date: string, agent: string) => {
+  const r = await ctx.kv.get(KV_NAMESPACE, runsKey(date, agent));
+  if (!r.exists) return [];
+
+  const parsed = z.array(runRecordSchema).safeParse(await r.data.json());
+  return parsed.success ? parsed.data : [];
+};
+
+const readAgents = async (ctx: AgentContext) => {
+  const r = await ctx.kv.get(KV_NAMESPACE, AGENTS_KEY);
+  if (!r.exists) return [];
+
+  const parsed = z.array(z.string()).safeParse(await r.data.json());
+  return parsed.success ? parsed.data : [];
+};
+
+// concurrent runs (a batch of snapshots) append to the same keys
+const appendRun = async (ctx: AgentContext, run: RunRecord) => {
+  const date = quotaDay(new Date(run.startedAt));
+  const key = runsKey(date, run.agent);
+
+  await withKeyLock(`${KV_NAMESPACE}/${key}`, async () => {
+    const runs = await readRuns(ctx, date, run.agent);
+    runs.push(run);
+    await ctx.kv.set(KV_NAMESPACE, key, JSON.stringify(runs), {
+      contentType: "application/json",
+    });
+  });
+
+  await withKeyLock(`${KV_NAMESPACE}/${AGENTS_KEY}`, async () => {
+    const agents = await readAgents(ctx);
+    if (!agents.includes(run.agent)) {
+      await ctx.kv.set(
+        KV_NAMESPACE,
+        AGENTS_KEY,
+        JSON.stringify([...agents, run.agent]),
+        { contentType: "application/json" }
+      );
+    }
+  });
+};
+
+/**
+ * Follows one agent run. Pass `onStepFinish` to generateText, then call
+ * `finish` once the run is over to write it to the ledger. Every step is also
+ * logged with structured fields as it finishes.
+ */
+export const createRunTracker = (data: {
+  ctx: AgentContext;
+  agent: string;
+  trigger?: string;
+  runId?: string;
+}) => {
+  const { ctx, agent } = data;
+  const runId = data.runId ?? randomUUID();
+  const trigger = data.trigger ?? "unknown";
+  const startedAt = new Date();
+  const steps: StepRecord[] = [];
+  const prices = modelPrices(ctx.logger);
+
+  const onStepFinish = <TOOLS extends ToolSet>(step: StepResult<TOOLS>) => {
+    const outputs = new Map(
+      step.toolResults.map((result) => [result.toolCallId, result.output])
+    );
+    const errors = new Map(
+      step.content.flatMap((part) =>
+        part.type === "tool-error"
+          ? [[part.toolCallId, String(part.error)] as const]
+          : []
+      )
+    );
+
+    const record: StepRecord = {
+      step: steps.length + 1,
+      finishedAt: new Date().toISOString(),
+      model: step.response.modelId,
+      finishReason: step.finishReason,
+      toolCalls: step.toolCalls.map((call) => ({
+        toolCallId: call.toolCallId,
+        toolName: call.toolName,
+        input: truncate(JSON.stringify(call.input) ?? ""),
+        outputBytes: byteLength(outputs.get(call.toolCallId)),
+        error: errors.get(call.toolCallId),
+      })),
+      usage: toRunUsage(step.usage),
+    };
+    steps.push(record);
+
+    ctx.logger.info("step finished", {
+      agent,
+      runId,
+      step: record.step,
+      finishReason: record.finishReason,
+      toolCalls: record.toolCalls.map((c) => ({
+        toolName: c.toolName,
+        outputBytes: c.outputBytes,
+        error: c.error,
+      })),
+      usage: record.usage,
+    });
+  };
+
+  const finish = async (result: {
+    status: "succeeded" | "failed";
+    error?: unknown;
+  }) => {
+    const finishedAt = new Date();
+    const usage = emptyUsage();
+    let costUsd: number | null = 0;
+    for (const step of steps) {
+      addUsage(usage, step.usage);
+      const cost = estimateCost(step.model, step.usage, prices);
+      costUsd = cost === null || costUsd === null ? null : costUsd + cost;
+    }
+
+    const run: RunRecord = {
+      runId,
+      agent,
+      trigger,
+      startedAt: startedAt.toISOString(),
+      finishedAt: finishedAt.toISOString(),
+      durationMs: finishedAt.getTime() - startedAt.getTime(),
+      status: result.status,
+      error:
+        result.error === undefined
+          ? undefined
+          : result.error instanceof Error
+            ? result.error.message
+            : String(result.error),
+      model: steps[0]?.model ?? null,
+      steps,
+      usage,
+      costUsd: costUsd === null ? null : Math.round(costUsd * 1e6) / 1e6,
+    };
+
+    ctx.logger.info("run finished", {
+      agent,
+      runId,
+      trigger,
+      status: run.status,
+      steps: steps.length,
+      durationMs: run.durationMs,
+      usage,
+      costUsd: run.costUsd,
+    });
+
+    // the ledger is bookkeeping, losing an entry mustn't fail the run
+    await appendRun(ctx, run).catch((e: unknown) => {
+      ctx.logger.error(`Failed to write run ${runId} to the ledger`, e);
+    });
+
+    return run;
+  };
+
+  return { runId, onStepFinish, finish };
+};
+
+export interface AgentRunTotals {
+  agent: string;
+  runs: number;
+  failed: number;
+  steps: number;
+  toolCalls: number;
+  usage: RunUsage;
+  costUsd: number;
+  // runs whose cost couldn't be estimated aren't in costUsd
+  unpricedRuns: number;
+  avgDurationMs: number;
+}
+
+/**
+ * Runs from the `days` days ending at `until`, newest first, with totals per
+ * agent.
+ */
+export const getRunReport = async (
+  ctx: AgentContext,
+  options: {
+    days?: number;
+    until?: Date;
+    agent?: string;
+    limit?: number;
+    includeSteps?: boolean;
+  } = {}
+) => {
+  const {
+    days = 1,
+    until = new Date(),
+    limit = 50,
+    includeSteps = false,
+  } = options;
+
+  const agents = options.agent ? [options.agent] : await readAgents(ctx);
+  const runs: RunRecord[] = [];
+  for (let i = 0; i < days; i++) {
+    const date = quotaDay(new Date(until.getTime() - i * 24 * 60 * 60 * 1000));
+    for (const agent of agents) {
+      runs.push(...(await readRuns(ctx, date, agent)));
+    }
+  }
+  runs.sort((a, b) => b.startedAt.localeCompare(a.startedAt));
+
+  const totals = new Map<string, AgentRunTotals & { durationMs: number }>();
+  for (const run of runs) {
+    const t = totals.get(run.agent) ?? {
+      agent: run.agent,
+      runs: 0,
+      failed: 0,
+      steps: 0,
+      toolCalls: 0,
+      usage: emptyUsage(),
+      costUsd: 0,
+      unpricedRuns: 0,
+      avgDurationMs: 0,
+      durationMs: 0,
+    };
+    t.runs += 1;
+    if (run.status === "failed") t.failed += 1;
+    t.steps += run.steps.length;
+    t.toolCalls += run.steps.reduce((n, s) => n + s.toolCalls.length, 0);
+    addUsage(t.usage, run.usage);
+    if (run.costUsd === null) t.unpricedRuns += 1;
+    else t.costUsd += run.costUsd;
+    t.durationMs += run.durationMs;
+    totals.set(run.agent, t);
+  }
+
+  return {
+    totals: [...totals.values()].map(({ durationMs, ...t }) => ({
+      ...t,
+      costUsd: Math.round(t.costUsd * 1e6) / 1e6,
+      avgDurationMs: Math.round(durationMs / t.runs),
+    })),
+    runs: runs
+      .slice(0, limit)
+      .map((run) => (includeSteps ? run : { ...run, steps: undefined })),
+  };
+};
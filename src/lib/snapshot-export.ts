@@ -0,0 +1,247 @@
+import type { StatsRecord } from "./snapshot-history";
+import {
+  describeTranscriptCheck,
+  FLAG_HEADINGS,
+  type FlaggedComment,
+  renderSnapshotMarkdown,
+  type VideoSnapshot,
+  videoUrl,
+} from "./video-snapshot";
+
+export const EXPORT_FORMATS = ["json", "csv", "markdown", "html"] as const;
+
+export type ExportFormat = (typeof EXPORT_FORMATS)[number];
+
+export const EXPORT_CONTENT_TYPES: Record<ExportFormat, string> = {
+  json: "application/json",
+  csv: "text/csv; charset=utf-8",
+  markdown: "text/markdown; charset=utf-8",
+  html: "text/html; charset=utf-8",
+};
+
+/**
+ * Everything stored about one video. `legacyMarkdown` is a comments-watcher
+ * memory from before snapshots were structured, `memory` is
+ * legacy-channel-bot's notes on the video.
+ */
+export interface ExportedVideo {
+  videoId: string;
+  snapshot: VideoSnapshot | null;
+  legacyMarkdown: string | null;
+  history: StatsRecord[];
+  memory: string | null;
+}
+
+export const exportJson = (videos: ExportedVideo[], exportedAt: Date) => ({
+  exportedAt: exportedAt.toISOString(),
+  videos,
+});
+
+const CSV_COLUMNS = [
+  "videoId",
+  "title",
+  "channel",
+  "publishedAt",
+  "url",
+  "takenAt",
+  "viewCount",
+  "likeCount",
+  "commentCount",
+  "sentiment",
+  "flaggedComments",
+  "sponsors",
+  "errata",
+] as const;
+
+const csvCell = (value: string | number | null | undefined) => {
+  if (value === null || value === undefined) return "";
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/**
+ * One row per recorded snapshot of every video. Sentiment, flags, sponsors and
+ * errata only exist for the latest snapshot, so they're only filled in on
+ * each video's last row.
+ */
+export const exportCsv = (videos: ExportedVideo[]) => {
+  const rows: string[] = [CSV_COLUMNS.join(",")];
+
+  for (const { videoId, snapshot, history } of videos) {
+    // videos snapshotted before the history was kept only have their latest
+    const records =
+      history.length > 0
+        ? history
+        : snapshot
+          ? [{ takenAt: snapshot.takenAt, ...snapshot.stats }]
+          : [];
+
+    for (const [i, record] of records.entries()) {
+      const latest = i === records.length - 1 ? snapshot : null;
+      const row: Record<(typeof CSV_COLUMNS)[number], string | number | null> =
+        {
+          videoId,
+          title: snapshot?.video.title ?? null,
+          channel: snapshot?.video.channelTitle ?? null,
+          publishedAt: snapshot?.video.publishedAt ?? null,
+          url: videoUrl(videoId),
+          takenAt: record.takenAt,
+          viewCount: record.viewCount,
+          likeCount: record.likeCount,
+          commentCount: record.commentCount,
+          sentiment: latest?.sentiment.overall ?? null,
+          flaggedComments: latest?.flaggedComments.length ?? null,
+          sponsors: latest?.sponsors.map((s) => s.name).join("; ") ?? null,
+          errata: latest?.errata?.entries.length ?? null,
+        };
+      rows.push(CSV_COLUMNS.map((column) => csvCell(row[column])).join(","));
+    }
+  }
+
+  return `${rows.join("\r\n")}\r\n`;
+};
+
+export const exportMarkdown = (videos: ExportedVideo[], exportedAt: Date) => {
+  const sections = videos.map((video) => {
+    const body = video.snapshot
+      ? renderSnapshotMarkdown(video.snapshot)
+      : (video.legacyMarkdown ?? `# ${video.videoId}\n`);
+    return video.memory
+      ? `${body}\n## Channel bot notes\n\n${video.memory}\n`
+      : body;
+  });
+
+  return [
+    `_Exported ${videos.length} video${videos.length === 1 ? "" : "s"} at ${exportedAt.toISOString()}_\n`,
+    ...sections,
+  ].join("\n---\n\n");
+};
+
+const escapeHtml = (text: string) =>
+  text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+
+const HTML_STYLE = `
+body { font-family: system-ui, sans-serif; max-width: 960px; margin: 2rem auto; padding: 0 1rem; color: #1f2328; }
+table { border-collapse: collapse; width: 100%; }
+th, td { border: 1px solid #d0d7de; padding: 0.4rem 0.6rem; text-align: left; }
+th { background: #f6f8fa; }
+td.number { text-align: right; font-variant-numeric: tabular-nums; }
+blockquote { margin: 0.5rem 0; padding-left: 0.8rem; border-left: 3px solid #d0d7de; color: #59636e; }
+.meta { color: #59636e; font-size: 0.9em; }
+`;
+
+const renderFlaggedHtml = (flagged: FlaggedComment[]) => {
+  if (flagged.length === 0) return "<p>Nothing flagged.</p>";
+
+  return (Object.keys(FLAG_HEADINGS) as Array<FlaggedComment["category"]>)
+    .map((category) => {
+      const comments = flagged.filter((c) => c.category === category);
+      if (comments.length === 0) return "";
+
+      const items = comments.map((comment) => {
+        const meta = [
+          comment.sponsor,
+          comment.theme,
+          comment.authorName,
+          comment.likeCount !== undefined ? `${comment.likeCount} likes` : null,
+        ]
+          .filter(Boolean)
+          .join(", ");
+        return [
+          `<li><blockquote>${escapeHtml(comment.text)}</blockquote>`,
+          meta ? `<span class="meta">${escapeHtml(meta)}</span>` : "",
+          comment.note ? `<p>${escapeHtml(comment.note)}</p>` : "",
+          comment.transcriptCheck
+            ? `<p class="meta">Transcript: ${escapeHtml(describeTranscriptCheck(comment.transcriptCheck))}</p>`
+            : "",
+          "</li>",
+        ].join("");
+      });
+      return `<h4>${FLAG_HEADINGS[category]}</h4><ul>${items.join("")}</ul>`;
+    })
+    .join("\n");
+};
+
+/**
+ * A standalone page (no external assets) with a stats table of every video
+ * and each video's flagged comments, for sharing outside the team.
+ */
+export const exportHtml = (
+  videos: ExportedVideo[],
+  exportedAt: Date,
+  title = "Video snapshots"
+) => {
+  const snapshots = videos.flatMap((v) => (v.snapshot ? [v.snapshot] : []));
+
+  const rows = snapshots.map(
+    (s) =>
+      `<tr><td><a href="${escapeHtml(s.video.url)}">${escapeHtml(s.video.title)}</a></td>` +
+      `<td>${escapeHtml(s.video.channelTitle)}</td>` +
+      `<td>${escapeHtml(s.video.publishedAt.slice(0, 10))}</td>` +
+      `<td class="number">${s.stats.viewCount}</td>` +
+      `<td class="number">${s.stats.likeCount}</td>` +
+      `<td class="number">${s.stats.commentCount}</td>` +
+      `<td>${s.sentiment.overall}</td>` +
+      `<td class="number">${s.flaggedComments.length}</td>` +
+      `<td>${escapeHtml(s.takenAt)}</td></tr>`
+  );
+
+  const sections = videos.flatMap(({ snapshot: s, memory }) =>
+    s
+      ? [
+          [
+            `<section id="${escapeHtml(s.videoId)}">`,
+            `<h3><a href="${escapeHtml(s.video.url)}">${escapeHtml(s.video.title)}</a></h3>`,
+            `<p>${escapeHtml(s.sentiment.summary)}</p>`,
+            renderFlaggedHtml(s.flaggedComments),
+            memory
+              ? `<h4>Channel bot notes</h4><pre>${escapeHtml(memory)}</pre>`
+              : "",
+            "</section>",
+          ].join("\n"),
+        ]
+      : []
+  );
+
+  // legacy memories have no structure to put in the table
+  const unstructured = videos.filter((v) => !v.snapshot);
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeHtml(title)}</title>
+<style>${HTML_STYLE}</style>
+</head>
+<body>
+<h1>${escapeHtml(title)}</h1>
+<p class="meta">Exported ${videos.length} video${videos.length === 1 ? "" : "s"} at ${exportedAt.toISOString()}</p>
+<h2>Stats</h2>
+<table>
+<thead><tr><th>Video</th><th>Channel</th><th>Published</th><th>Views</th><th>Likes</th><th>Comments</th><th>Sentiment</th><th>Flagged</th><th>Snapshot</th></tr></thead>
+<tbody>
+${rows.join("\n")}
+</tbody>
+</table>
+<h2>Flagged comments</h2>
+${sections.join("\n") || "<p>No snapshots.</p>"}
+${
+  unstructured.length > 0
+    ? `<h2>Other notes</h2>\n${unstructured
+        .map(
+          (v) =>
+            `<h3>${escapeHtml(v.videoId)}</h3><pre>${escapeHtml(v.legacyMarkdown ?? v.memory ?? "")}</pre>`
+        )
+        .join("\n")}`
+    : ""
+}
+</body>
+</html>
+`;
+};
@@ -0,0 +1,128 @@
+import type { AgentContext } from "@agentuity/sdk";
+import z from "zod";
+
+const HOUR_MS = 60 * 60 * 1000;
+
+export const statsRecordSchema = z.object({
+  takenAt: z.string(),
+  viewCount: z.number(),
+  likeCount: z.number(),
+  commentCount: z.number(),
+});
+
+const windowDeltaSchema = z.object({
+  fromTakenAt: z.string(),
+  hours: z.number(),
+  views: z.number(),
+  likes: z.number(),
+  comments: z.number(),
+  viewsPerHour: z.number(),
+});
+
+export const statsDeltasSchema = z.object({
+  computedAt: z.string(),
+  hoursSincePublish: z.number(),
+  viewsPerHourSincePublish: z.number(),
+  sinceLastSnapshot: windowDeltaSchema.nullable(),
+  last24h: windowDeltaSchema.nullable(),
+  snapshotCount: z.number(),
+});
+
+export type StatsRecord = z.infer<typeof statsRecordSchema>;
+export type WindowDelta = z.infer<typeof windowDeltaSchema>;
+export type StatsDeltas = z.infer<typeof statsDeltasSchema>;
+
+const historyKey = (videoId: string) => `${videoId}/history`;
+
+const round = (n: number) => Math.round(n * 100) / 100;
+
+export const readStatsHistory = async (data: {
+  ctx: AgentContext;
+  namespace: string;
+  videoId: string;
+}): Promise<StatsRecord[]> => {
+  const { ctx, namespace, videoId } = data;
+
+  const r = await ctx.kv.get(namespace, historyKey(videoId));
+  if (!r.exists) return [];
+
+  const parsed = z.array(statsRecordSchema).safeParse(await r.data.json());
+  if (!parsed.success) {
+    ctx.logger.warn(`Ignoring malformed stats history for ${videoId}`);
+    return [];
+  }
+
+  return parsed.data;
+};
+
+/**
+ * Adds a record to the end of the video's history. Records are never
+ * rewritten, so the history is a time series of every run.
+ */
+export const appendStatsRecord = async (data: {
+  ctx: AgentContext;
+  namespace: string;
+  videoId: string;
+  record: StatsRecord;
+}) => {
+  const { ctx, namespace, videoId, record } = data;
+
+  const history = await readStatsHistory({ ctx, namespace, videoId });
+  history.push(record);
+
+  await ctx.kv.set(namespace, historyKey(videoId), JSON.stringify(history), {
+    contentType: "application/json",
+  });
+
+  return history;
+};
+
+const windowDelta = (from: StatsRecord, to: StatsRecord): WindowDelta => {
+  const hours = (Date.parse(to.takenAt) - Date.parse(from.takenAt)) / HOUR_MS;
+  const views = to.viewCount - from.viewCount;
+
+  return {
+    fromTakenAt: from.takenAt,
+    hours: round(hours),
+    views,
+    likes: to.likeCount - from.likeCount,
+    comments: to.commentCount - from.commentCount,
+    viewsPerHour: hours > 0 ? round(views / hours) : 0,
+  };
+};
+
+/**
+ * Computes the deltas for `current` against the records that came before it.
+ * `history` must be in the order it was appended and must not contain
+ * `current` itself.
+ */
+export const computeStatsDeltas = (data: {
+  history: StatsRecord[];
+  current: StatsRecord;
+  publishedAt: string;
+}): StatsDeltas => {
+  const { history, current, publishedAt } = data;
+  const now = Date.parse(current.takenAt);
+
+  const hoursSincePublish = Math.max(
+    0,
+    (now - Date.parse(publishedAt)) / HOUR_MS
+  );
+
+  const previous = history.at(-1);
+
+  // the newest record that is at least a day old, without one there is no
+  // 24h window to report (sinceLastSnapshot still covers young videos)
+  const dayAgo = now - 24 * HOUR_MS;
+  const baseline = history.findLast((r) => Date.parse(r.takenAt) <= dayAgo);
+
+  return {
+    computedAt: current.takenAt,
+    hoursSincePublish: round(hoursSincePublish),
+    viewsPerHourSincePublish:
+      hoursSincePublish > 0 ? round(current.viewCount / hoursSincePublish) : 0,
+    sinceLastSnapshot: previous ? windowDelta(previous, current) : null,
+    last24h: baseline ? windowDelta(baseline, current) : null,
+    snapshotCount: history.length + 1,
+  };
+};
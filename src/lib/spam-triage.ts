@@ -0,0 +1,392 @@
+import type { AgentContext } from "@agentuity/sdk";
+import z from "zod";
+import type { CommentModerator } from "./comment-publisher";
+import { normalizeCommentText } from "./comment-clusters";
+import { withKeyLock } from "./concurrency";
+import type { CommentThread } from "./youtube-comments";
+
+const KV_NAMESPACE = "moderation-queue";
+// reviewed items are dropped first once a channel's queue is this long
+const MAX_QUEUE_ITEMS = 2000;
+
+// a comment scoring at least this is flagged outright, between the two it's
+// borderline and worth a second opinion
+export const SPAM_FLAG_SCORE = 0.6;
+export const SPAM_BORDERLINE_SCORE = 0.35;
+
+// the same text from this many different authors is a copy-paste campaign
+const REPEAT_MIN_AUTHORS = 3;
+// shorter texts ("first!", "great video") repeat innocently
+const REPEAT_MIN_CHARS = 15;
+// names shorter than this match too many innocent display names
+const MIN_IMPERSONATION_CHARS = 4;
+
+export const SPAM_SIGNALS = [
+  "impersonation",
+  "contact_handle",
+  "link_shortener",
+  "repeated_text",
+] as const;
+
+export type SpamSignalKind = (typeof SPAM_SIGNALS)[number];
+
+// how much each signal counts on its own, combined as independent evidence
+const SIGNAL_WEIGHTS: Record<SpamSignalKind, number> = {
+  impersonation: 0.7,
+  contact_handle: 0.5,
+  link_shortener: 0.4,
+  repeated_text: 0.4,
+};
+
+const CONTACT_PATTERNS = [
+  /\b(telegram|whats\s?app|wickr|viber)\b/i,
+  /\b(t\.me|wa\.me|telegram\.me)\/\S+/i,
+  /\b(text|message|dm|contact|write|reach)\s+(me|us|him|her)\b/i,
+  // phone numbers in international format
+  /\+\d[\d\s-]{8,}\d/,
+];
+
+const LINK_SHORTENERS = new Set([
+  "bit.ly",
+  "tinyurl.com",
+  "t.co",
+  "goo.gl",
+  "is.gd",
+  "cutt.ly",
+  "rb.gy",
+  "shorturl.at",
+  "tiny.cc",
+  "ow.ly",
+  "rebrand.ly",
+  "t.ly",
+  "s.id",
+  "v.gd",
+  "bl.ink",
+]);
+
+// what impersonators add around the channel's name ("Theo Official Support")
+const IMPERSONATION_FILLERS =
+  /official|support|team|help|admin|manager|management|real|channel|tv|contact|giveaway|winner|prize/g;
+
+// digits and symbols impersonators swap in for letters
+const LOOKALIKES: Record<string, string> = {
+  "0": "o",
+  "1": "l",
+  "3": "e",
+  "4": "a",
+  "5": "s",
+  "7": "t",
+  $: "s",
+  "|": "l",
+};
+
+export interface TriageComment {
+  commentId: string;
+  // set for replies
+  parentId: string | null;
+  text: string;
+  authorName: string;
+  authorChannelId?: string;
+  likeCount: number;
+  publishedAt: string;
+}
+
+export interface SpamSignal {
+  kind: SpamSignalKind;
+  detail: string;
+}
+
+export interface SpamVerdict {
+  comment: TriageComment;
+  score: number;
+  signals: SpamSignal[];
+  borderline: boolean;
+}
+
+export const commentsFromThreads = (
+  threads: CommentThread[]
+): TriageComment[] =>
+  threads.flatMap((thread) => [
+    { ...thread, parentId: null },
+    ...thread.replies.map((reply) => ({
+      ...reply,
+      parentId: thread.commentId,
+    })),
+  ]);
+
+// "@Théo-T3.gg" -> "theotegg"
+const normalizeName = (name: string) =>
+  name
+    .normalize("NFKD")
+    .replace(/\p{M}/gu, "")
+    .toLowerCase()
+    .replace(/[0-9$|]/g, (c) => LOOKALIKES[c] ?? c)
+    .replace(/[^\p{L}\p{N}]/gu, "");
+
+const shortenersIn = (text: string) =>
+  (text.match(/\b(?:https?:\/\/)?[a-z0-9.-]+\.[a-z]{1,6}\/\S+/gi) ?? []).filter(
+    (link) => {
+      const host = link
+        .replace(/^https?:\/\//i, "")
+        .split("/")[0]
+        ?.toLowerCase()
+        .replace(/^www\./, "");
+      return host !== undefined && LINK_SHORTENERS.has(host);
+    }
+  );
+
+export const combineSignals = (signals: SpamSignal[]) =>
+  1 -
+  [...new Set(signals.map((s) => s.kind))].reduce(
+    (p, kind) => p * (1 - SIGNAL_WEIGHTS[kind]),
+    1
+  );
+
+/**
+ * Scores every comment with the spam heuristics and returns the ones that
+ * look like spam, flagged or borderline, highest score first. Everything
+ * here is deterministic. Comments written by the channel itself are never
+ * flagged.
+ */
+export const triageComments = (
+  comments: TriageComment[],
+  channel: { names: string[]; channelId?: string }
+): SpamVerdict[] => {
+  const names = channel.names
+    .map(normalizeName)
+    .filter((n) => n.length >= MIN_IMPERSONATION_CHARS);
+
+  const authorsByText = new Map<string, Set<string>>();
+  for (const comment of comments) {
+    const text = normalizeCommentText(comment.text);
+    if (text.length < REPEAT_MIN_CHARS) continue;
+    const authors = authorsByText.get(text) ?? new Set();
+    authors.add(comment.authorChannelId ?? comment.authorName);
+    authorsByText.set(text, authors);
+  }
+
+  const verdicts: SpamVerdict[] = [];
+  for (const comment of comments) {
+    if (channel.channelId && comment.authorChannelId === channel.channelId) {
+      continue;
+    }
+
+    const signals: SpamSignal[] = [];
+
+    // the channel's name with at most a few characters or filler words
+    // around it, so a "Theo Fan Club" doesn't count
+    const author = normalizeName(comment.authorName);
+    const impersonated = names.find(
+      (name) =>
+        author.includes(name) &&
+        author.replace(name, "").replace(IMPERSONATION_FILLERS, "").length <= 3
+    );
+    if (impersonated) {
+      signals.push({
+        kind: "impersonation",
+        detail: `author "${comment.authorName}" looks like the channel's name`,
+      });
+    }
+
+    for (const pattern of CONTACT_PATTERNS) {
+      const match = comment.text.match(pattern);
+      if (match) {
+        signals.push({ kind: "contact_handle", detail: `"${match[0]}"` });
+        break;
+      }
+    }
+
+    const shorteners = shortenersIn(comment.text);
+    if (shorteners.length > 0) {
+      signals.push({
+        kind: "link_shortener",
+        detail: `shortened link ${shorteners.join(", ")}`,
+      });
+    }
+
+    const authors = authorsByText.get(normalizeCommentText(comment.text));
+    if (authors && authors.size >= REPEAT_MIN_AUTHORS) {
+      signals.push({
+        kind: "repeated_text",
+        detail: `same text from ${authors.size} authors`,
+      });
+    }
+
+    const score = combineSignals(signals);
+    if (score < SPAM_BORDERLINE_SCORE) continue;
+    verdicts.push({
+      comment,
+      score: Math.round(score * 100) / 100,
+      signals,
+      borderline: score < SPAM_FLAG_SCORE,
+    });
+  }
+
+  return verdicts.sort((a, b) => b.score - a.score);
+};
+
+export const moderationItemSchema = z.object({
+  // the comment id
+  id: z.string(),
+  channelId: z.string(),
+  videoId: z.string(),
+  videoTitle: z.string(),
+  parentId: z.string().nullable(),
+  authorName: z.string(),
+  authorChannelId: z.string().nullable(),
+  text: z.string(),
+  likeCount: z.number(),
+  publishedAt: z.string(),
+  score: z.number(),
+  signals: z.array(z.enum(SPAM_SIGNALS)),
+  reasons: z.array(z.string()),
+  borderline: z.boolean(),
+  // null when no model looked at it, only borderline items get a look
+  modelVerdict: z.object({ spam: z.boolean(), reason: z.string() }).nullable(),
+  status: z.enum(["pending", "removed", "dismissed"]),
+  flaggedAt: z.string(),
+  reviewedAt: z.string().nullable(),
+});
+
+export type ModerationItem = z.infer<typeof moderationItemSchema>;
+export type ModerationStatus = ModerationItem["status"];
+
+export const readModerationQueue = async (
+  ctx: AgentContext,
+  channelId: string
+): Promise<ModerationItem[]> => {
+  const r = await ctx.kv.get(KV_NAMESPACE, channelId);
+  if (!r.exists) return [];
+
+  const parsed = z.array(moderationItemSchema).safeParse(await r.data.json());
+  return parsed.success ? parsed.data : [];
+};
+
+const writeModerationQueue = async (
+  ctx: AgentContext,
+  channelId: string,
+  items: ModerationItem[]
+) => {
+  const pending = items.filter((i) => i.status === "pending");
+  const reviewed = items
+    .filter((i) => i.status !== "pending")
+    .sort((a, b) => (b.reviewedAt ?? "").localeCompare(a.reviewedAt ?? ""));
+  const kept = [
+    ...pending,
+    ...reviewed.slice(0, Math.max(0, MAX_QUEUE_ITEMS - pending.length)),
+  ];
+
+  await ctx.kv.set(KV_NAMESPACE, channelId, JSON.stringify(kept), {
+    contentType: "application/json",
+  });
+};
+
+/**
+ * Adds flagged comments to the channel's queue. A comment that's already in
+ * it keeps its place and status, so a dismissed comment isn't raised again.
+ */
+export const queueForModeration = async (data: {
+  ctx: AgentContext;
+  channelId: string;
+  video: { videoId: string; title: string };
+  verdicts: Array<
+    SpamVerdict & { modelVerdict?: ModerationItem["modelVerdict"] }
+  >;
+}) => {
+  const { ctx, channelId, video, verdicts } = data;
+
+  return withKeyLock(`${KV_NAMESPACE}/${channelId}`, async () => {
+    const items = await readModerationQueue(ctx, channelId);
+    const seen = new Set(items.map((i) => i.id));
+    const now = new Date().toISOString();
+
+    const queued: ModerationItem[] = verdicts
+      .filter((v) => !seen.has(v.comment.commentId))
+      .map(({ comment, score, signals, borderline, modelVerdict }) => ({
+        id: comment.commentId,
+        channelId,
+        videoId: video.videoId,
+        videoTitle: video.title,
+        parentId: comment.parentId,
+        authorName: comment.authorName,
+        authorChannelId: comment.authorChannelId ?? null,
+        text: comment.text,
+        likeCount: comment.likeCount,
+        publishedAt: comment.publishedAt,
+        score,
+        signals: [...new Set(signals.map((s) => s.kind))],
+        reasons: [
+          ...signals.map((s) => `${s.kind}: ${s.detail}`),
+          ...(modelVerdict ? [`model: ${modelVerdict.reason}`] : []),
+        ],
+        borderline,
+        modelVerdict: modelVerdict ?? null,
+        status: "pending",
+        flaggedAt: now,
+        reviewedAt: null,
+      }));
+
+    if (queued.length > 0) {
+      await writeModerationQueue(ctx, channelId, [...items, ...queued]);
+    }
+    return queued;
+  });
+};
+
+/**
+ * The channel's queue, highest score first.
+ */
+export const listModerationQueue = async (
+  ctx: AgentContext,
+  channelId: string,
+  filter: { status?: ModerationStatus; videoId?: string } = {}
+) =>
+  (await readModerationQueue(ctx, channelId))
+    .filter(
+      (i) =>
+        (!filter.status || i.status === filter.status) &&
+        (!filter.videoId || i.videoId === filter.videoId)
+    )
+    .sort(
+      (a, b) => b.score - a.score || b.flaggedAt.localeCompare(a.flaggedAt)
+    );
+
+/**
+ * Removes (through `moderator`) or dismisses a batch of pending items. Items
+ * that aren't pending or aren't in the queue are reported back untouched.
+ */
+export const reviewModerationItems = async (data: {
+  ctx: AgentContext;
+  channelId: string;
+  ids: string[];
+  action: "remove" | "dismiss";
+  moderator: CommentModerator;
+}) => {
+  const { ctx, channelId, ids, action, moderator } = data;
+
+  return withKeyLock(`${KV_NAMESPACE}/${channelId}`, async () => {
+    const items = await readModerationQueue(ctx, channelId);
+    const wanted = new Set(ids);
+    const targets = items.filter(
+      (i) => wanted.has(i.id) && i.status === "pending"
+    );
+    const skipped = ids.filter((id) => !targets.some((t) => t.id === id));
+
+    if (action === "remove" && targets.length > 0) {
+      await moderator.removeComments(targets.map((t) => t.id));
+    }
+
+    const reviewedAt = new Date().toISOString();
+    const status: ModerationStatus =
+      action === "remove" ? "removed" : "dismissed";
+    const done = new Set(targets.map((t) => t.id));
+    const updated = items.map((i) =>
+      done.has(i.id) ? { ...i, status, reviewedAt } : i
+    );
+    if (targets.length > 0) {
+      await writeModerationQueue(ctx, channelId, updated);
+    }
+
+    return { action, reviewed: [...done], skipped };
+  });
+};
@@ -0,0 +1,447 @@
+import z from "zod";
+import type { VideoSnapshot } from "./video-snapshot";
+
+// sponsors that show up often, extended with the comma separated
+// SPONSOR_NAMES env var. One of these counts as a sponsor when the
+// description names it alongside sponsorship wording or links to its site,
+// and it settles the spelling of (and splits up) the names found in sponsor
+// segments and tracking links. Names that are also everyday words
+// ("Brilliant", "Neon", "Warp") are left off, comments use them all the time
+const DEFAULT_SPONSOR_NAMES = [
+  "CodeRabbit",
+  "PostHog",
+  "Squarespace",
+  "Supabase",
+  "Vercel",
+];
+
+// phrases that introduce the sponsor in the description, the sponsor's name
+// is whatever follows
+const SEGMENT_PATTERNS = [
+  /(?:this video is |today's video is )?sponsored by:?\s+(.+)/i,
+  /(?:this video is )?brought to you by:?\s+(.+)/i,
+  /(?:thank you|thanks)(?: to)?\s+(.+?)\s+for sponsoring/i,
+  /(?:today's|this video's|our) sponsor(?: is)?:?\s+(.+)/i,
+  /^\s*sponsor:\s+(.+)/i,
+];
+
+// "this video is not sponsored", "no sponsor today", "isn't brought to you
+// by anyone", these lines say there is no sponsor
+const NEGATED_SEGMENT_PATTERN =
+  /\b(?:not|never|isn't|wasn't|no|without)\b[^.!?]{0,30}?\b(?:sponsor|brought to you)/i;
+const NOBODY_PATTERN = /^(?:no ?one|nobody|anyone|anybody|none|myself|me)$/i;
+
+// description wording around a known sponsor's name that makes it a
+// sponsorship, narrower than for comments since descriptions are full of
+// "code" and "links" that have nothing to do with sponsors
+const DESCRIPTION_SPONSOR_CONTEXT_PATTERN =
+  /\b(?:sponsor\w*|promo(?:tion)?s?|coupons?|discounts?|affiliate|partner(?:ed|ship)?|(?:use|with) (?:my |the )?code|free trial|\d+% off)\b/i;
+
+// words that put a sponsor's name in a comment in the context of the
+// sponsorship rather than everyday use ("brilliant video")
+const SPONSOR_CONTEXT_PATTERN =
+  /\b(?:sponsor\w*|ads?|advert\w*|promo\w*|codes?|coupons?|discounts?|affiliate|links?|segments?|reads?|trials?|sign(?:ed)? up|signups?)\b/i;
+
+// query params that mark a link as a tracked/affiliate link
+const TRACKING_PARAMS = [
+  "utm_source",
+  "utm_medium",
+  "utm_campaign",
+  "ref",
+  "via",
+  "aff",
+  "affiliate",
+  "promo",
+  "code",
+];
+
+const URL_PATTERN = /https?:\/\/[^\s<>()"']+/g;
+
+// hosts that are never the sponsor themselves
+const IGNORED_HOSTS = [
+  "youtube.com",
+  "youtu.be",
+  "twitter.com",
+  "x.com",
+  "github.com",
+  "discord.gg",
+  "discord.com",
+  "instagram.com",
+  "tiktok.com",
+  "twitch.tv",
+  "linkedin.com",
+];
+
+export const sponsorEvidenceSchema = z.enum([
+  "segment",
+  "tracking_link",
+  // a known sponsor named with sponsorship wording or linked to, weaker than
+  // the other two
+  "known_name",
+]);
+
+export const detectedSponsorSchema = z.object({
+  name: z.string(),
+  evidence: z.array(sponsorEvidenceSchema),
+  links: z.array(z.string()),
+  // the description line that gave the sponsor away, if there was one
+  segment: z.string().optional(),
+});
+
+export type SponsorEvidence = z.infer<typeof sponsorEvidenceSchema>;
+export type DetectedSponsor = z.infer<typeof detectedSponsorSchema>;
+
+export const knownSponsorsFromEnv = () => [
+  ...DEFAULT_SPONSOR_NAMES,
+  ...(process.env.SPONSOR_NAMES ?? "")
+    .split(",")
+    .map((name) => name.trim())
+    .filter(Boolean),
+];
+
+const sponsorKey = (name: string) =>
+  name.toLowerCase().replace(/[^a-z0-9]/g, "");
+
+const escapeRegExp = (text: string) =>
+  text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+const mentions = (text: string, name: string) =>
+  new RegExp(`(?<![\\w])${escapeRegExp(name)}(?![\\w])`, "i").test(text);
+
+// "Convex (https://convex.link/x)", "Clerk - the best auth" -> "Convex", "Clerk"
+const cleanSegmentName = (raw: string) =>
+  raw
+    .replace(URL_PATTERN, "")
+    .split(/[-–—:|!,(]|\s\s|\.(?:\s|$)/)[0]
+    ?.trim()
+    .replace(/[.\s]+$/, "");
+
+const hostOf = (url: string) => {
+  try {
+    return new URL(url).hostname.replace(/^www\./, "");
+  } catch {
+    return null;
+  }
+};
+
+const isTrackingLink = (url: string) => {
+  try {
+    const { searchParams } = new URL(url);
+    return TRACKING_PARAMS.some((param) => searchParams.has(param));
+  } catch {
+    return false;
+  }
+};
+
+// "go.convex.dev" -> "Convex"
+const nameFromHost = (host: string) => {
+  const parts = host.split(".");
+  const label = parts.length >= 2 ? parts[parts.length - 2] : parts[0];
+  if (!label) return null;
+  return label.charAt(0).toUpperCase() + label.slice(1);
+};
+
+/**
+ * Works out who sponsored a video from its description: sponsor segments
+ * ("This video is sponsored by X", but not "not sponsored by anyone") and
+ * tracked links (utm/ref/affiliate params), plus `knownSponsors` named on a
+ * line with sponsorship wording ("use code", "affiliate") or linked to from
+ * the description. A known name mentioned in passing isn't a sponsor.
+ * `knownSponsors` also settle the spelling and pick out the sponsors of a
+ * segment that names several. Sponsors found more than one way are merged,
+ * with every piece of evidence kept.
+ */
+export const extractSponsors = (
+  description: string,
+  options: { knownSponsors?: string[] } = {}
+): DetectedSponsor[] => {
+  const { knownSponsors = knownSponsorsFromEnv() } = options;
+  const found = new Map<string, DetectedSponsor>();
+
+  const add = (
+    name: string,
+    evidence: SponsorEvidence,
+    extra: { link?: string; segment?: string } = {}
+  ) => {
+    // prefer the spelling from the known list when there is one
+    const known = knownSponsors.find((k) => sponsorKey(k) === sponsorKey(name));
+    const key = sponsorKey(known ?? name);
+    if (!key) return;
+
+    const sponsor = found.get(key) ?? {
+      name: known ?? name,
+      evidence: [],
+      links: [],
+    };
+    if (!sponsor.evidence.includes(evidence)) sponsor.evidence.push(evidence);
+    if (extra.link && !sponsor.links.includes(extra.link)) {
+      sponsor.links.push(extra.link);
+    }
+    if (extra.segment && !sponsor.segment) sponsor.segment = extra.segment;
+    found.set(key, sponsor);
+  };
+
+  const lines = description.split("\n");
+
+  for (const line of lines) {
+    if (NEGATED_SEGMENT_PATTERN.test(line)) continue;
+
+    for (const pattern of SEGMENT_PATTERNS) {
+      const match = line.match(pattern);
+      if (!match?.[1]) continue;
+
+      // "sponsored by Vercel and Supabase" is two sponsors, in that order
+      const raw = match[1].toLowerCase();
+      const named = knownSponsors
+        .filter((k) => mentions(raw, k))
+        .sort(
+          (a, b) => raw.indexOf(a.toLowerCase()) - raw.indexOf(b.toLowerCase())
+        );
+      const names =
+        named.length > 0
+          ? named
+          : [cleanSegmentName(match[1])].filter(
+              (name): name is string => !!name && !NOBODY_PATTERN.test(name)
+            );
+      if (names.length === 0) continue;
+
+      const links = line.match(URL_PATTERN) ?? [];
+      for (const name of names) {
+        add(name, "segment", { segment: line.trim(), link: links[0] });
+      }
+      break;
+    }
+  }
+
+  for (const line of lines) {
+    for (const url of line.match(URL_PATTERN) ?? []) {
+      if (!isTrackingLink(url)) continue;
+
+      const host = hostOf(url);
+      if (!host || IGNORED_HOSTS.some((h) => host.endsWith(h))) continue;
+
+      // a known sponsor named on the same line beats guessing from the host
+      const named = knownSponsors.find(
+        (k) => mentions(line, k) || host.includes(sponsorKey(k))
+      );
+      const name = named ?? nameFromHost(host);
+      if (name) add(name, "tracking_link", { link: url });
+    }
+  }
+
+  for (const line of lines) {
+    if (NEGATED_SEGMENT_PATTERN.test(line)) continue;
+
+    const links = line.match(URL_PATTERN) ?? [];
+    for (const name of knownSponsors) {
+      const link = links.find((url) => hostOf(url)?.includes(sponsorKey(name)));
+      if (
+        link ||
+        (mentions(line, name) && DESCRIPTION_SPONSOR_CONTEXT_PATTERN.test(line))
+      ) {
+        add(name, "known_name", { link });
+      }
+    }
+  }
+
+  return [...found.values()];
+};
+
+/**
+ * Names of the sponsors a comment mentions: by the host of one of their
+ * links, or by name in a comment that talks about sponsorship (the ad, the
+ * code, the link), so "brilliant video" isn't taken for feedback on
+ * Brilliant.
+ */
+export const sponsorsMentionedIn = (
+  text: string,
+  sponsors: Array<Pick<DetectedSponsor, "name"> & { links?: string[] }>
+) =>
+  sponsors
+    .filter(
+      (s) =>
+        (s.links ?? []).some((link) => {
+          const host = hostOf(link);
+          return host !== null && text.toLowerCase().includes(host);
+        }) ||
+        (mentions(text, s.name) && SPONSOR_CONTEXT_PATTERN.test(text))
+    )
+    .map((s) => s.name);
+
+export interface SponsorReport {
+  sponsor: string;
+  videoCount: number;
+  videos: Array<{
+    videoId: string;
+    title: string;
+    url: string;
+    takenAt: string;
+    positive: number;
+    negative: number;
+    neutral: number;
+  }>;
+  mentions: { positive: number; negative: number; neutral: number };
+  topComplaintThemes: Array<{ theme: string; count: number; likes: number }>;
+  topNegativeComments: Array<{
+    text: string;
+    videoId: string;
+    likeCount?: number;
+  }>;
+}
+
+const SENTIMENT_BY_CATEGORY = {
+  sponsor_positive: "positive",
+  sponsor_negative: "negative",
+  sponsor_neutral: "neutral",
+} as const;
+
+/**
+ * Rolls the sponsor mentions of every snapshot up per sponsor. Mentions whose
+ * sponsor wasn't named are put on the video's only sponsor when it had exactly
+ * one.
+ */
+export const buildSponsorReports = (
+  snapshots: VideoSnapshot[],
+  options: { sponsor?: string; maxThemes?: number; maxComments?: number } = {}
+): SponsorReport[] => {
+  const { maxThemes = 5, maxComments = 5 } = options;
+  const reports = new Map<string, SponsorReport>();
+  const themes = new Map<
+    string,
+    Map<string, { theme: string; count: number; likes: number }>
+  >();
+  const negatives = new Map<string, SponsorReport["topNegativeComments"]>();
+
+  for (const snapshot of snapshots) {
+    const sponsors = snapshot.sponsors;
+    if (sponsors.length === 0) continue;
+
+    for (const detected of sponsors) {
+      const key = sponsorKey(detected.name);
+      const report = reports.get(key) ?? {
+        sponsor: detected.name,
+        videoCount: 0,
+        videos: [],
+        mentions: { positive: 0, negative: 0, neutral: 0 },
+        topComplaintThemes: [],
+        topNegativeComments: [],
+      };
+      report.videoCount += 1;
+      report.videos.push({
+        videoId: snapshot.videoId,
+        title: snapshot.video.title,
+        url: snapshot.video.url,
+        takenAt: snapshot.takenAt,
+        positive: 0,
+        negative: 0,
+        neutral: 0,
+      });
+      reports.set(key, report);
+    }
+
+    for (const comment of snapshot.flaggedComments) {
+      if (!(comment.category in SENTIMENT_BY_CATEGORY)) continue;
+      const sentiment =
+        SENTIMENT_BY_CATEGORY[
+          comment.category as keyof typeof SENTIMENT_BY_CATEGORY
+        ];
+
+      const sponsorName =
+        comment.sponsor ??
+        (sponsors.length === 1 ? sponsors[0]?.name : undefined);
+      if (!sponsorName) continue;
+
+      const key = sponsorKey(sponsorName);
+      const report = reports.get(key);
+      const video = report?.videos.find((v) => v.videoId === snapshot.videoId);
+      if (!report || !video) continue;
+
+      report.mentions[sentiment] += 1;
+      video[sentiment] += 1;
+
+      if (sentiment !== "negative") continue;
+
+      const theme = comment.theme ?? comment.note ?? "uncategorized";
+      const byTheme = themes.get(key) ?? new Map();
+      const entry = byTheme.get(theme.toLowerCase()) ?? {
+        theme,
+        count: 0,
+        likes: 0,
+      };
+      entry.count += 1;
+      entry.likes += comment.likeCount ?? 0;
+      byTheme.set(theme.toLowerCase(), entry);
+      themes.set(key, byTheme);
+
+      negatives.set(key, [
+        ...(negatives.get(key) ?? []),
+        {
+          text: comment.text,
+          videoId: snapshot.videoId,
+          likeCount: comment.likeCount,
+        },
+      ]);
+    }
+  }
+
+  return [...reports.entries()]
+    .filter(([key]) => !options.sponsor || key === sponsorKey(options.sponsor))
+    .map(([key, report]) => ({
+      ...report,
+      topComplaintThemes: [...(themes.get(key)?.values() ?? [])]
+        .sort((a, b) => b.count - a.count || b.likes - a.likes)
+        .slice(0, maxThemes),
+      topNegativeComments: (negatives.get(key) ?? [])
+        .sort((a, b) => (b.likeCount ?? 0) - (a.likeCount ?? 0))
+        .slice(0, maxComments),
+    }))
+    .sort((a, b) => b.videoCount - a.videoCount);
+};
+
+export const renderSponsorReportMarkdown = (reports: SponsorReport[]) => {
+  const lines: string[] = ["# Sponsor report", ""];
+
+  if (reports.length === 0) {
+    lines.push("No sponsored videos have been watched yet.");
+  }
+
+  for (const report of reports) {
+    const { positive, negative, neutral } = report.mentions;
+    lines.push(
+      `## ${report.sponsor}`,
+      "",
+      `${report.videoCount} video${report.videoCount === 1 ? "" : "s"}, ${negative} negative, ${positive} positive and ${neutral} neutral mentions`,
+      ""
+    );
+
+    if (report.topComplaintThemes.length > 0) {
+      lines.push("### Top complaint themes", "");
+      for (const theme of report.topComplaintThemes) {
+        lines.push(`- ${theme.theme} (${theme.count} comments)`);
+      }
+      lines.push("");
+    }
+
+    if (report.topNegativeComments.length > 0) {
+      lines.push("### Most liked negative comments", "");
+      for (const comment of report.topNegativeComments) {
+        const likes =
+          comment.likeCount !== undefined
+            ? ` (${comment.likeCount} likes)`
+            : "";
+        lines.push(`- "${comment.text}"${likes}`);
+      }
+      lines.push("");
+    }
+
+    lines.push("### Videos", "");
+    for (const video of report.videos) {
+      lines.push(
+        `- [${video.title}](${video.url}): ${video.negative} negative, ${video.positive} positive, ${video.neutral} neutral`
+      );
+    }
+    lines.push("");
+  }
+
+  return `${lines.join("\n").trimEnd()}\n`;
+};
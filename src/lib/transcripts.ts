@@ -0,0 +1,326 @@
+import type { AgentContext } from "@agentuity/sdk";
+import z from "zod";
+import { normalizeCommentText } from "./comment-clusters";
+import { formatTimestamp } from "./errata";
+import { AGENT_ERROR } from "./errors";
+import type { YouTubeDataSource } from "./youtube-data-source";
+
+const KV_NAMESPACE = "transcripts";
+// commenters are rarely exact about when something was said
+const DEFAULT_WINDOW_SECONDS = 20;
+const MAX_MATCHES = 5;
+// a phrase is found when this share of its words turn up together
+const PHRASE_MATCH_THRESHOLD = 0.7;
+// phrases run over cue boundaries, so this many cues are searched together
+const PHRASE_SPAN_SEGMENTS = 3;
+// what gets attached to a confirmed flag, around the time it points at
+const EXCERPT_BEFORE_SECONDS = 5;
+const EXCERPT_AFTER_SECONDS = 10;
+const MAX_EXCERPT_CHARS = 500;
+
+export const CAPTION_FORMATS = ["vtt", "srt"] as const;
+
+export type CaptionFormat = (typeof CAPTION_FORMATS)[number];
+
+export const transcriptSegmentSchema = z.object({
+  // seconds into the video
+  start: z.number(),
+  end: z.number(),
+  text: z.string(),
+});
+
+export const transcriptSchema = z.object({
+  videoId: z.string(),
+  // "request" for captions sent in with a request, "youtube" when they came
+  // from the video's caption tracks
+  source: z.enum(["request", "youtube"]),
+  language: z.string().nullable(),
+  format: z.enum(CAPTION_FORMATS),
+  storedAt: z.string(),
+  segments: z.array(transcriptSegmentSchema),
+});
+
+export type TranscriptSegment = z.infer<typeof transcriptSegmentSchema>;
+export type Transcript = z.infer<typeof transcriptSchema>;
+
+export interface TranscriptMatch {
+  start: number;
+  end: number;
+  timestamp: string;
+  text: string;
+  // 1 when the phrase (or every one of its words) was found, less when
+  // only most of its words were
+  score: number;
+}
+
+const ENTITIES: Record<string, string> = {
+  "&amp;": "&",
+  "&lt;": "<",
+  "&gt;": ">",
+  "&quot;": '"',
+  "&#39;": "'",
+  "&nbsp;": " ",
+};
+
+// "01:02:03.450", "02:03.450" (WebVTT) or "01:02:03,450" (SRT)
+const parseCueTime = (time: string) => {
+  const parts = time.trim().replace(",", ".").split(":").map(Number);
+  if (parts.length < 2 || parts.some((p) => Number.isNaN(p))) return null;
+  return parts.reduce((total, part) => total * 60 + part, 0);
+};
+
+const cleanCueText = (line: string) =>
+  line
+    // voice spans, styling and the word timings of auto captions
+    .replace(/<[^>]*>/g, "")
+    .replace(/&(amp|lt|gt|quot|#39|nbsp);/g, (e) => ENTITIES[e] ?? e)
+    .replace(/\s+/g, " ")
+    .trim();
+
+export const detectCaptionFormat = (text: string): CaptionFormat =>
+  text
+    .replace(/^\uFEFF/, "")
+    .trimStart()
+    .startsWith("WEBVTT")
+    ? "vtt"
+    : "srt";
+
+/**
+ * Parses WebVTT or SRT captions into segments. Header, NOTE, STYLE and
+ * REGION blocks are skipped, as are cue numbers and settings. Auto captions
+ * repeat the previous cue's line above each new one, those repeats are
+ * dropped so every line is only in the transcript once.
+ */
+export const parseCaptions = (text: string): TranscriptSegment[] => {
+  const blocks = text
+    .replace(/^\uFEFF/, "")
+    .replace(/\r\n?/g, "\n")
+    .split(/\n{2,}/);
+
+  const segments: TranscriptSegment[] = [];
+  let previousLines: string[] = [];
+  for (const block of blocks) {
+    const lines = block.split("\n");
+    const timing = lines.findIndex((l) => l.includes("-->"));
+    if (timing === -1) continue;
+
+    const [from = "", rest = ""] = (lines[timing] ?? "").split("-->");
+    const start = parseCueTime(from);
+    const end = parseCueTime(rest.trim().split(/\s+/)[0] ?? "");
+    if (start === null || end === null) continue;
+
+    const cueLines = lines
+      .slice(timing + 1)
+      .map(cleanCueText)
+      .filter(Boolean);
+    const fresh = cueLines.filter((l) => !previousLines.includes(l));
+    if (cueLines.length > 0) previousLines = cueLines;
+
+    const last = segments.at(-1);
+    if (fresh.length === 0) {
+      if (last && cueLines.length > 0) last.end = Math.max(last.end, end);
+      continue;
+    }
+    segments.push({ start, end, text: fresh.join(" ") });
+  }
+
+  return segments;
+};
+
+/**
+ * Parses captions, throwing an invalid_input error when nothing in them
+ * reads as a cue.
+ */
+export const parseCaptionsOrThrow = (text: string) => {
+  const segments = parseCaptions(text);
+  if (segments.length === 0) {
+    throw new AGENT_ERROR({
+      code: "invalid_input",
+      message: "No caption cues found, captions must be WebVTT or SRT",
+    });
+  }
+  return segments;
+};
+
+export const readTranscript = async (
+  ctx: AgentContext,
+  videoId: string
+): Promise<Transcript | null> => {
+  const r = await ctx.kv.get(KV_NAMESPACE, videoId);
+  if (!r.exists) return null;
+
+  const parsed = transcriptSchema.safeParse(await r.data.json());
+  if (!parsed.success) {
+    ctx.logger.warn(`Ignoring malformed transcript for ${videoId}`);
+    return null;
+  }
+  return parsed.data;
+};
+
+/**
+ * Parses the captions and stores them as the video's transcript, replacing
+ * any earlier one.
+ */
+export const storeTranscript = async (data: {
+  ctx: AgentContext;
+  videoId: string;
+  source: Transcript["source"];
+  captions: string;
+  format?: CaptionFormat;
+  language?: string | null;
+}) => {
+  const { ctx, videoId, source, captions } = data;
+
+  const transcript: Transcript = {
+    videoId,
+    source,
+    language: data.language ?? null,
+    format: data.format ?? detectCaptionFormat(captions),
+    storedAt: new Date().toISOString(),
+    segments: parseCaptionsOrThrow(captions),
+  };
+  await ctx.kv.set(KV_NAMESPACE, videoId, JSON.stringify(transcript), {
+    contentType: "application/json",
+  });
+  return transcript;
+};
+
+/**
+ * Downloads the video's captions as WebVTT: the creator's own track in
+ * `language` when there is one, the automatic one otherwise. YouTube only
+ * lets the channel that owns the video do this.
+ */
+export const fetchCaptions = async (data: {
+  youtube: YouTubeDataSource;
+  videoId: string;
+  language?: string;
+}) => {
+  const { youtube, videoId, language } = data;
+
+  const tracks = ((await youtube.listCaptions({ videoId })).items ?? []).filter(
+    (t) =>
+      t.id &&
+      (!language ||
+        t.snippet?.language?.toLowerCase().startsWith(language.toLowerCase()))
+  );
+  const track =
+    tracks.find((t) => t.snippet?.trackKind !== "asr") ?? tracks[0] ?? null;
+  if (!track?.id) {
+    throw new AGENT_ERROR({
+      code: "video_not_found",
+      message: `No captions${language ? ` in ${language}` : ""} for videoId: ${videoId}`,
+      videoId,
+    });
+  }
+
+  return {
+    captions: await youtube.downloadCaption({ id: track.id, format: "vtt" }),
+    format: "vtt" as const,
+    language: track.snippet?.language ?? null,
+  };
+};
+
+const toMatch = (
+  segments: TranscriptSegment[],
+  score: number
+): TranscriptMatch | null => {
+  const first = segments[0];
+  const last = segments.at(-1);
+  if (!first || !last) return null;
+  return {
+    start: first.start,
+    end: last.end,
+    timestamp: formatTimestamp(Math.floor(first.start)),
+    text: segments.map((s) => s.text).join(" "),
+    score,
+  };
+};
+
+/**
+ * Looks through the transcript around `at` (seconds), for `phrase`, or for
+ * the phrase near `at`. Phrases match on their words, so punctuation and
+ * casing don't matter, and most of the words in one place is a weaker match.
+ * With only `at` the one match is everything said in the window.
+ */
+export const searchTranscript = (
+  transcript: Transcript,
+  query: { at?: number; phrase?: string; windowSeconds?: number }
+): TranscriptMatch[] => {
+  const { at, phrase, windowSeconds = DEFAULT_WINDOW_SECONDS } = query;
+
+  const segments =
+    at === undefined
+      ? transcript.segments
+      : transcript.segments.filter(
+          (s) => s.end >= at - windowSeconds && s.start <= at + windowSeconds
+        );
+
+  if (!phrase) {
+    const match = toMatch(segments, 1);
+    return match ? [match] : [];
+  }
+
+  const wanted = normalizeCommentText(phrase);
+  const wantedWords = [...new Set(wanted.split(" ").filter(Boolean))];
+  if (wantedWords.length === 0) return [];
+
+  const scoreOf = (span: TranscriptSegment[]) => {
+    const text = normalizeCommentText(span.map((s) => s.text).join(" "));
+    if (text.includes(wanted)) return 1;
+    const words = new Set(text.split(" "));
+    return wantedWords.filter((w) => words.has(w)).length / wantedWords.length;
+  };
+
+  const candidates: TranscriptMatch[] = [];
+  for (let i = 0; i < segments.length; i++) {
+    let span = segments.slice(i, i + PHRASE_SPAN_SEGMENTS);
+    const score = scoreOf(span);
+    if (score < PHRASE_MATCH_THRESHOLD) continue;
+
+    // down to the fewest cues that still score as well
+    while (span.length > 1 && scoreOf(span.slice(1)) >= score) {
+      span = span.slice(1);
+    }
+    while (span.length > 1 && scoreOf(span.slice(0, -1)) >= score) {
+      span = span.slice(0, -1);
+    }
+    const match = toMatch(span, Math.round(score * 100) / 100);
+    if (match) candidates.push(match);
+  }
+
+  // best first, closest to `at` among equals, and no two overlapping
+  const distance = (m: TranscriptMatch) =>
+    at === undefined ? 0 : Math.abs(m.start - at);
+  const matches: TranscriptMatch[] = [];
+  for (const match of candidates.sort(
+    (a, b) =>
+      b.score - a.score || distance(a) - distance(b) || a.start - b.start
+  )) {
+    if (matches.some((m) => match.start < m.end && m.start < match.end)) {
+      continue;
+    }
+    matches.push(match);
+    if (matches.length >= MAX_MATCHES) break;
+  }
+  return matches;
+};
+
+/**
+ * What was said from a little before `at` to a little after, or null when
+ * the transcript has nothing there.
+ */
+export const transcriptExcerpt = (transcript: Transcript, at: number) => {
+  const text = transcript.segments
+    .filter(
+      (s) =>
+        s.end >= at - EXCERPT_BEFORE_SECONDS &&
+        s.start <= at + EXCERPT_AFTER_SECONDS
+    )
+    .map((s) => s.text)
+    .join(" ");
+  if (!text) return null;
+
+  return text.length > MAX_EXCERPT_CHARS
+    ? `${text.slice(0, MAX_EXCERPT_CHARS - 3)}...`
+    : text;
+};
@@ -0,0 +1,386 @@
+import type { AgentContext } from "@agentuity/sdk";
+import z from "zod";
+import { AGENT_ERROR } from "./errors";
+import { parseVideoSnapshot, type VideoSnapshot } from "./video-snapshot";
+
+const KV_NAMESPACE = "video-memory";
+// overridable with VIDEO_MEMORY_REVISIONS
+const DEFAULT_REVISIONS_KEPT = 10;
+// beyond this many line pairs a section diff is shown as a full replacement
+const MAX_DIFF_CELLS = 1_000_000;
+const DIFF_CONTEXT_LINES = 2;
+
+// comments-watcher's structured snapshot (or the markdown it wrote before
+// snapshots were structured), every other section is free text
+export const SNAPSHOT_SECTION = "snapshot";
+
+// where each agent kept its memory before the shared store. A video with
+// nothing in the store yet starts from these, as revision 0
+const LEGACY_SOURCES = [
+  { namespace: "comments-watcher", section: SNAPSHOT_SECTION },
+  { namespace: "video_memories", section: "notes" },
+];
+
+export const sectionNameSchema = z
+  .string()
+  .max(40)
+  .regex(
+    /^[a-z0-9][a-z0-9_-]*$/,
+    "Section names are lowercase letters, digits, - and _"
+  );
+
+export const memoryRevisionSchema = z.object({
+  revision: z.number().int().min(0),
+  basedOn: z.number().int().min(0),
+  createdAt: z.string(),
+  author: z.string(),
+  // the sections this revision added, replaced or removed
+  changed: z.array(z.string()),
+  rolledBackTo: z.number().int().optional(),
+  sections: z.record(z.string(), z.string()),
+});
+
+export const videoMemorySchema = z.object({
+  videoId: z.string(),
+  // oldest first, the last one is the current memory
+  revisions: z.array(memoryRevisionSchema),
+});
+
+export type MemoryRevision = z.infer<typeof memoryRevisionSchema>;
+export type VideoMemory = z.infer<typeof videoMemorySchema>;
+
+export interface SectionDiff {
+  section: string;
+  status: "added" | "removed" | "changed";
+  // unified style: "+" added, "-" removed, " " context lines
+  diff: string;
+}
+
+const revisionsKept = () => {
+  const kept = Number(process.env.VIDEO_MEMORY_REVISIONS);
+  return Number.isInteger(kept) && kept > 0 ? kept : DEFAULT_REVISIONS_KEPT;
+};
+
+export const currentRevision = (memory: VideoMemory) =>
+  memory.revisions.at(-1) ?? null;
+
+export const currentSections = (memory: VideoMemory) =>
+  currentRevision(memory)?.sections ?? {};
+
+const importLegacy = async (
+  ctx: AgentContext,
+  videoId: string
+): Promise<VideoMemory> => {
+  const sections: Record<string, string> = {};
+  for (const { namespace, section } of LEGACY_SOURCES) {
+    const r = await ctx.kv.get(namespace, videoId);
+    if (r.exists) sections[section] = await r.data.text();
+  }
+
+  const changed = Object.keys(sections);
+  return {
+    videoId,
+    revisions:
+      changed.length > 0
+        ? [
+            {
+              revision: 0,
+              basedOn: 0,
+              createdAt: new Date().toISOString(),
+              author: "import",
+              changed,
+              sections,
+            },
+          ]
+        : [],
+  };
+};
+
+/**
+ * The stored memory of a video with its kept revisions. Videos that only
+ * have memory from before the shared store get it imported as revision 0,
+ * which is saved with the first write.
+ */
+export const readVideoMemory = async (
+  ctx: AgentContext,
+  videoId: string
+): Promise<VideoMemory> => {
+  const r = await ctx.kv.get(KV_NAMESPACE, videoId);
+  if (!r.exists) return importLegacy(ctx, videoId);
+
+  const parsed = videoMemorySchema.safeParse(await r.data.json());
+  if (!parsed.success) {
+    throw new Error(`Malformed memory for ${videoId}`);
+  }
+  return parsed.data;
+};
+
+const sectionsChangedSince = (memory: VideoMemory, revision: number) =>
+  new Set(
+    memory.revisions
+      .filter((r) => r.revision > revision)
+      .flatMap((r) => r.changed)
+  );
+
+const appendRevision = async (
+  ctx: AgentContext,
+  memory: VideoMemory,
+  revision: Omit<MemoryRevision, "revision" | "createdAt">
+) => {
+  const next: MemoryRevision = {
+    ...revision,
+    revision: (currentRevision(memory)?.revision ?? 0) + 1,
+    createdAt: new Date().toISOString(),
+  };
+  const stored: VideoMemory = {
+    videoId: memory.videoId,
+    revisions: [...memory.revisions, next].slice(-revisionsKept()),
+  };
+  await ctx.kv.set(KV_NAMESPACE, memory.videoId, JSON.stringify(stored), {
+    contentType: "application/json",
+  });
+  return next;
+};
+
+/**
+ * Updates some sections of a video's memory (null removes one) and keeps the
+ * others. With `baseRevision` the write is rejected as a conflict when a
+ * section it touches changed after that revision, writes to other sections
+ * are merged. Without it the sections are replaced whatever their revision,
+ * which is only right for a writer that owns them.
+ *
+ * KV has no compare-and-set, so two writes landing at the same moment can
+ * still race; this catches the usual read-think-write overlap.
+ */
+export const writeVideoMemory = async (data: {
+  ctx: AgentContext;
+  videoId: string;
+  author: string;
+  sections: Record<string, string | null>;
+  baseRevision?: number;
+}) => {
+  const { ctx, videoId, author, sections, baseRevision } = data;
+
+  const memory = await readVideoMemory(ctx, videoId);
+  const current = currentRevision(memory);
+  const head = current?.revision ?? 0;
+
+  if (baseRevision !== undefined && baseRevision !== head) {
+    const oldest = memory.revisions[0]?.revision ?? 0;
+    const overlap =
+      baseRevision > head || baseRevision < oldest - 1
+        ? Object.keys(sections)
+        : [...sectionsChangedSince(memory, baseRevision)].filter(
+            (s) => s in sections
+          );
+    if (overlap.length > 0) {
+      throw new AGENT_ERROR({
+        code: "conflict",
+        message: `The memory for ${videoId} is at revision ${head}, the write was based on revision ${baseRevision} and ${overlap.join(", ")} changed since. Read it again and reapply the changes.`,
+      });
+    }
+  }
+
+  const merged = { ...(current?.sections ?? {}) };
+  const changed: string[] = [];
+  for (const [section, content] of Object.entries(sections)) {
+    if (content === null) {
+      if (section in merged) {
+        delete merged[section];
+        changed.push(section);
+      }
+    } else if (merged[section] !== content) {
+      merged[section] = content;
+      changed.push(section);
+    }
+  }
+
+  // nothing new (and nothing imported to save) isn't worth a revision
+  if (changed.length === 0 && current && current.revision > 0) {
+    return current;
+  }
+
+  return appendRevision(ctx, memory, {
+    basedOn: head,
+    author,
+    changed,
+    sections: merged,
+  });
+};
+
+const findRevision = (memory: VideoMemory, revision: number) => {
+  const found = memory.revisions.find((r) => r.revision === revision);
+  if (!found) {
+    throw new AGENT_ERROR({
+      code: "invalid_input",
+      message: `Revision ${revision} of the memory for ${memory.videoId} isn't kept (kept: ${memory.revisions.map((r) => r.revision).join(", ") || "none"})`,
+    });
+  }
+  return found;
+};
+
+/**
+ * Makes an earlier revision current again. The rollback is a new revision,
+ * so it can itself be rolled back.
+ */
+export const rollbackVideoMemory = async (data: {
+  ctx: AgentContext;
+  videoId: string;
+  author: string;
+  revision: number;
+  baseRevision?: number;
+}) => {
+  const { ctx, videoId, author, revision, baseRevision } = data;
+
+  const memory = await readVideoMemory(ctx, videoId);
+  const head = currentRevision(memory)?.revision ?? 0;
+  if (baseRevision !== undefined && baseRevision !== head) {
+    throw new AGENT_ERROR({
+      code: "conflict",
+      message: `The memory for ${videoId} is at revision ${head}, not ${baseRevision}`,
+    });
+  }
+
+  const target = findRevision(memory, revision);
+  const current = currentSections(memory);
+  const changed = [
+    ...new Set([...Object.keys(current), ...Object.keys(target.sections)]),
+  ].filter((s) => current[s] !== target.sections[s]);
+
+  return appendRevision(ctx, memory, {
+    basedOn: head,
+    author,
+    changed,
+    rolledBackTo: revision,
+    sections: target.sections,
+  });
+};
+
+/**
+ * Line by line diff of two texts, only keeping a few lines of context around
+ * each change.
+ */
+export const diffLines = (before: string, after: string) => {
+  const a = before === "" ? [] : before.split("\n");
+  const b = after === "" ? [] : after.split("\n");
+
+  if (a.length * b.length > MAX_DIFF_CELLS) {
+    return [...a.map((l) => `-${l}`), ...b.map((l) => `+${l}`)].join("\n");
+  }
+
+  // lcs[i][j]: longest common subsequence of a[i..] and b[j..]
+  const width = b.length + 1;
+  const table = new Uint32Array((a.length + 1) * width);
+  const lcs = (i: number, j: number) => table[i * width + j] ?? 0;
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      table[i * width + j] =
+        a[i] === b[j]
+          ? lcs(i + 1, j + 1) + 1
+          : Math.max(lcs(i + 1, j), lcs(i, j + 1));
+    }
+  }
+
+  const lines: string[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length || j < b.length) {
+    if (i < a.length && j < b.length && a[i] === b[j]) {
+      lines.push(` ${a[i]}`);
+      i++;
+      j++;
+    } else if (
+      i < a.length &&
+      (j === b.length || lcs(i + 1, j) >= lcs(i, j + 1))
+    ) {
+      lines.push(`-${a[i]}`);
+      i++;
+    } else {
+      lines.push(`+${b[j]}`);
+      j++;
+    }
+  }
+
+  const near = (index: number) =>
+    lines
+      .slice(
+        Math.max(0, index - DIFF_CONTEXT_LINES),
+        index + DIFF_CONTEXT_LINES + 1
+      )
+      .some((l) => !l.startsWith(" "));
+
+  const shown: string[] = [];
+  for (const [index, line] of lines.entries()) {
+    if (near(index)) shown.push(line);
+    else if (shown.at(-1) !== "...") shown.push("...");
+  }
+  return shown.join("\n");
+};
+
+/**
+ * What changed in each section between two kept revisions.
+ */
+export const diffVideoMemory = (
+  memory: VideoMemory,
+  from: number,
+  to: number
+) => {
+  const before = findRevision(memory, from).sections;
+  const after = findRevision(memory, to).sections;
+
+  const sections: SectionDiff[] = [];
+  const names = [
+    ...new Set([...Object.keys(before), ...Object.keys(after)]),
+  ].sort();
+  for (const section of names) {
+    const a = before[section];
+    const b = after[section];
+    if (a === b) continue;
+    sections.push({
+      section,
+      status:
+        a === undefined ? "added" : b === undefined ? "removed" : "changed",
+      diff: diffLines(a ?? "", b ?? ""),
+    });
+  }
+
+  return { videoId: memory.videoId, from, to, sections };
+};
+
+/**
+ * The kept revisions without their contents, newest first.
+ */
+export const listMemoryRevisions = (memory: VideoMemory) =>
+  memory.revisions.map(({ sections, ...revision }) => revision).reverse();
+
+/**
+ * Every section except the snapshot as markdown, or null if there are none.
+ */
+export const renderMemoryNotes = (sections: Record<string, string>) => {
+  const notes = Object.entries(sections).filter(
+    ([section]) => section !== SNAPSHOT_SECTION
+  );
+  if (notes.length === 0) return null;
+  // memory imported from legacy-channel-bot is already a document of its own
+  if (notes.length === 1 && notes[0]?.[0] === "notes") return notes[0][1];
+
+  return notes
+    .map(([section, content]) => `## ${section}\n\n${content.trim()}`)
+    .join("\n\n");
+};
+
+/**
+ * The snapshot section, split into the structured snapshot or the markdown
+ * comments-watcher wrote before snapshots were structured.
+ */
+export const storedSnapshot = (
+  sections: Record<string, string>
+): { snapshot: VideoSnapshot | null; legacyMarkdown: string | null } => {
+  const text = sections[SNAPSHOT_SECTION];
+  if (text === undefined) return { snapshot: null, legacyMarkdown: null };
+
+  const snapshot = parseVideoSnapshot(text);
+  return snapshot
+    ? { snapshot, legacyMarkdown: null }
+    : { snapshot: null, legacyMarkdown: text };
+};
@@ -0,0 +1,355 @@
+import z from "zod";
+import {
+  type DescriptionAudit,
+  descriptionAuditSchema,
+} from "./description-audit";
+import {
+  type ErrataTimeline,
+  errataTimelineSchema,
+  formatTimestamp,
+} from "./errata";
+import { type StatsDeltas, statsDeltasSchema } from "./snapshot-history";
+import { type DetectedSponsor, detectedSponsorSchema } from "./sponsors";
+
+// what the video's transcript says about a comment reporting a mistake
+export const transcriptCheckSchema = z.object({
+  verdict: z.enum(["confirmed", "not_found"]),
+  // seconds into the video where the transcript backs the comment up
+  at: z.number().nullable(),
+  // what was said around `at`, taken from the stored transcript in code
+  excerpt: z.string().optional(),
+});
+
+export const flaggedCommentSchema = z.object({
+  category: z.enum([
+    "sponsor_negative",
+    "sponsor_positive",
+    "sponsor_neutral",
+    "editing_mistake",
+    "factual_correction",
+    "description_mistake",
+  ]),
+  // the id getTopComments gave the comment, so repeat flags can be told apart
+  commentId: z.string().optional(),
+  text: z.string(),
+  authorName: z.string().optional(),
+  likeCount: z.number().optional(),
+  note: z.string().optional(),
+  // which of the video's sponsors a sponsor comment is about
+  sponsor: z.string().optional(),
+  // a short label for what the comment is about, e.g. "promo code doesn't work"
+  theme: z.string().optional(),
+  transcriptCheck: transcriptCheckSchema.optional(),
+});
+
+export const commentThemeSchema = z.object({
+  summary: z.string(),
+  exampleComment: z.string().optional(),
+  approximateCount: z.number().optional(),
+  sentiment: z.enum(["positive", "neutral", "negative"]),
+});
+
+export const videoSnapshotSchema = z.object({
+  videoId: z.string(),
+  takenAt: z.string(),
+  video: z.object({
+    title: z.string(),
+    description: z.string(),
+    url: z.string(),
+    channelTitle: z.string(),
+    publishedAt: z.string(),
+    duration: z.string(),
+    thumbnail: z.string().optional(),
+  }),
+  stats: z.object({
+    viewCount: z.number(),
+    likeCount: z.number(),
+    commentCount: z.number(),
+  }),
+  flaggedComments: z.array(flaggedCommentSchema),
+  themes: z.array(commentThemeSchema),
+  sentiment: z.object({
+    overall: z.enum(["positive", "mixed", "neutral", "negative"]),
+    summary: z.string(),
+  }),
+  notes: z.string().optional(),
+  performance: statsDeltasSchema.optional(),
+  sponsors: z.array(detectedSponsorSchema).default([]),
+  descriptionAudit: descriptionAuditSchema.optional(),
+  errata: errataTimelineSchema.optional(),
+});
+
+// what the model fills in, the rest is stamped on in code. The video and its
+// stats come from YouTube rather than the model's copy of them
+export const videoSnapshotInputSchema = videoSnapshotSchema
+  .omit({
+    videoId: true,
+    video: true,
+    stats: true,
+    takenAt: true,
+    performance: true,
+    sponsors: true,
+    descriptionAudit: true,
+    errata: true,
+  })
+  .extend({
+    flaggedComments: z.array(
+      flaggedCommentSchema.extend({
+        transcriptCheck: transcriptCheckSchema
+          .omit({ excerpt: true })
+          .optional(),
+      })
+    ),
+  });
+
+export type TranscriptCheck = z.infer<typeof transcriptCheckSchema>;
+export type FlaggedComment = z.infer<typeof flaggedCommentSchema>;
+export type CommentTheme = z.infer<typeof commentThemeSchema>;
+export type VideoSnapshot = z.infer<typeof videoSnapshotSchema>;
+export type VideoSnapshotInput = z.infer<typeof videoSnapshotInputSchema>;
+
+export const videoUrl = (videoId: string) =>
+  `https://www.youtube.com/watch?v=${videoId}`;
+
+export const buildVideoSnapshot = (
+  input: VideoSnapshotInput,
+  extras: {
+    videoId: string;
+    video: Omit<VideoSnapshot["video"], "url">;
+    stats: VideoSnapshot["stats"];
+    takenAt?: Date;
+    performance?: StatsDeltas;
+    sponsors?: DetectedSponsor[];
+    descriptionAudit?: DescriptionAudit;
+    errata?: ErrataTimeline;
+  }
+): VideoSnapshot => ({
+  ...input,
+  videoId: extras.videoId,
+  stats: extras.stats,
+  takenAt: (extras.takenAt ?? new Date()).toISOString(),
+  performance: extras.performance,
+  sponsors: extras.sponsors ?? [],
+  descriptionAudit: extras.descriptionAudit,
+  errata: extras.errata,
+  video: {
+    ...extras.video,
+    url: videoUrl(extras.videoId),
+  },
+});
+
+export const FLAG_HEADINGS: Record<FlaggedComment["category"], string> = {
+  sponsor_negative: "Critical of sponsor",
+  sponsor_positive: "Positive about sponsor",
+  sponsor_neutral: "About the sponsor",
+  editing_mistake: "Editing mistakes",
+  factual_correction: "Factual corrections",
+  description_mistake: "Description mistakes",
+};
+
+// "confirmed in the transcript at 3:42: "...""
+export const describeTranscriptCheck = (check: TranscriptCheck) => {
+  if (check.verdict === "not_found") return "not found in the transcript";
+
+  const at =
+    check.at !== null ? ` at ${formatTimestamp(Math.floor(check.at))}` : "";
+  return `confirmed in the transcript${at}${check.excerpt ? `: "${check.excerpt}"` : ""}`;
+};
+
+const quote = (text: string) =>
+  text
+    .split("\n")
+    .map((line) => `> ${line}`)
+    .join("\n");
+
+const renderPerformance = (performance: StatsDeltas) => {
+  const lines = [
+    `- Hours since publish: ${performance.hoursSincePublish}`,
+    `- Views/hour since publish: ${performance.viewsPerHourSincePublish}`,
+  ];
+
+  const { sinceLastSnapshot, last24h } = performance;
+  if (sinceLastSnapshot) {
+    lines.push(
+      `- Since last snapshot (${sinceLastSnapshot.hours}h ago): +${sinceLastSnapshot.views} views, +${sinceLastSnapshot.likes} likes, +${sinceLastSnapshot.comments} comments (${sinceLastSnapshot.viewsPerHour} views/hour)`
+    );
+  }
+  if (last24h) {
+    lines.push(
+      `- Trailing ${last24h.hours}h: +${last24h.views} views (${last24h.viewsPerHour} views/hour)`
+    );
+  }
+  lines.push(`- Snapshots recorded: ${performance.snapshotCount}`);
+
+  return lines;
+};
+
+const renderDescriptionAudit = (audit: DescriptionAudit) => {
+  const lines: string[] = [];
+
+  const badLinks = audit.links.filter(
+    (l) => l.status === "broken" || l.status === "unreachable"
+  );
+  lines.push(
+    `- Links: ${audit.links.length} (${badLinks.length} broken or unreachable)`
+  );
+  for (const link of badLinks) {
+    const detail = link.httpStatus ?? link.error ?? link.status;
+    lines.push(`  - ${link.url} (${detail})`);
+  }
+  for (const link of audit.links.filter((l) => l.occurrences > 1)) {
+    lines.push(`  - ${link.url} appears ${link.occurrences} times`);
+  }
+
+  lines.push(`- Chapters: ${audit.chapters.length}`);
+  for (const issue of audit.chapterIssues) {
+    lines.push(`  - ${issue.message}`);
+  }
+
+  if (audit.linkComplaints.length > 0) {
+    lines.push(`- Link complaints: ${audit.linkComplaints.length}`);
+    for (const complaint of audit.linkComplaints) {
+      const target =
+        complaint.link ??
+        (complaint.presentAs
+          ? `already linked as ${complaint.presentAs}`
+          : complaint.subject);
+      lines.push(
+        `  - ${complaint.kind}${target ? ` (${target})` : ""}: "${complaint.text}"`
+      );
+    }
+  }
+
+  return lines;
+};
+
+export const renderSnapshotMarkdown = (snapshot: VideoSnapshot) => {
+  const { video, stats } = snapshot;
+  const lines: string[] = [
+    `# ${video.title}`,
+    "",
+    `_Snapshot taken at ${snapshot.takenAt}_`,
+    "",
+    `- Video URL: ${video.url}`,
+    `- Video ID: ${snapshot.videoId}`,
+    `- Channel: ${video.channelTitle}`,
+    `- Published At: ${video.publishedAt}`,
+    `- Duration: ${video.duration}`,
+    `- Views: ${stats.viewCount}`,
+    `- Likes: ${stats.likeCount}`,
+    `- Comments: ${stats.commentCount}`,
+  ];
+
+  if (video.thumbnail) {
+    lines.push("", `![thumbnail](${video.thumbnail})`);
+  }
+
+  if (snapshot.performance) {
+    lines.push(
+      "",
+      "## Performance",
+      "",
+      ...renderPerformance(snapshot.performance)
+    );
+  }
+
+  if (snapshot.sponsors.length > 0) {
+    lines.push("", "## Sponsors", "");
+    for (const sponsor of snapshot.sponsors) {
+      lines.push(`- ${sponsor.name} (${sponsor.evidence.join(", ")})`);
+      for (const link of sponsor.links) lines.push(`  - ${link}`);
+    }
+  }
+
+  lines.push("", "## Description", "", quote(video.description || "(empty)"));
+
+  if (snapshot.descriptionAudit) {
+    lines.push(
+      "",
+      "## Description audit",
+      "",
+      ...renderDescriptionAudit(snapshot.descriptionAudit)
+    );
+  }
+
+  lines.push("", "## Flagged comments");
+  if (snapshot.flaggedComments.length === 0) {
+    lines.push("", "Nothing flagged.");
+  }
+  for (const category of Object.keys(FLAG_HEADINGS) as Array<
+    FlaggedComment["category"]
+  >) {
+    const flagged = snapshot.flaggedComments.filter(
+      (c) => c.category === category
+    );
+    if (flagged.length === 0) continue;
+
+    lines.push("", `### ${FLAG_HEADINGS[category]}`, "");
+    for (const comment of flagged) {
+      const meta = [
+        comment.sponsor,
+        comment.theme,
+        comment.authorName,
+        comment.likeCount !== undefined ? `${comment.likeCount} likes` : null,
+      ]
+        .filter(Boolean)
+        .join(", ");
+      lines.push(`- "${comment.text}"${meta ? ` (${meta})` : ""}`);
+      if (comment.note) lines.push(`  - ${comment.note}`);
+      if (comment.transcriptCheck) {
+        lines.push(
+          `  - Transcript: ${describeTranscriptCheck(comment.transcriptCheck)}`
+        );
+      }
+    }
+  }
+
+  if (snapshot.errata && snapshot.errata.entries.length > 0) {
+    lines.push("", "## Errata", "");
+    for (const entry of snapshot.errata.entries) {
+      const range =
+        entry.endSeconds > entry.startSeconds
+          ? `${entry.timestamp}-${formatTimestamp(entry.endSeconds)}`
+          : entry.timestamp;
+      const reports = `${entry.reportCount} report${entry.reportCount === 1 ? "" : "s"}`;
+      lines.push(`- **${range}** (${reports}): "${entry.strongest.text}"`);
+    }
+  }
+
+  lines.push("", "## Comment themes", "");
+  if (snapshot.themes.length === 0) {
+    lines.push("No recurring themes.");
+  }
+  for (const theme of snapshot.themes) {
+    const count =
+      theme.approximateCount !== undefined
+        ? ` (~${theme.approximateCount} comments)`
+        : "";
+    lines.push(`- **${theme.sentiment}**: ${theme.summary}${count}`);
+    if (theme.exampleComment) lines.push(`  - e.g. "${theme.exampleComment}"`);
+  }
+
+  lines.push(
+    "",
+    "## Sentiment",
+    "",
+    `Overall: **${snapshot.sentiment.overall}**`,
+    "",
+    snapshot.sentiment.summary
+  );
+
+  if (snapshot.notes) {
+    lines.push("", "## Notes", "", snapshot.notes);
+  }
+
+  return `${lines.join("\n")}\n`;
+};
+
+export const parseVideoSnapshot = (text: string): VideoSnapshot | null => {
+  try {
+    const parsed = videoSnapshotSchema.safeParse(JSON.parse(text));
+    return parsed.success ? parsed.data : null;
+  } catch {
+    return null;
+  }
+};
@@ -0,0 +1,527 @@
+import type { AgentContext } from "@agentuity/sdk";
+import z from "zod";
+import {
+  estimateSimilarity,
+  minHashSignature,
+  normalizeCommentText,
+} from "./comment-clusters";
+import { withKeyLock } from "./concurrency";
+import { AGENT_ERROR } from "./errors";
+import { isQuestion } from "./reply-drafts";
+import { commentsFromThreads, triageComments } from "./spam-triage";
+import type { CommentThread } from "./youtube-comments";
+
+const KV_NAMESPACE = "viewer-faq";
+// the least asked unanswered questions are dropped past this
+const MAX_FAQ_ENTRIES = 500;
+// a little looser than comment clustering, the same question gets asked in
+// more different words than the same comment gets repeated
+const FAQ_SIMILARITY_THRESHOLD = 0.45;
+// short questions asked in other words share few shingles but the same key
+// words ("what font is that" / "which font do you use"), so they're also
+// matched on those
+const FAQ_TERM_OVERLAP = 0.5;
+const MAX_SAMPLE_QUESTIONS = 3;
+const MAX_QUESTION_CHARS = 300;
+// trends compare the last this many weeks with the ones before
+const TREND_WEEKS = 4;
+// YouTube doesn't take longer comments
+const MAX_PINNED_COMMENT_CHARS = 10_000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// words that say nothing about what's being asked
+const STOP_WORDS = new Set(
+  `a an the and or but if of in on at to for from with by about as
+  is are was were be been am do does did doing have has had
+  can could will would should shall may might must
+  what whats which who whom whose when where why how
+  that this these those there here it its i im me my you your youre
+  he she they them their we our us
+  use using used get got make made know think
+  any some just really so very please video videos`
+    .trim()
+    .split(/\s+/)
+);
+
+export const faqEntrySchema = z.object({
+  id: z.string(),
+  // the most liked wording, or the one set with an answer
+  question: z.string(),
+  sampleQuestions: z.array(z.string()),
+  answer: z.string().nullable(),
+  answeredAt: z.string().nullable(),
+  askCount: z.number(),
+  likeCount: z.number(),
+  videos: z.array(
+    z.object({ videoId: z.string(), title: z.string(), askCount: z.number() })
+  ),
+  // asks per week, keyed by the UTC date of the week's Monday
+  weekly: z.record(z.string(), z.number()),
+  firstAskedAt: z.string(),
+  lastAskedAt: z.string(),
+});
+
+export const viewerFaqSchema = z.object({
+  channelId: z.string(),
+  updatedAt: z.string().nullable(),
+  entries: z.array(faqEntrySchema),
+});
+
+export type FaqEntry = z.infer<typeof faqEntrySchema>;
+export type ViewerFaq = z.infer<typeof viewerFaqSchema>;
+
+export interface FaqQuestion {
+  commentId: string;
+  videoId: string;
+  videoTitle: string;
+  text: string;
+  likeCount: number;
+  publishedAt: string;
+}
+
+/**
+ * The words of a question that say what it's about, with plurals folded.
+ */
+export const questionTerms = (text: string) =>
+  new Set(
+    normalizeCommentText(text)
+      .split(" ")
+      .filter((w) => w.length > 2 && !STOP_WORDS.has(w))
+      .map((w) => (w.length > 4 && w.endsWith("s") ? w.slice(0, -1) : w))
+  );
+
+// shared terms over the terms of the shorter question
+const termOverlap = (a: Set<string>, b: Set<string>) => {
+  if (a.size === 0 || b.size === 0) return 0;
+  let shared = 0;
+  for (const term of a) if (b.has(term)) shared += 1;
+  return shared / Math.min(a.size, b.size);
+};
+
+interface QuestionKey {
+  signature: number[];
+  terms: Set<string>;
+}
+
+const questionKey = (text: string): QuestionKey => ({
+  signature: minHashSignature(text),
+  terms: questionTerms(text),
+});
+
+// how alike two questions are, 0 when they're too far apart to merge
+const questionSimilarity = (a: QuestionKey, b: QuestionKey) => {
+  const similarity = estimateSimilarity(a.signature, b.signature);
+  if (similarity >= FAQ_SIMILARITY_THRESHOLD) return similarity;
+  const overlap = termOverlap(a.terms, b.terms);
+  return overlap >= FAQ_TERM_OVERLAP ? overlap : 0;
+};
+
+export type FaqTrend = "new" | "rising" | "steady" | "falling" | "quiet";
+
+/**
+ * The question part of a comment: its sentences ending in a question mark,
+ * or the whole comment when it reads as a question without one. Null for
+ * comments that don't ask anything.
+ */
+export const extractQuestion = (text: string) => {
+  const sentences = text
+    .replace(/<br\s*\/?>/gi, "\n")
+    .split(/(?<=[.!?])\s+|\n+/)
+    .map((s) => s.trim())
+    .filter(Boolean);
+
+  const asked = sentences.filter((s) => s.endsWith("?"));
+  const question =
+    asked.length > 0 ? asked.join(" ") : isQuestion(text) ? text.trim() : null;
+  if (!question || !normalizeCommentText(question)) return null;
+
+  return question.length > MAX_QUESTION_CHARS
+    ? `${question.slice(0, MAX_QUESTION_CHARS - 3)}...`
+    : question;
+};
+
+/**
+ * The questions viewers asked in a video's top level comments. Replies are
+ * left out, they're mostly answers or questions to the commenter, and so is
+ * anything the channel wrote itself or that looks like spam.
+ */
+export const questionsFromThreads = (
+  threads: CommentThread[],
+  data: {
+    video: { videoId: string; title: string };
+    channel: { names: string[]; channelId?: string };
+  }
+): FaqQuestion[] => {
+  const { video, channel } = data;
+
+  const spam = new Set(
+    triageComments(commentsFromThreads(threads), channel)
+      .filter((v) => !v.borderline)
+      .map((v) => v.comment.commentId)
+  );
+
+  return threads.flatMap((thread) => {
+    if (spam.has(thread.commentId)) return [];
+    if (channel.channelId && thread.authorChannelId === channel.channelId) {
+      return [];
+    }
+
+    const text = extractQuestion(thread.text);
+    return text
+      ? [
+          {
+            commentId: thread.commentId,
+            videoId: video.videoId,
+            videoTitle: video.title,
+            text,
+            likeCount: thread.likeCount,
+            publishedAt: thread.publishedAt,
+          },
+        ]
+      : [];
+  });
+};
+
+// "2026-10-14T09:00:00Z" -> "2026-10-12", the Monday of its week
+export const weekOf = (iso: string) => {
+  const date = new Date(iso);
+  const sinceMonday = (date.getUTCDay() + 6) % 7;
+  return new Date(date.getTime() - sinceMonday * DAY_MS)
+    .toISOString()
+    .slice(0, 10);
+};
+
+const latest = (a: string, b: string) => (a > b ? a : b);
+const earliest = (a: string, b: string) => (a < b ? a : b);
+
+const compareEntries = (a: FaqEntry, b: FaqEntry) =>
+  b.askCount - a.askCount ||
+  b.videos.length - a.videos.length ||
+  b.lastAskedAt.localeCompare(a.lastAskedAt);
+
+/**
+ * Folds newly read questions into the FAQ. Each question joins the entry it
+ * is most similar to (its main wording or one of the samples, by shingles or
+ * key words), or starts a new one. Questions are visited most liked first,
+ * so a new entry is worded like its most liked ask. Like comment
+ * clustering, this is deterministic.
+ */
+export const mergeFaqQuestions = (
+  faq: ViewerFaq,
+  questions: FaqQuestion[],
+  now = new Date()
+) => {
+  const entries = faq.entries.map((e) => ({
+    ...e,
+    videos: e.videos.map((v) => ({ ...v })),
+    weekly: { ...e.weekly },
+  }));
+  const keys = new Map(
+    entries.map((e) => [
+      e.id,
+      [e.question, ...e.sampleQuestions].map(questionKey),
+    ])
+  );
+  const added = new Set<string>();
+  const touched = new Set<string>();
+
+  const ordered = [...questions].sort(
+    (a, b) =>
+      b.likeCount - a.likeCount || a.commentId.localeCompare(b.commentId)
+  );
+  for (const question of ordered) {
+    const key = questionKey(question.text);
+
+    let best: { entry: FaqEntry; similarity: number } | null = null;
+    for (const entry of entries) {
+      const similarity = Math.max(
+        0,
+        ...(keys.get(entry.id) ?? []).map((k) => questionSimilarity(k, key))
+      );
+      if (similarity > 0 && (!best || similarity > best.similarity)) {
+        best = { entry, similarity };
+      }
+    }
+
+    const week = weekOf(question.publishedAt || now.toISOString());
+    if (!best) {
+      const entry: FaqEntry = {
+        id: `faq-${question.commentId}`,
+        question: question.text,
+        sampleQuestions: [],
+        answer: null,
+        answeredAt: null,
+        askCount: 1,
+        likeCount: question.likeCount,
+        videos: [
+          {
+            videoId: question.videoId,
+            title: question.videoTitle,
+            askCount: 1,
+          },
+        ],
+        weekly: { [week]: 1 },
+        firstAskedAt: question.publishedAt,
+        lastAskedAt: question.publishedAt,
+      };
+      entries.push(entry);
+      keys.set(entry.id, [key]);
+      added.add(entry.id);
+      continue;
+    }
+
+    const { entry } = best;
+    entry.askCount += 1;
+    entry.likeCount += question.likeCount;
+    entry.weekly[week] = (entry.weekly[week] ?? 0) + 1;
+    entry.firstAskedAt = earliest(entry.firstAskedAt, question.publishedAt);
+    entry.lastAskedAt = latest(entry.lastAskedAt, question.publishedAt);
+
+    const video = entry.videos.find((v) => v.videoId === question.videoId);
+    if (video) video.askCount += 1;
+    else {
+      entry.videos.push({
+        videoId: question.videoId,
+        title: question.videoTitle,
+        askCount: 1,
+      });
+    }
+
+    const normalized = normalizeCommentText(question.text);
+    if (
+      entry.sampleQuestions.length < MAX_SAMPLE_QUESTIONS &&
+      ![entry.question, ...entry.sampleQuestions].some(
+        (q) => normalizeCommentText(q) === normalized
+      )
+    ) {
+      entry.sampleQuestions.push(question.text);
+      keys.get(entry.id)?.push(key);
+    }
+    if (!added.has(entry.id)) touched.add(entry.id);
+  }
+
+  // answered entries are always kept, the rest by how often they're asked
+  const answered = entries.filter((e) => e.answer !== null);
+  const open = entries
+    .filter((e) => e.answer === null)
+    .sort(compareEntries)
+    .slice(0, Math.max(0, MAX_FAQ_ENTRIES - answered.length));
+  const kept = [...answered, ...open].sort(compareEntries);
+  const keptIds = new Set(kept.map((e) => e.id));
+
+  return {
+    faq: {
+      channelId: faq.channelId,
+      updatedAt: now.toISOString(),
+      entries: kept,
+    },
+    added: [...added].filter((id) => keptIds.has(id)).length,
+    updated: touched.size,
+  };
+};
+
+/**
+ * How often a question was asked in the last TREND_WEEKS weeks against the
+ * TREND_WEEKS before.
+ */
+export const faqTrend = (entry: FaqEntry, now = new Date()) => {
+  const thisWeek = Date.parse(weekOf(now.toISOString()));
+  const recentFrom = thisWeek - (TREND_WEEKS - 1) * 7 * DAY_MS;
+  const previousFrom = recentFrom - TREND_WEEKS * 7 * DAY_MS;
+
+  let recent = 0;
+  let previous = 0;
+  for (const [week, asks] of Object.entries(entry.weekly)) {
+    const start = Date.parse(week);
+    if (start >= recentFrom) recent += asks;
+    else if (start >= previousFrom) previous += asks;
+  }
+
+  const trend: FaqTrend =
+    recent === 0
+      ? "quiet"
+      : Date.parse(entry.firstAskedAt) >= recentFrom
+        ? "new"
+        : recent > previous * 1.5
+          ? "rising"
+          : recent * 1.5 < previous
+            ? "falling"
+            : "steady";
+
+  return { trend, recent, previous, weeks: TREND_WEEKS };
+};
+
+export const readViewerFaq = async (
+  ctx: AgentContext,
+  channelId: string
+): Promise<ViewerFaq> => {
+  const r = await ctx.kv.get(KV_NAMESPACE, channelId);
+  if (!r.exists) return { channelId, updatedAt: null, entries: [] };
+
+  const parsed = viewerFaqSchema.safeParse(await r.data.json());
+  if (!parsed.success) {
+    throw new Error(`Malformed FAQ for ${channelId}`);
+  }
+  return parsed.data;
+};
+
+const writeViewerFaq = async (ctx: AgentContext, faq: ViewerFaq) => {
+  await ctx.kv.set(KV_NAMESPACE, faq.channelId, JSON.stringify(faq), {
+    contentType: "application/json",
+  });
+};
+
+// changes to a channel's FAQ run under this, so an answer saved while a
+// build is merging questions isn't lost
+const withFaqLock = <T>(channelId: string, fn: () => Promise<T>) =>
+  withKeyLock(`${KV_NAMESPACE}/${channelId}`, fn);
+
+/**
+ * Merges `questions` into the channel's stored FAQ (see mergeFaqQuestions)
+ * and saves it.
+ */
+export const addViewerFaqQuestions = (
+  ctx: AgentContext,
+  channelId: string,
+  questions: FaqQuestion[]
+) =>
+  withFaqLock(channelId, async () => {
+    const merged = mergeFaqQuestions(
+      await readViewerFaq(ctx, channelId),
+      questions
+    );
+    await writeViewerFaq(ctx, merged.faq);
+    return merged;
+  });
+
+/**
+ * The FAQ entries asked at least `minAsks` times, most asked first, each
+ * with its trend and its weekly asks as a series.
+ */
+export const listFaqEntries = (
+  faq: ViewerFaq,
+  filter: { minAsks?: number; unanswered?: boolean } = {},
+  now = new Date()
+) =>
+  faq.entries
+    .filter(
+      (e) =>
+        e.askCount >= (filter.minAsks ?? 1) &&
+        (!filter.unanswered || e.answer === null)
+    )
+    .map((e) => ({
+      ...e,
+      videoCount: e.videos.length,
+      weekly: Object.entries(e.weekly)
+        .sort(([a], [b]) => a.localeCompare(b))
+        .map(([week, asks]) => ({ week, asks })),
+      trend: faqTrend(e, now),
+    }));
+
+/**
+ * Sets (or with null, clears) the answer to an FAQ entry, and optionally how
+ * its question reads in the exported FAQ.
+ */
+export const answerFaqEntry = (data: {
+  ctx: AgentContext;
+  channelId: string;
+  id: string;
+  answer: string | null;
+  question?: string;
+}) => {
+  const { ctx, channelId, id, answer, question } = data;
+
+  return withFaqLock(channelId, async () => {
+    const faq = await readViewerFaq(ctx, channelId);
+    const entry = faq.entries.find((e) => e.id === id);
+    if (!entry) {
+      throw new AGENT_ERROR({
+        code: "invalid_input",
+        message: `No FAQ entry ${id}`,
+      });
+    }
+
+    const updated: FaqEntry = {
+      ...entry,
+      ...(question !== undefined && question !== entry.question
+        ? {
+            question,
+            // the old wording still matches new asks
+            sampleQuestions: [entry.question, ...entry.sampleQuestions]
+              .filter(
+                (q) =>
+                  normalizeCommentText(q) !== normalizeCommentText(question)
+              )
+              .slice(0, MAX_SAMPLE_QUESTIONS),
+          }
+        : {}),
+      answer,
+      answeredAt: answer === null ? null : new Date().toISOString(),
+    };
+    await writeViewerFaq(ctx, {
+      ...faq,
+      entries: faq.entries.map((e) => (e.id === id ? updated : e)),
+    });
+    return updated;
+  });
+};
+
+const renderPinned = (channelName: string, entries: FaqEntry[]) => {
+  let text = `*${channelName} FAQ*`;
+  for (const entry of entries) {
+    const block = `\n\n*Q: ${entry.question}*\nA: ${entry.answer ?? "No answer yet"}`;
+    // drop the least asked questions rather than cutting one in half
+    if (text.length + block.length > MAX_PINNED_COMMENT_CHARS) break;
+    text += block;
+  }
+  return text;
+};
+
+const renderPage = (
+  channelName: string,
+  faq: ViewerFaq,
+  entries: FaqEntry[]
+) => {
+  const lines: string[] = [`# ${channelName} FAQ`];
+  if (faq.updatedAt) lines.push("", `_Updated ${faq.updatedAt.slice(0, 10)}_`);
+  if (entries.length === 0) lines.push("", "No questions yet.");
+
+  for (const entry of entries) {
+    lines.push(
+      "",
+      `## ${entry.question}`,
+      "",
+      entry.answer ?? "_Not answered yet._",
+      "",
+      `<sub>Asked ${entry.askCount} time${entry.askCount === 1 ? "" : "s"} on ${entry.videos.length} video${entry.videos.length === 1 ? "" : "s"}</sub>`
+    );
+  }
+  return lines.join("\n");
+};
+
+/**
+ * The FAQ as markdown. The `page` style is a document for a website; the
+ * `pinned` style sticks to the bold text YouTube renders in comments and
+ * fits in one comment.
+ */
+export const renderFaqMarkdown = (
+  faq: ViewerFaq,
+  options: {
+    channelName: string;
+    style: "page" | "pinned";
+    minAsks: number;
+    includeUnanswered: boolean;
+  }
+) => {
+  const { channelName, style, minAsks, includeUnanswered } = options;
+
+  const entries = faq.entries
+    .filter(
+      (e) => e.askCount >= minAsks && (includeUnanswered || e.answer !== null)
+    )
+    .sort(compareEntries);
+
+  return style === "pinned"
+    ? renderPinned(channelName, entries)
+    : renderPage(channelName, faq, entries);
+};
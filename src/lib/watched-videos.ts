@@ -0,0 +1,81 @@
+import type { AgentContext } from "@agentuity/sdk";
+import z from "zod";
+import { withKeyLock } from "./concurrency";
+
+// KV has no way to list keys, so every video that gets a snapshot is also
+// recorded here for the reports that span all of them
+const INDEX_KEY = "watched-videos";
+
+export const watchedVideoSchema = z.object({
+  videoId: z.string(),
+  title: z.string(),
+  channelTitle: z.string(),
+  // missing from entries written before it was recorded
+  channelId: z.string().optional(),
+  publishedAt: z.string(),
+  firstWatchedAt: z.string(),
+  lastSnapshotAt: z.string(),
+});
+
+export type WatchedVideo = z.infer<typeof watchedVideoSchema>;
+
+export const readWatchedVideos = async (data: {
+  ctx: AgentContext;
+  namespace: string;
+}): Promise<WatchedVideo[]> => {
+  const { ctx, namespace } = data;
+
+  const r = await ctx.kv.get(namespace, INDEX_KEY);
+  if (!r.exists) return [];
+
+  const parsed = z.array(watchedVideoSchema).safeParse(await r.data.json());
+  if (!parsed.success) {
+    ctx.logger.warn(`Ignoring malformed watched video index in ${namespace}`);
+    return [];
+  }
+
+  return parsed.data;
+};
+
+/**
+ * Adds the videos to the index, or bumps their last snapshot time if they're
+ * already there.
+ */
+export const markVideosWatched = async (data: {
+  ctx: AgentContext;
+  namespace: string;
+  videos: Array<Omit<WatchedVideo, "firstWatchedAt">>;
+}) => {
+  const { ctx, namespace, videos } = data;
+
+  return withKeyLock(`${namespace}/${INDEX_KEY}`, async () => {
+    const index = new Map(
+      (await readWatchedVideos({ ctx, namespace })).map((v) => [v.videoId, v])
+    );
+    for (const video of videos) {
+      const existing = index.get(video.videoId);
+      index.set(video.videoId, {
+        ...video,
+        firstWatchedAt: existing?.firstWatchedAt ?? video.lastSnapshotAt,
+      });
+    }
+    const updated = [...index.values()];
+
+    await ctx.kv.set(namespace, INDEX_KEY, JSON.stringify(updated), {
+      contentType: "application/json",
+    });
+
+    return updated;
+  });
+};
+
+export const markVideoWatched = async (data: {
+  ctx: AgentContext;
+  namespace: string;
+  video: Omit<WatchedVideo, "firstWatchedAt">;
+}) =>
+  markVideosWatched({
+    ctx: data.ctx,
+    namespace: data.namespace,
+    videos: [data.video],
+  });
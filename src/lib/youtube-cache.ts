@@ -0,0 +1,139 @@
+import type { AgentContext } from "@agentuity/sdk";
+import type { YouTubeDataSource } from "./youtube-data-source";
+
+const KV_NAMESPACE = "youtube-cache";
+
+type Endpoint = keyof YouTubeDataSource;
+
+// seconds, statistics move quickly, comments and channel details less so
+export const CACHE_TTLS: Record<Endpoint, number> = {
+  listVideos: 10 * 60,
+  listCommentThreads: 60 * 60,
+  listComments: 60 * 60,
+  listChannels: 24 * 60 * 60,
+  listPlaylistItems: 10 * 60,
+  searchChannelVideos: 10 * 60,
+  // caption tracks are expensive and rarely change once published
+  listCaptions: 24 * 60 * 60,
+  downloadCaption: 24 * 60 * 60,
+};
+
+export interface CacheStats {
+  hits: number;
+  misses: number;
+  // calls that piggybacked on an identical request already in flight
+  deduped: number;
+  byEndpoint: Partial<Record<Endpoint, { hits: number; misses: number }>>;
+}
+
+export const emptyCacheStats = (): CacheStats => ({
+  hits: 0,
+  misses: 0,
+  deduped: 0,
+  byEndpoint: {},
+});
+
+// shared by every agent running in this process, so two agents asking for the
+// same thing at the same time only make one call
+const inFlight = new Map<string, Promise<unknown>>();
+
+const cacheKey = (endpoint: Endpoint, params: object) =>
+  `${endpoint}:${JSON.stringify(
+    Object.entries(params)
+      .filter(([, value]) => value !== undefined)
+      .sort(([a], [b]) => a.localeCompare(b))
+  )}`;
+
+/**
+ * Wraps a data source with a KV backed response cache. With `bypass` set
+ * nothing is read from the cache, but fresh responses are still written to it.
+ */
+export const withCache = (
+  source: YouTubeDataSource,
+  options: {
+    ctx: AgentContext;
+    bypass?: boolean;
+    ttls?: Partial<Record<Endpoint, number>>;
+    stats?: CacheStats;
+  }
+): YouTubeDataSource => {
+  const { ctx, bypass = false, stats = emptyCacheStats() } = options;
+  const ttls = { ...CACHE_TTLS, ...options.ttls };
+
+  const count = (endpoint: Endpoint, outcome: "hits" | "misses") => {
+    stats[outcome] += 1;
+    const forEndpoint = stats.byEndpoint[endpoint] ?? { hits: 0, misses: 0 };
+    forEndpoint[outcome] += 1;
+    stats.byEndpoint[endpoint] = forEndpoint;
+  };
+
+  const cached = <P extends object, R>(
+    endpoint: Endpoint,
+    call: (params: P) => Promise<R>,
+    // calls that must always see the latest response, they skip the cache
+    // read like `bypass` does
+    alwaysFresh?: (params: P) => boolean
+  ) => {
+    return async (params: P): Promise<R> => {
+      const key = cacheKey(endpoint, params);
+
+      if (!bypass && !alwaysFresh?.(params)) {
+        const hit = await ctx.kv.get(KV_NAMESPACE, key).catch((e: unknown) => {
+          ctx.logger.warn(`youtube cache read failed for ${key}`, e);
+          return null;
+        });
+        if (hit?.exists) {
+          count(endpoint, "hits");
+          return (await hit.data.json()) as R;
+        }
+      }
+
+      count(endpoint, "misses");
+
+      const pending = inFlight.get(key);
+      if (pending) {
+        stats.deduped += 1;
+        return pending as Promise<R>;
+      }
+
+      const request = call(params)
+        .then(async (value) => {
+          await ctx.kv
+            .set(KV_NAMESPACE, key, JSON.stringify(value), {
+              ttl: ttls[endpoint],
+              contentType: "application/json",
+            })
+            .catch((e: unknown) => {
+              ctx.logger.warn(`youtube cache write failed for ${key}`, e);
+            });
+          return value;
+        })
+        .finally(() => {
+          inFlight.delete(key);
+        });
+      inFlight.set(key, request);
+
+      return request;
+    };
+  };
+
+  return {
+    listVideos: cached("listVideos", source.listVideos),
+    // newest first pages are what incremental fetches stop on, an hour old
+    // one would hide the comments posted since
+    listCommentThreads: cached(
+      "listCommentThreads",
+      source.listCommentThreads,
+      ({ order }) => order === "time"
+    ),
+    listComments: cached("listComments", source.listComments),
+    listChannels: cached("listChannels", source.listChannels),
+    listPlaylistItems: cached("listPlaylistItems", source.listPlaylistItems),
+    searchChannelVideos: cached(
+      "searchChannelVideos",
+      source.searchChannelVideos
+    ),
+    listCaptions: cached("listCaptions", source.listCaptions),
+    downloadCaption: cached("downloadCaption", source.downloadCaption),
+  };
+};
@@ -0,0 +1,223 @@
+import type { AgentContext } from "@agentuity/sdk";
+import type { youtube_v3 } from "googleapis";
+import type { YouTubeDataSource } from "./youtube-data-source";
+
+// the API rejects anything larger than this for a single page
+const MAX_PAGE_SIZE = 100;
+const DEFAULT_MAX_REPLIES_PER_THREAD = 500;
+
+export interface CommentReply {
+  commentId: string;
+  text: string;
+  authorName: string;
+  // set when YouTube says which channel wrote the comment
+  authorChannelId?: string;
+  likeCount: number;
+  publishedAt: string;
+}
+
+export interface CommentThread extends CommentReply {
+  replyCount: number;
+  replies: CommentReply[];
+}
+
+export interface FetchCommentThreadsResult {
+  threads: CommentThread[];
+  pagesFetched: number;
+  // true when the budget ran out before the video's comments did
+  truncated: boolean;
+  newestPublishedAt: string | null;
+}
+
+const toReply = (comment: youtube_v3.Schema$Comment): CommentReply => ({
+  commentId: comment.id ?? "",
+  text: comment.snippet?.textDisplay ?? "",
+  authorName: comment.snippet?.authorDisplayName ?? "",
+  authorChannelId: comment.snippet?.authorChannelId?.value ?? undefined,
+  likeCount: comment.snippet?.likeCount ?? 0,
+  publishedAt: comment.snippet?.publishedAt ?? "",
+});
+
+const fetchAllReplies = async (data: {
+  youtube: YouTubeDataSource;
+  parentId: string;
+  maxReplies: number;
+}) => {
+  const { youtube, parentId, maxReplies } = data;
+
+  const replies: CommentReply[] = [];
+  let pageToken: string | undefined;
+
+  do {
+    const r = await youtube.listComments({
+      parentId,
+      maxResults: Math.min(MAX_PAGE_SIZE, maxReplies - replies.length),
+      pageToken,
+    });
+
+    replies.push(...(r.items ?? []).map(toReply));
+    pageToken = r.nextPageToken ?? undefined;
+  } while (pageToken && replies.length < maxReplies);
+
+  return replies;
+};
+
+/**
+ * Pages through `commentThreads.list` until `budget` top level comments have
+ * been collected or the video runs out of comments.
+ *
+ * When `since` is set the threads are read newest first and paging stops at
+ * the first thread that isn't newer than `since`. Note that this only looks at
+ * when a thread was started, new replies on an old thread are not picked up.
+ */
+export const fetchCommentThreads = async (data: {
+  youtube: YouTubeDataSource;
+  videoId: string;
+  budget: number;
+  order?: "relevance" | "time";
+  expandReplies?: boolean;
+  maxRepliesPerThread?: number;
+  since?: string | null;
+}): Promise<FetchCommentThreadsResult> => {
+  const {
+    youtube,
+    videoId,
+    budget,
+    expandReplies = true,
+    maxRepliesPerThread = DEFAULT_MAX_REPLIES_PER_THREAD,
+    since,
+  } = data;
+  const order = since ? "time" : (data.order ?? "relevance");
+  const sinceMs = since ? Date.parse(since) : null;
+
+  const threads: CommentThread[] = [];
+  let pageToken: string | undefined;
+  let pagesFetched = 0;
+  let reachedWatermark = false;
+
+  while (threads.length < budget) {
+    const r = await youtube.listCommentThreads({
+      videoId,
+      order,
+      maxResults: Math.min(MAX_PAGE_SIZE, budget - threads.length),
+      pageToken,
+    });
+    pagesFetched += 1;
+
+    for (const item of r.items ?? []) {
+      const topLevel = item.snippet?.topLevelComment;
+      if (!topLevel) continue;
+
+      const thread: CommentThread = {
+        ...toReply(topLevel),
+        replyCount: item.snippet?.totalReplyCount ?? 0,
+        replies: item.replies?.comments?.map(toReply) ?? [],
+      };
+
+      if (sinceMs !== null && Date.parse(thread.publishedAt) <= sinceMs) {
+        reachedWatermark = true;
+        break;
+      }
+
+      threads.push(thread);
+      if (threads.length >= budget) break;
+    }
+
+    pageToken = r.nextPageToken ?? undefined;
+    if (!pageToken || reachedWatermark) break;
+  }
+
+  if (expandReplies) {
+    // the thread only embeds a handful of replies, go get the rest
+    for (const thread of threads) {
+      if (thread.replyCount <= thread.replies.length) continue;
+
+      thread.replies = await fetchAllReplies({
+        youtube,
+        parentId: thread.commentId,
+        maxReplies: maxRepliesPerThread,
+      });
+    }
+  }
+
+  const newestPublishedAt = threads.reduce<string | null>(
+    (newest, t) =>
+      newest === null || Date.parse(t.publishedAt) > Date.parse(newest)
+        ? t.publishedAt
+        : newest,
+    null
+  );
+
+  return {
+    threads,
+    pagesFetched,
+    truncated: threads.length >= budget && !reachedWatermark,
+    newestPublishedAt,
+  };
+};
+
+const watermarkKey = (videoId: string) => `${videoId}/comments-watermark`;
+
+export const readCommentWatermark = async (data: {
+  ctx: AgentContext;
+  namespace: string;
+  videoId: string;
+}) => {
+  const { ctx, namespace, videoId } = data;
+
+  const r = await ctx.kv.get(namespace, watermarkKey(videoId));
+  if (!r.exists) return null;
+
+  return r.data.text();
+};
+
+export const writeCommentWatermark = async (data: {
+  ctx: AgentContext;
+  namespace: string;
+  videoId: string;
+  publishedAt: string;
+}) => {
+  const { ctx, namespace, videoId, publishedAt } = data;
+
+  await ctx.kv.set(namespace, watermarkKey(videoId), publishedAt);
+};
+
+/**
+ * Commits the watermarks of a run's incremental fetches, newest comment seen
+ * by video id.
+ */
+export const writeCommentWatermarks = async (data: {
+  ctx: AgentContext;
+  namespace: string;
+  watermarks: Map<string, string>;
+}) => {
+  const { ctx, namespace, watermarks } = data;
+
+  for (const [videoId, publishedAt] of watermarks) {
+    await writeCommentWatermark({ ctx, namespace, videoId, publishedAt });
+  }
+};
+
+/**
+ * Fetches only the comments posted since the last incremental fetch for this
+ * namespace. The watermark isn't moved here: `watermark` is the newest comment
+ * seen (null when there was nothing new), and the caller commits it with
+ * `writeCommentWatermark` once it has done what it fetched the comments for,
+ * so a run that fails reads them again next time. If the budget runs out
+ * first the older part of the backlog is skipped.
+ */
+export const fetchNewCommentThreads = async (data: {
+  ctx: AgentContext;
+  namespace: string;
+  youtube: YouTubeDataSource;
+  videoId: string;
+  budget: number;
+  expandReplies?: boolean;
+}) => {
+  const { ctx, namespace, videoId } = data;
+
+  const since = await readCommentWatermark({ ctx, namespace, videoId });
+  const result = await fetchCommentThreads({ ...data, since });
+
+  return { ...result, since, watermark: result.newestPublishedAt };
+};
@@ -0,0 +1,247 @@
+import { readFile } from "node:fs/promises";
+import { join } from "node:path";
+import type { AgentContext } from "@agentuity/sdk";
+import { google, type youtube_v3 } from "googleapis";
+import { oauthCredentialsFromEnv, oauthYouTube } from "./comment-publisher";
+import { type CacheStats, emptyCacheStats, withCache } from "./youtube-cache";
+import { withQuota } from "./youtube-quota";
+
+/**
+ * Everything the agents read from the YouTube Data API goes through this
+ * interface. The shapes are the API's own request/response shapes so the
+ * fixture backend can replay recorded responses verbatim.
+ */
+export interface YouTubeDataSource {
+  listVideos(params: {
+    id: string[];
+    part: string[];
+  }): Promise<youtube_v3.Schema$VideoListResponse>;
+  listCommentThreads(params: {
+    videoId: string;
+    order: "relevance" | "time";
+    maxResults: number;
+    pageToken?: string;
+  }): Promise<youtube_v3.Schema$CommentThreadListResponse>;
+  listComments(params: {
+    parentId: string;
+    maxResults: number;
+    pageToken?: string;
+  }): Promise<youtube_v3.Schema$CommentListResponse>;
+  listChannels(params: {
+    id: string[];
+    part: string[];
+  }): Promise<youtube_v3.Schema$ChannelListResponse>;
+  searchChannelVideos(params: {
+    channelId: string;
+    maxResults: number;
+  }): Promise<youtube_v3.Schema$SearchListResponse>;
+  listPlaylistItems(params: {
+    playlistId: string;
+    maxResults: number;
+    pageToken?: string;
+  }): Promise<youtube_v3.Schema$PlaylistItemListResponse>;
+  listCaptions(params: {
+    videoId: string;
+  }): Promise<youtube_v3.Schema$CaptionListResponse>;
+  // the caption track itself, as text in the given format
+  downloadCaption(params: {
+    id: string;
+    format: "vtt" | "srt";
+  }): Promise<string>;
+}
+
+export const createGoogleApisDataSource = (
+  apiKey: string | undefined = process.env.YT_API_KEY
+): YouTubeDataSource => {
+  // only complain once something actually needs the API, so the agents can
+  // still load (and run off fixtures) without a key
+  const client = () => {
+    if (!apiKey) {
+      throw new Error("YT_API_KEY is not set");
+    }
+    return google.youtube({ version: "v3", auth: apiKey });
+  };
+  // caption tracks can only be read with the owning channel's consent, an
+  // API key isn't enough
+  const captionsClient = () => {
+    const credentials = oauthCredentialsFromEnv();
+    if (!credentials) {
+      throw new Error(
+        "Reading captions needs YT_OAUTH_CLIENT_ID, YT_OAUTH_CLIENT_SECRET and YT_OAUTH_REFRESH_TOKEN"
+      );
+    }
+    return oauthYouTube(credentials);
+  };
+
+  return {
+    listVideos: async ({ id, part }) =>
+      (await client().videos.list({ part, id, maxResults: id.length })).data,
+    listCommentThreads: async ({ videoId, order, maxResults, pageToken }) =>
+      (
+        await client().commentThreads.list({
+          part: ["snippet", "replies"],
+          videoId,
+          order,
+          maxResults,
+          pageToken,
+          textFormat: "plainText",
+        })
+      ).data,
+    listComments: async ({ parentId, maxResults, pageToken }) =>
+      (
+        await client().comments.list({
+          part: ["snippet"],
+          parentId,
+          maxResults,
+          pageToken,
+          textFormat: "plainText",
+        })
+      ).data,
+    listChannels: async ({ id, part }) =>
+      (await client().channels.list({ part, id, maxResults: id.length })).data,
+    searchChannelVideos: async ({ channelId, maxResults }) =>
+      (
+        await client().search.list({
+          part: ["snippet"],
+          channelId,
+          type: ["video"],
+          order: "date",
+          maxResults,
+        })
+      ).data,
+    listPlaylistItems: async ({ playlistId, maxResults, pageToken }) =>
+      (
+        await client().playlistItems.list({
+          part: ["snippet", "contentDetails"],
+          playlistId,
+          maxResults,
+          pageToken,
+        })
+      ).data,
+    listCaptions: async ({ videoId }) =>
+      (await captionsClient().captions.list({ part: ["snippet"], videoId }))
+        .data,
+    downloadCaption: async ({ id, format }) =>
+      String(
+        (
+          await captionsClient().captions.download(
+            { id, tfmt: format },
+            { responseType: "text" }
+          )
+        ).data
+      ),
+  };
+};
+
+export class FIXTURE_NOT_FOUND_ERROR extends Error {
+  constructor(path: string) {
+    super(`No YouTube fixture recorded at ${path}`);
+    this.name = "FIXTURE_NOT_FOUND_ERROR";
+  }
+}
+
+/**
+ * Replays recorded API responses from disk. The layout under `dir` is one
+ * directory per endpoint with one file per resource:
+ *
+ *   videos/<videoId>.json                 videos.list response for that id
+ *   commentThreads/<videoId>.json         first page of commentThreads.list
+ *   commentThreads/<videoId>.<token>.json the page for `pageToken=<token>`
+ *   comments/<parentId>[.<token>].json    comments.list pages
+ *   channels/<channelId>.json             channels.list response for that id
+ *   search/<channelId>.json               search.list response
+ *   playlistItems/<playlistId>[.<token>].json
+ *   captions/<videoId>.json               captions.list response
+ *   captions/<captionId>.<vtt|srt>        the caption track as downloaded
+ *
+ * A video without a fixture is reported as not found, like the API does. Any
+ * other missing fixture is an error so tests can't silently pass on nothing.
+ */
+export const createFixtureDataSource = (dir: string): YouTubeDataSource => {
+  const read = async <T>(endpoint: string, id: string, pageToken?: string) => {
+    const file = join(
+      dir,
+      endpoint,
+      pageToken ? `${id}.${pageToken}.json` : `${id}.json`
+    );
+    const text = await readFile(file, "utf8").catch(() => null);
+    if (text === null) {
+      throw new FIXTURE_NOT_FOUND_ERROR(file);
+    }
+    return JSON.parse(text) as T;
+  };
+
+  return {
+    listVideos: async ({ id }) => {
+      const items: youtube_v3.Schema$Video[] = [];
+      for (const videoId of id) {
+        const r = await read<youtube_v3.Schema$VideoListResponse>(
+          "videos",
+          videoId
+        ).catch((e) => {
+          if (e instanceof FIXTURE_NOT_FOUND_ERROR) return { items: [] };
+          throw e;
+        });
+        items.push(...(r.items ?? []));
+      }
+      return { kind: "youtube#videoListResponse", items };
+    },
+    listCommentThreads: ({ videoId, pageToken }) =>
+      read("commentThreads", videoId, pageToken),
+    listComments: ({ parentId, pageToken }) =>
+      read("comments", parentId, pageToken),
+    listChannels: async ({ id }) => {
+      const items: youtube_v3.Schema$Channel[] = [];
+      for (const channelId of id) {
+        const r = await read<youtube_v3.Schema$ChannelListResponse>(
+          "channels",
+          channelId
+        );
+        items.push(...(r.items ?? []));
+      }
+      return { kind: "youtube#channelListResponse", items };
+    },
+    searchChannelVideos: ({ channelId }) => read("search", channelId),
+    listPlaylistItems: ({ playlistId, pageToken }) =>
+      read("playlistItems", playlistId, pageToken),
+    listCaptions: ({ videoId }) => read("captions", videoId),
+    downloadCaption: async ({ id, format }) => {
+      const file = join(dir, "captions", `${id}.${format}`);
+      const text = await readFile(file, "utf8").catch(() => null);
+      if (text === null) {
+        throw new FIXTURE_NOT_FOUND_ERROR(file);
+      }
+      return text;
+    },
+  };
+};
+
+/**
+ * Picks the backend for this run, the fixture backend when `YT_FIXTURES_DIR`
+ * is set and the real API otherwise. Calls go through the shared response
+ * cache first, and only the ones that miss it are charged to `agent` in the
+ * quota ledger. `cacheStats` is filled in as the run goes.
+ */
+export const createYouTubeDataSource = (options: {
+  ctx: AgentContext;
+  agent: string;
+  bypassCache?: boolean;
+}): YouTubeDataSource & { cacheStats: CacheStats } => {
+  const { ctx, agent, bypassCache } = options;
+
+  const fixturesDir = process.env.YT_FIXTURES_DIR;
+  const source = fixturesDir
+    ? createFixtureDataSource(fixturesDir)
+    : createGoogleApisDataSource();
+
+  const cacheStats = emptyCacheStats();
+
+  return {
+    ...withCache(withQuota(source, { ctx, agent }), {
+      ctx,
+      bypass: bypassCache,
+      stats: cacheStats,
+    }),
+    cacheStats,
+  };
+};
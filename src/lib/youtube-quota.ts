@@ -0,0 +1,190 @@
+import type { AgentContext } from "@agentuity/sdk";
+import z from "zod";
+import { withKeyLock } from "./concurrency";
+import type { YouTubeDataSource } from "./youtube-data-source";
+
+const KV_NAMESPACE = "youtube-quota";
+const DEFAULT_DAILY_BUDGET = 10_000;
+
+// unit cost of each call, from https://developers.google.com/youtube/v3/determine_quota_cost
+export const QUOTA_COSTS: Record<keyof YouTubeDataSource, number> = {
+  listVideos: 1,
+  listCommentThreads: 1,
+  listComments: 1,
+  listChannels: 1,
+  listPlaylistItems: 1,
+  searchChannelVideos: 100,
+  listCaptions: 50,
+  downloadCaption: 200,
+};
+
+export class QUOTA_EXCEEDED_ERROR extends Error {
+  constructor(
+    public readonly date: string,
+    public readonly used: number,
+    public readonly budget: number
+  ) {
+    super(
+      `YouTube API quota exhausted for ${date}: ${used} of ${budget} units used`
+    );
+    this.name = "QUOTA_EXCEEDED_ERROR";
+  }
+}
+
+export const quotaLedgerSchema = z.object({
+  date: z.string(),
+  total: z.number(),
+  byAgent: z.record(z.string(), z.number()),
+  byEndpoint: z.record(z.string(), z.number()),
+  calls: z.record(z.string(), z.number()),
+});
+
+export type QuotaLedger = z.infer<typeof quotaLedgerSchema>;
+
+export const dailyQuotaBudget = () => {
+  const value = Number(process.env.YT_DAILY_QUOTA_BUDGET);
+  return Number.isFinite(value) && value > 0 ? value : DEFAULT_DAILY_BUDGET;
+};
+
+// the API's quota resets at midnight Pacific time, so that's what a "day" is
+export const quotaDay = (at: Date = new Date()) =>
+  new Intl.DateTimeFormat("en-CA", {
+    timeZone: "America/Los_Angeles",
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+  }).format(at);
+
+const emptyLedger = (date: string): QuotaLedger => ({
+  date,
+  total: 0,
+  byAgent: {},
+  byEndpoint: {},
+  calls: {},
+});
+
+export const readQuotaLedger = async (
+  ctx: AgentContext,
+  date: string = quotaDay()
+): Promise<QuotaLedger> => {
+  const r = await ctx.kv.get(KV_NAMESPACE, date);
+  if (!r.exists) return emptyLedger(date);
+
+  const parsed = quotaLedgerSchema.safeParse(await r.data.json());
+  return parsed.success ? parsed.data : emptyLedger(date);
+};
+
+/**
+ * Wraps a data source so every call is charged against the day's ledger
+ * before it's made. Calls that would take the day over the budget fail with
+ * QUOTA_EXCEEDED_ERROR without reaching the API.
+ */
+export const withQuota = (
+  source: YouTubeDataSource,
+  options: { ctx: AgentContext; agent: string; dailyBudget?: number }
+): YouTubeDataSource => {
+  const { ctx, agent, dailyBudget = dailyQuotaBudget() } = options;
+
+  // charges are read-modify-write of the day's ledger, which every data
+  // source in this process shares, so they take turns
+  const charge = (endpoint: keyof YouTubeDataSource) => {
+    const cost = QUOTA_COSTS[endpoint];
+    const date = quotaDay();
+
+    return withKeyLock(`${KV_NAMESPACE}/${date}`, async () => {
+      const ledger = await readQuotaLedger(ctx, date);
+      if (ledger.total + cost > dailyBudget) {
+        throw new QUOTA_EXCEEDED_ERROR(ledger.date, ledger.total, dailyBudget);
+      }
+
+      ledger.total += cost;
+      ledger.byAgent[agent] = (ledger.byAgent[agent] ?? 0) + cost;
+      ledger.byEndpoint[endpoint] = (ledger.byEndpoint[endpoint] ?? 0) + cost;
+      ledger.calls[endpoint] = (ledger.calls[endpoint] ?? 0) + 1;
+
+      await ctx.kv.set(KV_NAMESPACE, ledger.date, JSON.stringify(ledger), {
+        contentType: "application/json",
+      });
+    });
+  };
+
+  return {
+    listVideos: async (params) => {
+      await charge("listVideos");
+      return source.listVideos(params);
+    },
+    listCommentThreads: async (params) => {
+      await charge("listCommentThreads");
+      return source.listCommentThreads(params);
+    },
+    listComments: async (params) => {
+      await charge("listComments");
+      return source.listComments(params);
+    },
+    listChannels: async (params) => {
+      await charge("listChannels");
+      return source.listChannels(params);
+    },
+    listPlaylistItems: async (params) => {
+      await charge("listPlaylistItems");
+      return source.listPlaylistItems(params);
+    },
+    listCaptions: async (params) => {
+      await charge("listCaptions");
+      return source.listCaptions(params);
+    },
+    downloadCaption: async (params) => {
+      await charge("downloadCaption");
+      return source.downloadCaption(params);
+    },
+    searchChannelVideos: async (params) => {
+      await charge("searchChannelVideos");
+      return source.searchChannelVideos(params);
+    },
+  };
+};
+
+const addInto = (
+  target: Record<string, number>,
+  from: Record<string, number>
+) => {
+  for (const [key, value] of Object.entries(from)) {
+    target[key] = (target[key] ?? 0) + value;
+  }
+};
+
+/**
+ * Spend for the `days` quota days ending at `until`, broken down by agent and
+ * by endpoint, with the totals across the whole range.
+ */
+export const getQuotaReport = async (
+  ctx: AgentContext,
+  options: { days?: number; until?: Date } = {}
+) => {
+  const { days = 1, until = new Date() } = options;
+
+  const ledgers: QuotaLedger[] = [];
+  for (let i = 0; i < days; i++) {
+    const at = new Date(until.getTime() - i * 24 * 60 * 60 * 1000);
+    ledgers.push(await readQuotaLedger(ctx, quotaDay(at)));
+  }
+
+  const totals = emptyLedger(
+    days === 1
+      ? quotaDay(until)
+      : `${ledgers.at(-1)?.date}..${ledgers[0]?.date}`
+  );
+  for (const ledger of ledgers) {
+    totals.total += ledger.total;
+    addInto(totals.byAgent, ledger.byAgent);
+    addInto(totals.byEndpoint, ledger.byEndpoint);
+    addInto(totals.calls, ledger.calls);
+  }
+
+  return {
+    dailyBudget: dailyQuotaBudget(),
+    remainingToday: Math.max(0, dailyQuotaBudget() - (ledgers[0]?.total ?? 0)),
+    totals,
+    days: ledgers,
+  };
+};
@@ -0,0 +1,408 @@
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import { join } from "node:path";
+import commentsWatcher from "../src/agents/comments-watcher/index";
+import legacyChannelBot from "../src/agents/legacy-channel-bot/index";
+import viewerFaq from "../src/agents/viewer-faq/index";
+import { addChannel } from "../src/lib/channel-registry";
+import { readRunState } from "../src/lib/channel-run-state";
+import type { RunRecord } from "../src/lib/run-ledger";
+import { readStatsHistory } from "../src/lib/snapshot-history";
+import { currentSections, readVideoMemory } from "../src/lib/video-memory";
+import { markVideoWatched } from "../src/lib/watched-videos";
+import {
+  createTestContext,
+  createTestRequest,
+  createTestResponse,
+  type TestResponse,
+} from "./support/agent-context";
+import { useScriptedModel } from "./support/scripted-model";
+
+// the agents read YouTube through createYouTubeDataSource, which replays the
+// recorded responses in here when YT_FIXTURES_DIR is set
+const FIXTURES_DIR = join(import.meta.dir, "fixtures", "youtube");
+const CHANNEL_ID = "UCdevchannel0000000000001";
+
+const fixturesDir = process.env.YT_FIXTURES_DIR;
+beforeEach(() => {
+  process.env.YT_FIXTURES_DIR = FIXTURES_DIR;
+});
+afterEach(() => {
+  if (fixturesDir === undefined) {
+    Reflect.deleteProperty(process.env, "YT_FIXTURES_DIR");
+  } else {
+    process.env.YT_FIXTURES_DIR = fixturesDir;
+  }
+});
+
+// the runs an agent wrote to the ledger, whatever day they landed on
+const ledger = (kv: Map<string, string>, agent: string): RunRecord[] =>
+  [...kv.entries()]
+    .filter(([key]) => key.startsWith("run-ledger/runs/"))
+    .filter(([key]) => key.endsWith(`/${agent}`))
+    .flatMap(([, value]) => JSON.parse(value));
+
+const toolNames = (run: RunRecord | undefined) =>
+  run?.steps.map((s) => s.toolCalls.map((c) => c.toolName));
+
+describe("comments-watcher", () => {
+  const snapshotInput = {
+    flaggedComments: [
+      {
+        category: "description_mistake",
+        commentId: "thr-0001",
+        text: "The sponsor link in the description is broken, 404s for me",
+        authorName: "@ana",
+        likeCount: 120,
+      },
+      {
+        category: "factual_correction",
+        commentId: "thr-0002",
+        text: "At 3:42 you said O(n log n) but the code is O(n^2)",
+        authorName: "@cara",
+        likeCount: 88,
+      },
+    ],
+    themes: [
+      { summary: "Broken sponsor link", sentiment: "negative" },
+      { summary: "Liked the router types", sentiment: "positive" },
+    ],
+    sentiment: { overall: "mixed", summary: "Liked, but the link is dead" },
+  };
+
+  test("runs the snapshot loop through the tools to saveSnapshot", async () => {
+    const { ctx, kv } = createTestContext();
+    const model = await useScriptedModel(ctx, "comments-watcher", [
+      {
+        toolCalls: [
+          { toolName: "readFromMemory", input: { videoId: "vid00000001" } },
+          { toolName: "getVideoInfo", input: { videoId: "vid00000001" } },
+        ],
+      },
+      {
+        toolCalls: [
+          { toolName: "getTopComments", input: { videoId: "vid00000001" } },
+        ],
+      },
+      { toolCalls: [{ toolName: "saveSnapshot", input: snapshotInput }] },
+    ]);
+
+    const response = (await commentsWatcher(
+      createTestRequest({
+        videoId: "vid00000001",
+        checkLinks: false,
+        confirmSpam: false,
+      }),
+      createTestResponse(),
+      ctx
+    )) as unknown as TestResponse;
+
+    expect(response).toMatchObject({
+      kind: "json",
+      data: {
+        success: true,
+        data: {
+          snapshot: {
+            videoId: "vid00000001",
+            video: {
+              title: "Building a type-safe router from scratch",
+              url: "https://www.youtube.com/watch?v=vid00000001",
+              duration: "PT9M12S",
+            },
+            stats: { viewCount: 48210, likeCount: 2310, commentCount: 412 },
+            flaggedComments: [
+              { commentId: "thr-0001" },
+              { commentId: "thr-0002" },
+            ],
+            sponsors: [{ name: "Acme Hosting" }],
+          },
+        },
+      },
+    });
+    expect(model.calls()).toHaveLength(3);
+    // the clusters getTopComments returned, with the ids to flag them by
+    expect(JSON.stringify(model.calls()[2]?.prompt)).toContain(
+      "The sponsor link in the description is broken, 404s for me"
+    );
+    expect(JSON.stringify(model.calls()[2]?.prompt)).toContain("thr-0001");
+
+    const memory = await readVideoMemory(ctx, "vid00000001");
+    expect(JSON.parse(currentSections(memory).snapshot ?? "{}")).toMatchObject({
+      videoId: "vid00000001",
+      sentiment: { overall: "mixed" },
+    });
+    expect(
+      await readStatsHistory({
+        ctx,
+        namespace: "comments-watcher",
+        videoId: "vid00000001",
+      })
+    ).toMatchObject([{ viewCount: 48210 }]);
+
+    const [run] = ledger(kv, "comments-watcher");
+    expect(run).toMatchObject({
+      status: "succeeded",
+      model: "comments-watcher-1",
+    });
+    expect(toolNames(run)).toEqual([
+      ["readFromMemory", "getVideoInfo"],
+      ["getTopComments"],
+      ["saveSnapshot"],
+    ]);
+  });
+
+  test("saves under the run's video with the stats YouTube gave", async () => {
+    const { ctx } = createTestContext();
+    await useScriptedModel(ctx, "comments-watcher", [
+      {
+        toolCalls: [
+          {
+            toolName: "saveSnapshot",
+            input: {
+              ...snapshotInput,
+              videoId: "vid00000002",
+              stats: { viewCount: 1, likeCount: 1, commentCount: 1 },
+            },
+          },
+        ],
+      },
+    ]);
+
+    await commentsWatcher(
+      createTestRequest({
+        videoId: "vid00000001",
+        checkLinks: false,
+        confirmSpam: false,
+      }),
+      createTestResponse(),
+      ctx
+    );
+
+    expect(
+      currentSections(await readVideoMemory(ctx, "vid00000002")).snapshot
+    ).toBeUndefined();
+    const memory = await readVideoMemory(ctx, "vid00000001");
+    expect(JSON.parse(currentSections(memory).snapshot ?? "{}")).toMatchObject({
+      videoId: "vid00000001",
+      stats: { viewCount: 48210, likeCount: 2310, commentCount: 412 },
+    });
+  });
+
+  test("exports the saved snapshot by channel id", async () => {
+    const { ctx } = createTestContext();
+    await useScriptedModel(ctx, "comments-watcher", [
+      { toolCalls: [{ toolName: "saveSnapshot", input: snapshotInput }] },
+    ]);
+    await commentsWatcher(
+      createTestRequest({
+        videoId: "vid00000001",
+        checkLinks: false,
+        confirmSpam: false,
+      }),
+      createTestResponse(),
+      ctx
+    );
+
+    const exported = (await commentsWatcher(
+      createTestRequest({ mode: "export", channel: CHANNEL_ID }),
+      createTestResponse(),
+      ctx
+    )) as unknown as TestResponse;
+
+    expect(exported.data).toMatchObject({
+      success: true,
+      data: { videos: [{ videoId: "vid00000001" }], missing: [] },
+    });
+
+    for (const [format, contentType] of [
+      ["csv", "text/csv; charset=utf-8"],
+      ["markdown", "text/markdown; charset=utf-8"],
+    ]) {
+      const response = (await commentsWatcher(
+        createTestRequest({ mode: "export", channel: CHANNEL_ID, format }),
+        createTestResponse(),
+        ctx
+      )) as unknown as TestResponse;
+
+      expect(response).toMatchObject({ kind: "data", contentType });
+      expect(response.data).toContain("vid00000001");
+    }
+  });
+
+  test("fails the run when the model stops without saving", async () => {
+    const { ctx, kv } = createTestContext();
+    await useScriptedModel(ctx, "comments-watcher", [
+      {
+        toolCalls: [
+          { toolName: "getVideoInfo", input: { videoId: "vid00000001" } },
+        ],
+      },
+      { text: "Looks fine to me." },
+    ]);
+
+    const response = (await commentsWatcher(
+      createTestRequest({
+        videoId: "vid00000001",
+        checkLinks: false,
+        confirmSpam: false,
+      }),
+      createTestResponse(),
+      ctx
+    )) as unknown as TestResponse;
+
+    expect(response.data).toMatchObject({
+      success: false,
+      error: { code: "llm_failed" },
+    });
+    expect(ledger(kv, "comments-watcher")).toMatchObject([
+      {
+        status: "failed",
+        error: "The model finished without saving a snapshot",
+      },
+    ]);
+    // nothing was saved, so there's no data point for the history either
+    expect(
+      await readStatsHistory({
+        ctx,
+        namespace: "comments-watcher",
+        videoId: "vid00000001",
+      })
+    ).toEqual([]);
+  });
+});
+
+describe("legacy-channel-bot", () => {
+  test("runs the channel loop and keeps what it found", async () => {
+    const { ctx, kv } = createTestContext();
+    await addChannel(ctx, { name: "Dev Channel", channelId: CHANNEL_ID });
+    const model = await useScriptedModel(ctx, "legacy-channel-bot", [
+      {
+        toolCalls: [
+          {
+            toolName: "get_recent_youtube_videos",
+            input: { channel: "Dev Channel" },
+          },
+        ],
+      },
+      {
+        toolCalls: [
+          { toolName: "get_video_memory", input: { video_id: "vid00000001" } },
+          {
+            toolName: "get_video_comments",
+            input: { video_id: "vid00000001", only_new: true },
+          },
+        ],
+      },
+      {
+        toolCalls: [
+          {
+            toolName: "save_video_memory",
+            input: {
+              video_id: "vid00000001",
+              base_revision: 0,
+              sections: { themes: "Broken sponsor link, liked the types" },
+            },
+          },
+        ],
+      },
+      { text: "1. Priority alerts: the sponsor link is broken." },
+    ]);
+
+    const response = (await legacyChannelBot(
+      createTestRequest({}),
+      createTestResponse(),
+      ctx
+    )) as unknown as TestResponse;
+
+    expect(response).toEqual({
+      kind: "text",
+      data: "1. Priority alerts: the sponsor link is broken.",
+      metadata: undefined,
+    });
+    expect(model.calls()).toHaveLength(4);
+    // the second call saw the channel's videos come back from the tool
+    expect(JSON.stringify(model.calls()[1]?.prompt)).toContain("vid00000002");
+
+    const memory = await readVideoMemory(ctx, "vid00000001");
+    expect(currentSections(memory)).toEqual({
+      themes: "Broken sponsor link, liked the types",
+    });
+    // committed once the run went through
+    expect(kv.get("video_memories/vid00000001/comments-watermark")).toBe(
+      "2026-10-14T09:30:00Z"
+    );
+
+    const [run] = ledger(kv, "legacy-channel-bot");
+    expect(run?.status).toBe("succeeded");
+    expect(toolNames(run)).toEqual([
+      ["get_recent_youtube_videos"],
+      ["get_video_memory", "get_video_comments"],
+      ["save_video_memory"],
+      [],
+    ]);
+  });
+
+  test("a manual full rescan leaves the watermark where it was", async () => {
+    const { ctx } = createTestContext();
+    await addChannel(ctx, { name: "Dev Channel", channelId: CHANNEL_ID });
+    await useScriptedModel(ctx, "legacy-channel-bot", [
+      { text: "Nothing new." },
+    ]);
+
+    await legacyChannelBot(
+      createTestRequest({ forceFullRescan: true }),
+      createTestResponse(),
+      ctx
+    );
+
+    expect(await readRunState(ctx, CHANNEL_ID)).toMatchObject({
+      lastRunStatus: "succeeded",
+      lastRunTrigger: "manual",
+      lastSuccessfulRunAt: null,
+    });
+  });
+});
+
+describe("viewer-faq", () => {
+  test("builds from the channel's watched videos by channel id", async () => {
+    const { ctx } = createTestContext();
+    await addChannel(ctx, { name: "Dev Channel", channelId: CHANNEL_ID });
+    const watched = {
+      title: "Building a type-safe router from scratch",
+      publishedAt: "2026-10-12T16:00:00Z",
+      lastSnapshotAt: "2026-10-19T12:00:00Z",
+    };
+    // renamed since, still the same channel
+    await markVideoWatched({
+      ctx,
+      namespace: "comments-watcher",
+      video: {
+        ...watched,
+        videoId: "vid00000001",
+        channelTitle: "Dev Channel (old name)",
+        channelId: CHANNEL_ID,
+      },
+    });
+    // another channel that happens to share the registry name
+    await markVideoWatched({
+      ctx,
+      namespace: "comments-watcher",
+      video: {
+        ...watched,
+        videoId: "vid00000002",
+        channelTitle: "Dev Channel",
+        channelId: "UCsomeoneelse00000000001",
+      },
+    });
+
+    const response = (await viewerFaq(
+      createTestRequest({ channel: "Dev Channel" }),
+      createTestResponse(),
+      ctx
+    )) as unknown as TestResponse;
+
+    expect(response.data).toMatchObject({
+      success: true,
+      data: { channelId: CHANNEL_ID, videosRead: 1, skipped: [] },
+    });
+  });
+});
@@ -0,0 +1,208 @@
+import { afterAll, beforeEach, describe, expect, test } from "bun:test";
+import {
+  ALERT_SINK_ERROR,
+  type AlertInput,
+  createAlertSink,
+  dispatchAlert,
+} from "../src/lib/alerts";
+import { createTestContext } from "./support/agent-context";
+
+// a local server standing in for the slack and webhook endpoints, it keeps
+// every body it gets and answers with whatever status the path asks for
+const received: Array<{ path: string; body: unknown }> = [];
+const server = Bun.serve({
+  port: 0,
+  fetch: async (req) => {
+    const { pathname } = new URL(req.url);
+    received.push({ path: pathname, body: await req.json() });
+    const status = Number(pathname.match(/^\/status\/(\d{3})/)?.[1] ?? 200);
+    return new Response("ok", { status });
+  },
+});
+const url = (path: string) => new URL(path, server.url).toString();
+
+afterAll(() => server.stop(true));
+beforeEach(() => {
+  received.length = 0;
+});
+
+const alert: AlertInput = {
+  severity: "critical",
+  kind: "sponsor_complaint",
+  video: {
+    videoId: "vid00000001",
+    title: "Building a type-safe router from scratch",
+    url: "https://www.youtube.com/watch?v=vid00000001",
+    channel: "Dev Channel",
+  },
+  reason: "12 comments say the promo code doesn't work",
+  evidence: ["The ACME10 code is expired", "code doesn't work :("],
+};
+
+describe("slack sink", () => {
+  test("posts the alert as blocks", async () => {
+    const { ctx } = createTestContext();
+    const sink = createAlertSink({ type: "slack", url: url("/slack") });
+
+    const { deliveries } = await dispatchAlert({ ctx, alert, sinks: [sink] });
+
+    expect(deliveries).toEqual([{ sink: "slack", status: "sent" }]);
+    expect(received).toHaveLength(1);
+    expect(received[0]).toMatchObject({
+      path: "/slack",
+      body: {
+        text: "🚨 [critical] Building a type-safe router from scratch: 12 comments say the promo code doesn't work",
+        blocks: [
+          {
+            type: "section",
+            text: {
+              type: "mrkdwn",
+              text: "*<https://www.youtube.com/watch?v=vid00000001|🚨 [critical] Building a type-safe router from scratch>*\n12 comments say the promo code doesn't work",
+            },
+          },
+          {
+            type: "section",
+            text: {
+              text: "> The ACME10 code is expired\n> code doesn't work :(",
+            },
+          },
+          {
+            type: "context",
+            elements: [{ text: "sponsor_complaint · Dev Channel" }],
+          },
+        ],
+      },
+    });
+  });
+
+  test("escapes comment text so it can't add links or mentions", async () => {
+    const { ctx } = createTestContext();
+    const sink = createAlertSink({ type: "slack", url: url("/slack") });
+
+    await dispatchAlert({
+      ctx,
+      alert: {
+        ...alert,
+        reason: "R&D <!channel> says hi",
+        evidence: ["<https://evil.example|click me> & <@U123>"],
+      },
+      sinks: [sink],
+    });
+
+    expect(received[0]?.body).toMatchObject({
+      text: "🚨 [critical] Building a type-safe router from scratch: R&amp;D &lt;!channel&gt; says hi",
+      blocks: [
+        {
+          text: {
+            text: "*<https://www.youtube.com/watch?v=vid00000001|🚨 [critical] Building a type-safe router from scratch>*\nR&amp;D &lt;!channel&gt; says hi",
+          },
+        },
+        {
+          text: {
+            text: "> &lt;https://evil.example|click me&gt; &amp; &lt;@U123&gt;",
+          },
+        },
+        {},
+      ],
+    });
+  });
+});
+
+describe("webhook sink", () => {
+  test("posts the alert as it is, with when it was sent", async () => {
+    const { ctx } = createTestContext();
+    const sink = createAlertSink({ type: "webhook", url: url("/hook") });
+
+    await dispatchAlert({ ctx, alert, sinks: [sink] });
+
+    expect(received).toHaveLength(1);
+    expect(received[0]?.path).toBe("/hook");
+    expect(received[0]?.body).toMatchObject({
+      ...alert,
+      sentAt: expect.any(String),
+    });
+  });
+
+  test("throws ALERT_SINK_ERROR for a non-2xx answer", async () => {
+    const sink = createAlertSink({ type: "webhook", url: url("/status/503") });
+
+    const sent = sink.send({ ...alert, evidence: [] });
+
+    await expect(sent).rejects.toBeInstanceOf(ALERT_SINK_ERROR);
+    await expect(sent).rejects.toMatchObject({ sink: "webhook", status: 503 });
+  });
+});
+
+describe("dispatchAlert", () => {
+  test("sends the same alert once per sink", async () => {
+    const { ctx } = createTestContext();
+    const sinks = [
+      createAlertSink({ type: "webhook", url: url("/hook") }),
+      createAlertSink({ type: "slack", url: url("/slack") }),
+    ];
+
+    await dispatchAlert({ ctx, alert, sinks });
+    const again = await dispatchAlert({ ctx, alert, sinks });
+
+    expect(received.map((r) => r.path).sort()).toEqual(["/hook", "/slack"]);
+    expect(again.deliveries.map((d) => d.status)).toEqual([
+      "duplicate",
+      "duplicate",
+    ]);
+  });
+
+  test("doesn't record a failed send, so the next run tries again", async () => {
+    const { ctx } = createTestContext();
+    const failing = createAlertSink({
+      type: "webhook",
+      url: url("/status/500"),
+    });
+
+    const first = await dispatchAlert({ ctx, alert, sinks: [failing] });
+    const second = await dispatchAlert({ ctx, alert, sinks: [failing] });
+
+    expect(first.deliveries).toEqual([
+      {
+        sink: "webhook",
+        status: "failed",
+        error: "Alert sink webhook responded with status 500",
+      },
+    ]);
+    expect(second.deliveries[0]?.status).toBe("failed");
+    expect(received).toHaveLength(2);
+  });
+
+  test("holds back what's below the threshold or in quiet hours", async () => {
+    const { ctx } = createTestContext();
+    const sink = createAlertSink({
+      type: "slack",
+      url: url("/slack"),
+      minSeverity: "warning",
+      quietHours: { start: "22:00", end: "07:00", timeZone: "UTC" },
+    });
+    const night = new Date("2026-10-19T23:30:00Z");
+
+    const info = await dispatchAlert({
+      ctx,
+      alert: { ...alert, severity: "info" },
+      sinks: [sink],
+    });
+    const warning = await dispatchAlert({
+      ctx,
+      alert: { ...alert, severity: "warning" },
+      sinks: [sink],
+      now: night,
+    });
+    const critical = await dispatchAlert({
+      ctx,
+      alert,
+      sinks: [sink],
+      now: night,
+    });
+
+    expect(info.deliveries[0]?.status).toBe("below_threshold");
+    expect(warning.deliveries[0]?.status).toBe("quiet_hours");
+    expect(critical.deliveries[0]?.status).toBe("sent");
+    expect(received).toHaveLength(1);
+  });
+});
@@ -0,0 +1,105 @@
+import { describe, expect, test } from "bun:test";
+import { readFileSync } from "node:fs";
+import { join } from "node:path";
+import {
+  type ClusterableComment,
+  clusterComments,
+} from "../src/lib/comment-clusters";
+
+const fixture = (name: string): ClusterableComment[] =>
+  JSON.parse(
+    readFileSync(join(import.meta.dir, "fixtures", "comments", name), "utf8")
+  );
+
+// a fixed reordering, so the tests don't depend on Math.random
+const shuffled = <T>(items: T[], seed: number) =>
+  items
+    .map((item, i) => ({ item, key: (i * 7919 + seed * 104729) % 1009 }))
+    .sort((a, b) => a.key - b.key)
+    .map(({ item }) => item);
+
+describe("clusterComments", () => {
+  test("groups repeated comments under their most liked wording", () => {
+    const clusters = clusterComments(fixture("bias-complaints.json"));
+
+    expect(
+      clusters.map((c) => ({
+        representative: c.representative,
+        commentIds: c.commentIds,
+      }))
+    ).toEqual([
+      {
+        representative: "This video feels really biased towards Next.js",
+        commentIds: ["c01", "c02", "c03"],
+      },
+      {
+        representative: "The audio is so much better in this one",
+        commentIds: ["c04", "c05"],
+      },
+      // equally liked, so the tie goes to the text
+      { representative: "first", commentIds: ["c09", "c08"] },
+      {
+        representative: "Can you do a video on Remix next?",
+        commentIds: ["c06"],
+      },
+    ]);
+    expect(clusters[0]).toMatchObject({
+      memberCount: 3,
+      totalLikes: 369,
+      totalReplies: 3,
+      sampleAuthors: ["@ana", "@ben", "@cara"],
+    });
+  });
+
+  test("leaves out comments with nothing to compare", () => {
+    const clusters = clusterComments(fixture("bias-complaints.json"));
+
+    expect(clusters.flatMap((c) => c.commentIds)).not.toContain("c07");
+  });
+
+  test("is stable whatever order the comments come in", () => {
+    const comments = fixture("bias-complaints.json");
+    const expected = clusterComments(comments);
+
+    for (const seed of [1, 2, 3, 4, 5]) {
+      expect(clusterComments(shuffled(comments, seed))).toEqual(expected);
+    }
+    expect(clusterComments([...comments].reverse())).toEqual(expected);
+  });
+
+  test("keeps replies with their thread instead of clustering them", () => {
+    const clusters = clusterComments(fixture("threads-with-replies.json"));
+
+    // three "Same here" replies, none of them a cluster of their own
+    expect(clusters.map((c) => c.representative)).toEqual([
+      "The sponsor link in the description 404s",
+      "What keyboard are you using?",
+    ]);
+    expect(clusters[0]).toMatchObject({
+      commentIds: ["t01", "t02"],
+      totalReplies: 4,
+      sampleReplies: [
+        {
+          text: "Fixed now, thanks for the heads up!",
+          authorName: "Dev Channel",
+          likeCount: 40,
+        },
+        {
+          text: "Works if you drop the trailing slash",
+          authorName: "@gus",
+          likeCount: 9,
+        },
+        { text: "Same here", authorName: "@ben", likeCount: 4 },
+      ],
+    });
+    expect(clusters[1]?.sampleReplies[0]).toMatchObject({
+      text: "Looks like a Keychron Q1",
+    });
+  });
+
+  test("a higher threshold splits what a lower one merges", () => {
+    const comments = fixture("threads-with-replies.json");
+
+    expect(clusterComments(comments, { threshold: 0.95 })).toHaveLength(3);
+  });
+});
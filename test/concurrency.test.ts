@@ -0,0 +1,148 @@
+import { describe, expect, test } from "bun:test";
+import { withKeyLock } from "../src/lib/concurrency";
+import { createRunTracker } from "../src/lib/run-ledger";
+import {
+  addViewerFaqQuestions,
+  answerFaqEntry,
+  readViewerFaq,
+} from "../src/lib/viewer-faq";
+import { markVideoWatched, readWatchedVideos } from "../src/lib/watched-videos";
+import type { YouTubeDataSource } from "../src/lib/youtube-data-source";
+import { readQuotaLedger, withQuota } from "../src/lib/youtube-quota";
+import { createTestContext } from "./support/agent-context";
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+describe("withKeyLock", () => {
+  test("runs calls for one key one after the other, other keys alongside", async () => {
+    const events: string[] = [];
+    const task = (name: string, ms: number) => async () => {
+      events.push(`${name} start`);
+      await sleep(ms);
+      events.push(`${name} end`);
+    };
+
+    await Promise.all([
+      withKeyLock("a", task("a1", 20)),
+      withKeyLock("a", task("a2", 1)),
+      withKeyLock("b", task("b1", 1)),
+    ]);
+
+    expect(events).toEqual([
+      "a1 start",
+      "b1 start",
+      "b1 end",
+      "a1 end",
+      "a2 start",
+      "a2 end",
+    ]);
+  });
+
+  test("carries on after a call that throws", async () => {
+    const failed = withKeyLock("c", async () => {
+      throw new Error("nope");
+    });
+    const next = withKeyLock("c", async () => "done");
+
+    await expect(failed).rejects.toThrow("nope");
+    await expect(next).resolves.toBe("done");
+  });
+});
+
+// what a batch of snapshots does to the keys they all share
+describe("concurrent writes to shared keys", () => {
+  const videoIds = Array.from({ length: 6 }, (_, i) => `vid0000000${i}`);
+
+  test("keep every video in the watched index", async () => {
+    const { ctx } = createTestContext();
+
+    await Promise.all(
+      videoIds.map((videoId) =>
+        markVideoWatched({
+          ctx,
+          namespace: "comments-watcher",
+          video: {
+            videoId,
+            title: videoId,
+            channelTitle: "Dev Channel",
+            publishedAt: "2026-10-12T16:00:00Z",
+            lastSnapshotAt: "2026-10-19T12:00:00Z",
+          },
+        })
+      )
+    );
+
+    const watched = await readWatchedVideos({
+      ctx,
+      namespace: "comments-watcher",
+    });
+    expect(watched.map((v) => v.videoId).sort()).toEqual(videoIds);
+  });
+
+  test("keep every run in the ledger", async () => {
+    const { ctx, kv } = createTestContext();
+
+    await Promise.all(
+      videoIds.map((videoId) =>
+        createRunTracker({ ctx, agent: "test", runId: videoId }).finish({
+          status: "succeeded",
+        })
+      )
+    );
+
+    const runs = [...kv.entries()]
+      .filter(([key]) => key.startsWith("run-ledger/runs/"))
+      .flatMap(([, value]) => JSON.parse(value));
+    expect(runs.map((r: { runId: string }) => r.runId).sort()).toEqual(
+      videoIds
+    );
+  });
+
+  test("charge every call to the quota ledger", async () => {
+    const { ctx } = createTestContext();
+    const source = {
+      listVideos: async () => ({ items: [] }),
+    } as unknown as YouTubeDataSource;
+
+    // a data source per run, as each agent run makes its own
+    await Promise.all(
+      videoIds.map((videoId) =>
+        withQuota(source, { ctx, agent: videoId }).listVideos({
+          id: [videoId],
+          part: ["statistics"],
+        })
+      )
+    );
+
+    expect((await readQuotaLedger(ctx)).total).toBe(videoIds.length);
+  });
+
+  test("keep an FAQ answer saved while a build merges questions", async () => {
+    const { ctx } = createTestContext();
+    const question = (commentId: string, text: string) => ({
+      commentId,
+      videoId: "vid00000001",
+      videoTitle: "Building a type-safe router from scratch",
+      text,
+      likeCount: 3,
+      publishedAt: "2026-10-19T12:00:00Z",
+    });
+    const {
+      faq: { entries },
+    } = await addViewerFaqQuestions(ctx, "UCdev", [
+      question("thr-0004", "What font is that in your editor?"),
+    ]);
+    const id = entries[0]?.id ?? "";
+
+    await Promise.all([
+      addViewerFaqQuestions(ctx, "UCdev", [
+        question("thr-0005", "Will you cover nested routes next?"),
+      ]),
+      answerFaqEntry({ ctx, channelId: "UCdev", id, answer: "Berkeley Mono" }),
+    ]);
+
+    const faq = await readViewerFaq(ctx, "UCdev");
+    expect(faq.entries).toHaveLength(2);
+    expect(faq.entries.find((e) => e.id === id)?.answer).toBe("Berkeley Mono");
+  });
+});
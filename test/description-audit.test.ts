@@ -0,0 +1,427 @@
+import { afterEach, describe, expect, mock, spyOn, test } from "bun:test";
+import {
+  auditChapters,
+  auditDescription,
+  checkLinks,
+  createHttpLinkFetcher,
+  extractLinks,
+  isPrivateAddress,
+  type LinkFetcher,
+  matchLinkComplaints,
+  parseTimestamp,
+} from "../src/lib/description-audit";
+
+// answers from a fixed table instead of the network, anything not in it is
+// unreachable
+const stubFetcher =
+  (statuses: Record<string, number>): LinkFetcher =>
+  async (url) => {
+    const status = statuses[url];
+    if (status === undefined) throw new Error(`getaddrinfo ENOTFOUND ${url}`);
+    return { ok: status >= 200 && status < 300, status };
+  };
+
+const issueTypes = (description: string) =>
+  auditChapters(description).issues.map((i) => i.type);
+
+describe("extractLinks", () => {
+  test("counts each link once with its occurrences, without sentence punctuation", () => {
+    expect(
+      extractLinks(
+        [
+          "Code: https://github.com/dev/router.",
+          "Sponsor: https://acme.example/dev?utm_source=yt, check them out!",
+          "(again: https://github.com/dev/router)",
+        ].join("\n")
+      )
+    ).toEqual([
+      { url: "https://github.com/dev/router", occurrences: 2 },
+      { url: "https://acme.example/dev?utm_source=yt", occurrences: 1 },
+    ]);
+  });
+});
+
+describe("parseTimestamp", () => {
+  test.each([
+    ["0:00", 0],
+    ["00:00", 0],
+    ["9:59", 599],
+    ["59:59", 3599],
+    ["1:00:00", 3600],
+    ["1:02:03", 3723],
+    ["10:00:00", 36000],
+    // minutes past the hour mark are fine without an hour part
+    ["75:00", 4500],
+  ])("%s is %d seconds", (timestamp, seconds) => {
+    expect(parseTimestamp(timestamp)).toBe(seconds);
+  });
+
+  test.each([
+    ["1:60"],
+    ["1:75"],
+    ["1:60:00"],
+    ["1:5"],
+    ["1:005"],
+    ["a:bc"],
+    ["1:2b"],
+    ["1:2:03:45"],
+    ["42"],
+  ])("%s is not a timestamp", (timestamp) => {
+    expect(parseTimestamp(timestamp)).toBeNull();
+  });
+});
+
+describe("auditChapters", () => {
+  test("reads a valid chapter list in the usual formats", () => {
+    const { chapters, issues } = auditChapters(
+      [
+        "Chapters:",
+        "0:00 Intro",
+        "(1:30) The router",
+        "[12:05] - Types",
+        "1:02:03 | Outro",
+      ].join("\n")
+    );
+
+    expect(issues).toEqual([]);
+    expect(chapters).toEqual([
+      { timestamp: "0:00", seconds: 0, title: "Intro" },
+      { timestamp: "1:30", seconds: 90, title: "The router" },
+      { timestamp: "12:05", seconds: 725, title: "Types" },
+      { timestamp: "1:02:03", seconds: 3723, title: "Outro" },
+    ]);
+  });
+
+  test("a description without chapters has no issues", () => {
+    expect(auditChapters("Just a video about routers.")).toEqual({
+      chapters: [],
+      issues: [],
+    });
+  });
+
+  test("flags a list that doesn't start at 0:00", () => {
+    expect(issueTypes("0:05 Intro\n1:00 Middle\n2:00 End")).toEqual([
+      "first_not_zero",
+    ]);
+  });
+
+  test("flags fewer than three chapters", () => {
+    expect(issueTypes("0:00 Intro\n1:00 End")).toEqual(["too_few"]);
+  });
+
+  test("flags chapters shorter than ten seconds", () => {
+    const { issues } = auditChapters("0:00 Intro\n0:09 Blink\n1:00 End");
+
+    expect(issues).toEqual([
+      {
+        type: "too_short",
+        message: "The chapter at 0:00 is shorter than 10 seconds",
+        timestamp: "0:00",
+      },
+    ]);
+  });
+
+  test("ten seconds exactly is long enough", () => {
+    expect(issueTypes("0:00 Intro\n0:10 Middle\n1:00 End")).toEqual([]);
+  });
+
+  test("flags out of order, duplicate and untitled chapters", () => {
+    expect(
+      issueTypes(
+        ["0:00 Intro", "5:00 Setup", "2:00 Setup", "5:00 Again", "9:00"].join(
+          "\n"
+        )
+      )
+    ).toEqual([
+      "missing_title",
+      "out_of_order",
+      "duplicate_title",
+      "duplicate_timestamp",
+    ]);
+  });
+
+  test("reports malformed timestamps and leaves them out of the chapters", () => {
+    const { chapters, issues } = auditChapters(
+      "0:00 Intro\n1:75 Broken\n2:00 Middle\n3:00 End"
+    );
+
+    expect(chapters.map((c) => c.timestamp)).toEqual(["0:00", "2:00", "3:00"]);
+    expect(issues).toEqual([
+      {
+        type: "malformed_timestamp",
+        message: '"1:75" is not a valid timestamp',
+        timestamp: "1:75",
+      },
+    ]);
+  });
+});
+
+describe("checkLinks", () => {
+  test("sorts links into ok, broken and unreachable with the stub", async () => {
+    const checks = await checkLinks(
+      [
+        { url: "https://ok.example", occurrences: 1 },
+        { url: "https://gone.example", occurrences: 2 },
+        { url: "https://nowhere.example", occurrences: 1 },
+      ],
+      {
+        fetcher: stubFetcher({
+          "https://ok.example": 200,
+          "https://gone.example": 404,
+        }),
+      }
+    );
+
+    expect(checks).toEqual([
+      {
+        url: "https://ok.example",
+        occurrences: 1,
+        status: "ok",
+        httpStatus: 200,
+      },
+      {
+        url: "https://gone.example",
+        occurrences: 2,
+        status: "broken",
+        httpStatus: 404,
+      },
+      {
+        url: "https://nowhere.example",
+        occurrences: 1,
+        status: "unreachable",
+        error: "getaddrinfo ENOTFOUND https://nowhere.example",
+      },
+    ]);
+  });
+
+  test("keeps to the concurrency limit", async () => {
+    let inFlight = 0;
+    let most = 0;
+    const fetcher: LinkFetcher = async () => {
+      inFlight += 1;
+      most = Math.max(most, inFlight);
+      await new Promise((resolve) => setTimeout(resolve, 5));
+      inFlight -= 1;
+      return { ok: true, status: 200 };
+    };
+
+    await checkLinks(
+      Array.from({ length: 8 }, (_, i) => ({
+        url: `https://site${i}.example`,
+        occurrences: 1,
+      })),
+      { fetcher, concurrency: 3 }
+    );
+
+    expect(most).toBe(3);
+  });
+});
+
+describe("createHttpLinkFetcher", () => {
+  // public.example is a public host, internal.example one that resolves into
+  // the private network
+  const resolveHost = async (hostname: string) =>
+    hostname === "internal.example" ? ["10.0.0.5"] : ["93.184.216.34"];
+
+  // answers each url from the table, a string is a redirect to it
+  const stubFetch = (answers: Record<string, number | string>) =>
+    spyOn(globalThis, "fetch").mockImplementation((async (
+      input: string | URL | Request
+    ) => {
+      const answer = answers[input.toString()];
+      if (answer === undefined) throw new Error(`unexpected fetch ${input}`);
+      return typeof answer === "string"
+        ? new Response(null, { status: 302, headers: { location: answer } })
+        : new Response(null, { status: answer });
+    }) as typeof fetch);
+
+  afterEach(() => {
+    mock.restore();
+  });
+
+  test("follows redirects to public hosts", async () => {
+    const fetchSpy = stubFetch({
+      "https://public.example/dev": "/dev/",
+      "https://public.example/dev/": 200,
+    });
+    const fetcher = createHttpLinkFetcher({ resolveHost });
+
+    expect(await fetcher("https://public.example/dev")).toEqual({
+      ok: true,
+      status: 200,
+    });
+    expect(fetchSpy.mock.calls.map(([, init]) => init?.redirect)).toEqual([
+      "manual",
+      "manual",
+    ]);
+  });
+
+  test.each([
+    ["ftp://public.example/file", "Not an http(s) link: ftp:"],
+    ["http://127.0.0.1:8080/admin", "Not checking a link to an IP address"],
+    ["http://[::1]/", "Not checking a link to an IP address"],
+    [
+      "http://169.254.169.254/latest/meta-data",
+      "Not checking a link to an IP address",
+    ],
+    ["https://internal.example/", "Not checking a link to a private address"],
+  ])("refuses %s", async (url, error) => {
+    const fetchSpy = stubFetch({});
+    const fetcher = createHttpLinkFetcher({ resolveHost });
+
+    await expect(fetcher(url)).rejects.toThrow(error);
+    expect(fetchSpy).not.toHaveBeenCalled();
+  });
+
+  test("refuses a redirect into the private network", async () => {
+    const fetchSpy = stubFetch({
+      "https://public.example/go": "http://internal.example/secrets",
+    });
+    const fetcher = createHttpLinkFetcher({ resolveHost });
+
+    await expect(fetcher("https://public.example/go")).rejects.toThrow(
+      "Not checking a link to a private address: internal.example"
+    );
+    expect(fetchSpy).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe("isPrivateAddress", () => {
+  test.each([
+    ["10.1.2.3"],
+    ["172.16.0.1"],
+    ["172.31.255.255"],
+    ["192.168.1.1"],
+    ["127.0.0.1"],
+    ["169.254.169.254"],
+    ["100.64.0.1"],
+    ["0.0.0.0"],
+    ["::1"],
+    ["fd00::1"],
+    ["fe80::1"],
+    ["::ffff:127.0.0.1"],
+  ])("%s is private", (address) => {
+    expect(isPrivateAddress(address)).toBe(true);
+  });
+
+  test.each([["93.184.216.34"], ["172.32.0.1"], ["8.8.8.8"], ["2606:4700::1"]])(
+    "%s is public",
+    (address) => {
+      expect(isPrivateAddress(address)).toBe(false);
+    }
+  );
+});
+
+describe("auditDescription", () => {
+  test("lists the links unchecked without a fetcher", async () => {
+    const audit = await auditDescription({
+      description: "0:00 Intro\nCode: https://github.com/dev/router",
+    });
+
+    expect(audit.links).toEqual([
+      {
+        url: "https://github.com/dev/router",
+        occurrences: 1,
+        status: "unchecked",
+      },
+    ]);
+    expect(audit.chapterIssues.map((i) => i.type)).toEqual(["too_few"]);
+    expect(audit.linkComplaints).toEqual([]);
+  });
+});
+
+describe("matchLinkComplaints", () => {
+  const audit = {
+    links: [
+      {
+        url: "https://github.com/dev/router",
+        occurrences: 1,
+        status: "ok" as const,
+      },
+      {
+        url: "https://acme.example/dev?utm_source=yt",
+        occurrences: 1,
+        status: "broken" as const,
+        httpStatus: 404,
+      },
+    ],
+  };
+  const comment = (commentId: string, text: string) => ({
+    commentId,
+    text,
+    authorName: "@viewer",
+    likeCount: 3,
+  });
+
+  test("ties a broken link complaint to the dead link it names", () => {
+    expect(
+      matchLinkComplaints([comment("c1", "The acme link is broken")], audit)
+    ).toEqual([
+      {
+        commentId: "c1",
+        text: "The acme link is broken",
+        authorName: "@viewer",
+        likeCount: 3,
+        kind: "broken",
+        subject: "acme",
+        link: "https://acme.example/dev?utm_source=yt",
+      },
+    ]);
+  });
+
+  test("falls back to the only dead link when the complaint doesn't say which", () => {
+    const [complaint] = matchLinkComplaints(
+      [comment("c1", "dead link in the description?")],
+      audit
+    );
+
+    expect(complaint).toMatchObject({
+      kind: "broken",
+      link: "https://acme.example/dev?utm_source=yt",
+    });
+  });
+
+  test("points a missing link complaint at the link that's already there", () => {
+    const complaints = matchLinkComplaints(
+      [
+        comment("c1", "Where's the github link?"),
+        comment("c2", "Can you add a link to the slides"),
+      ],
+      audit
+    );
+
+    expect(
+      complaints.map(({ commentId, kind, subject, presentAs }) => ({
+        commentId,
+        kind,
+        subject,
+        presentAs,
+      }))
+    ).toEqual([
+      {
+        commentId: "c1",
+        kind: "missing",
+        subject: "github",
+        presentAs: "https://github.com/dev/router",
+      },
+      {
+        commentId: "c2",
+        kind: "missing",
+        subject: "slides",
+        presentAs: undefined,
+      },
+    ]);
+  });
+
+  test("leaves ordinary comments alone", () => {
+    expect(
+      matchLinkComplaints(
+        [
+          comment("c1", "Great video, linked it to my whole team"),
+          comment("c2", "The router types are brilliant"),
+        ],
+        audit
+      )
+    ).toEqual([]);
+  });
+});
@@ -0,0 +1,90 @@
+import { describe, expect, test } from "bun:test";
+import {
+  buildErrataTimeline,
+  type ErrataReport,
+  errataReportsFrom,
+} from "../src/lib/errata";
+
+const report = (
+  commentId: string | undefined,
+  seconds: number,
+  text = `something at ${seconds}`
+): ErrataReport => ({ commentId, text, seconds, raw: String(seconds) });
+
+describe("errataReportsFrom", () => {
+  test("picks up comments about the edit", () => {
+    for (const text of [
+      "The audio cuts out at 3:42",
+      "Audio goes out of sync around 12:10",
+      "You said the same sentence twice at 4:05",
+      "Black screen at 1:02:03 for a few seconds",
+      "Typo in the code at 5:30",
+      "Looks like you forgot to cut the retake at 7:15",
+    ]) {
+      expect(errataReportsFrom({ text })).toHaveLength(1);
+    }
+  });
+
+  test("leaves ordinary comments with a timestamp alone", () => {
+    for (const text of [
+      "At 3:42 you said O(n log n) but the code is O(n^2), that's wrong",
+      "The jump from 2:00 to the demo was great",
+      "I watched 4:20 twice because it was so good",
+      "Can you edit my code like you did at 6:10?",
+      "Got an error at 8:00 when I ran it myself",
+    ]) {
+      expect(errataReportsFrom({ text })).toEqual([]);
+    }
+  });
+
+  test("keeps the comment id on each report", () => {
+    expect(
+      errataReportsFrom(
+        { commentId: "c1", text: "mic cuts out at 1:00 and 2:00" },
+        { assumeMistake: true }
+      ).map((r) => [r.commentId, r.seconds])
+    ).toEqual([
+      ["c1", 60],
+      ["c1", 120],
+    ]);
+  });
+});
+
+describe("buildErrataTimeline", () => {
+  test("measures the window from the first report of an entry", () => {
+    // eight seconds apart, each within ten of the one before
+    const { entries } = buildErrataTimeline(
+      [0, 8, 16, 24, 32].map((s, i) => report(`c${i}`, 100 + s))
+    );
+
+    expect(
+      entries.map((e) => [e.startSeconds, e.endSeconds, e.reportCount])
+    ).toEqual([
+      [100, 108, 2],
+      [116, 124, 2],
+      [132, 132, 1],
+    ]);
+  });
+
+  test("counts a comment flagged by the model and the tool once", () => {
+    const { entries } = buildErrataTimeline([
+      report("c1", 222, "the audio cuts out at 3:42"),
+      // the model's flag, reworded but with the same comment id
+      report("c1", 222, "Audio cuts out at 3:42"),
+      report("c2", 225, "audio dropped at 3:45"),
+    ]);
+
+    expect(entries).toHaveLength(1);
+    expect(entries[0]?.reportCount).toBe(2);
+  });
+
+  test("sets aside timestamps past the end of the video", () => {
+    const { entries, rejected } = buildErrataTimeline(
+      [report("c1", 60), report("c2", 900)],
+      { duration: "PT9M12S" }
+    );
+
+    expect(entries.map((e) => e.timestamp)).toEqual(["1:00"]);
+    expect(rejected.map((r) => r.commentId)).toEqual(["c2"]);
+  });
+});
@@ -0,0 +1,101 @@
+import { describe, expect, test } from "bun:test";
+import { APICallError, generateText } from "ai";
+import { MockLanguageModelV2 } from "ai/test";
+import { registerModelProvider, resolveModel } from "../src/lib/model-config";
+import { createTestContext } from "./support/agent-context";
+import { createScriptedModel } from "./support/scripted-model";
+
+const overloaded = () =>
+  new APICallError({
+    message: "Overloaded",
+    url: "https://api.example/v1/responses",
+    requestBodyValues: {},
+    statusCode: 529,
+  });
+
+// models that fail the way they're named, the fallback answers "fallback"
+const failures: Record<string, () => Error> = {
+  overloaded,
+  aborted: () =>
+    Object.assign(new Error("This operation was aborted"), {
+      name: "AbortError",
+    }),
+  buggy: () => new TypeError("Cannot read properties of undefined"),
+};
+registerModelProvider(
+  "failing",
+  (ref) =>
+    new MockLanguageModelV2({
+      provider: "failing",
+      modelId: ref.model,
+      doGenerate: async ({ abortSignal }) => {
+        // hangs until the run is stopped, then fails like a provider would
+        if (ref.model === "stalled") {
+          await new Promise((resolve) =>
+            abortSignal?.addEventListener("abort", resolve)
+          );
+          throw overloaded();
+        }
+        throw failures[ref.model]?.() ?? new Error(`No failure ${ref.model}`);
+      },
+    })
+);
+registerModelProvider("fallback", () =>
+  createScriptedModel([{ text: "fallback" }], "fallback")
+);
+
+const resolve = async (failure: string) => {
+  const { ctx, logs } = createTestContext();
+  await ctx.kv.set("model-config", "test", {
+    provider: "failing",
+    model: failure,
+    fallbacks: [{ provider: "fallback", model: "fallback" }],
+  });
+  const { model } = await resolveModel({
+    ctx,
+    agent: "test",
+    defaults: { provider: "openai", model: "gpt-5-mini", maxSteps: 1 },
+  });
+  return { model, logs };
+};
+
+describe("resolveModel fallbacks", () => {
+  test("fall back when the provider fails", async () => {
+    const { model, logs } = await resolve("overloaded");
+
+    const { text } = await generateText({ model, prompt: "hi", maxRetries: 0 });
+
+    expect(text).toBe("fallback");
+    expect(logs.map(({ level, args }) => [level, args[0]])).toEqual([
+      ["warn", "test: failing:overloaded failed, trying the next model"],
+    ]);
+  });
+
+  test("don't fall back once the run is aborted", async () => {
+    const { model, logs } = await resolve("stalled");
+    const controller = new AbortController();
+    setTimeout(() => controller.abort(), 5);
+
+    await expect(
+      generateText({
+        model,
+        prompt: "hi",
+        maxRetries: 0,
+        abortSignal: controller.signal,
+      })
+    ).rejects.toThrow();
+    expect(logs).toEqual([]);
+  });
+
+  test.each([["aborted"], ["buggy"]])(
+    "don't fall back when the model is %s",
+    async (failure) => {
+      const { model, logs } = await resolve(failure);
+
+      await expect(
+        generateText({ model, prompt: "hi", maxRetries: 0 })
+      ).rejects.toThrow();
+      expect(logs).toEqual([]);
+    }
+  );
+});
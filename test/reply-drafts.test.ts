@@ -0,0 +1,172 @@
+import { describe, expect, test } from "bun:test";
+import type { CommentPublisher } from "../src/lib/comment-publisher";
+import {
+  approveReplyDraft,
+  listReplyDrafts,
+  queueReplyDrafts,
+} from "../src/lib/reply-drafts";
+import { createTestContext } from "./support/agent-context";
+
+// a publisher that records what it posted, `onPublish` runs once it has
+const stubPublisher = (
+  onPublish: () => void = () => {}
+): CommentPublisher & { posted: string[] } => {
+  const posted: string[] = [];
+  return {
+    name: "stub",
+    posted,
+    publishReply: async ({ parentId }) => {
+      posted.push(parentId);
+      onPublish();
+      return { commentId: `reply-${posted.length}`, publishedAt: "now" };
+    },
+  };
+};
+
+const queueDraft = async (ctx: ReturnType<typeof createTestContext>["ctx"]) => {
+  const [draft] = await queueReplyDrafts(ctx, "vid00000001", [
+    {
+      videoTitle: "Building a type-safe router from scratch",
+      commentId: "thr-0004",
+      commentText: "What font is that in your editor?",
+      commentAuthor: "@eve",
+      commentLikes: 30,
+      draft: "It's Berkeley Mono!",
+      voice: "casual",
+    },
+  ]);
+  if (!draft) throw new Error("draft wasn't queued");
+  return draft;
+};
+
+describe("approveReplyDraft", () => {
+  test("publishes the draft and records the reply", async () => {
+    const { ctx } = createTestContext();
+    const { id } = await queueDraft(ctx);
+    const publisher = stubPublisher();
+
+    const published = await approveReplyDraft({ ctx, id, publisher });
+
+    expect(published).toMatchObject({
+      status: "published",
+      publishedWith: "stub",
+      publishedReplyId: "reply-1",
+    });
+    expect(publisher.posted).toEqual(["thr-0004"]);
+  });
+
+  test("a draft that failed to publish can be approved again", async () => {
+    const { ctx } = createTestContext();
+    const { id } = await queueDraft(ctx);
+    const failing: CommentPublisher = {
+      name: "stub",
+      publishReply: async () => {
+        throw new Error("quota exceeded");
+      },
+    };
+
+    await expect(
+      approveReplyDraft({ ctx, id, publisher: failing })
+    ).rejects.toThrow("quota exceeded");
+    expect((await listReplyDrafts(ctx))[0]).toMatchObject({
+      status: "failed",
+      publishError: "quota exceeded",
+    });
+
+    const published = await approveReplyDraft({
+      ctx,
+      id,
+      publisher: stubPublisher(),
+    });
+    expect(published.status).toBe("published");
+  });
+
+  test("never publishes twice when saving the published reply fails", async () => {
+    const { ctx } = createTestContext();
+    const { id } = await queueDraft(ctx);
+    const set = ctx.kv.set;
+    // only the write right after publishing fails
+    let failNextWrite = false;
+    ctx.kv.set = (async (...args: Parameters<typeof set>) => {
+      if (failNextWrite) {
+        failNextWrite = false;
+        throw new Error("kv unavailable");
+      }
+      return set(...args);
+    }) as typeof set;
+    const publisher = stubPublisher(() => {
+      failNextWrite = true;
+    });
+
+    await expect(approveReplyDraft({ ctx, id, publisher })).rejects.toThrow(
+      "kv unavailable"
+    );
+
+    // still approved, not failed, so it can't be approved again
+    expect((await listReplyDrafts(ctx))[0]?.status).toBe("approved");
+    await expect(
+      approveReplyDraft({ ctx, id, publisher })
+    ).rejects.toMatchObject({ error: { code: "conflict" } });
+    expect(publisher.posted).toHaveLength(1);
+  });
+});
+
+describe("concurrent approvals", () => {
+  test("publish a draft approved twice at once only once", async () => {
+    const { ctx } = createTestContext();
+    const { id } = await queueDraft(ctx);
+    const publisher = stubPublisher();
+
+    const results = await Promise.allSettled([
+      approveReplyDraft({ ctx, id, publisher }),
+      approveReplyDraft({ ctx, id, publisher }),
+    ]);
+
+    expect(publisher.posted).toHaveLength(1);
+    expect(results.map((r) => r.status).sort()).toEqual([
+      "fulfilled",
+      "rejected",
+    ]);
+    expect(results.find((r) => r.status === "rejected")).toMatchObject({
+      reason: { error: { code: "conflict" } },
+    });
+  });
+
+  test("keep both drafts' changes when approving two on one video", async () => {
+    const { ctx } = createTestContext();
+    const [first, second] = await queueReplyDrafts(ctx, "vid00000001", [
+      {
+        videoTitle: "Building a type-safe router from scratch",
+        commentId: "thr-0004",
+        commentText: "What font is that in your editor?",
+        commentAuthor: "@eve",
+        commentLikes: 30,
+        draft: "It's Berkeley Mono!",
+        voice: "casual",
+      },
+      {
+        videoTitle: "Building a type-safe router from scratch",
+        commentId: "thr-0005",
+        commentText: "Will you cover nested routes?",
+        commentAuthor: "@fay",
+        commentLikes: 12,
+        draft: "Maybe, we'll see!",
+        voice: "casual",
+      },
+    ]);
+    if (!first || !second) throw new Error("drafts weren't queued");
+    const publisher = stubPublisher();
+
+    await Promise.all([
+      approveReplyDraft({ ctx, id: first.id, publisher }),
+      approveReplyDraft({ ctx, id: second.id, publisher }),
+    ]);
+
+    expect(
+      (await listReplyDrafts(ctx)).map((d) => [d.commentId, d.status]).sort()
+    ).toEqual([
+      ["thr-0004", "published"],
+      ["thr-0005", "published"],
+    ]);
+  });
+});
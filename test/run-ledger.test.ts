@@ -0,0 +1,32 @@
+import { afterEach, describe, expect, test } from "bun:test";
+import { createRunTracker, modelPrices } from "../src/lib/run-ledger";
+import { createTestContext } from "./support/agent-context";
+
+describe("modelPrices", () => {
+  const modelPricesEnv = process.env.MODEL_PRICES;
+  afterEach(() => {
+    if (modelPricesEnv === undefined) {
+      Reflect.deleteProperty(process.env, "MODEL_PRICES");
+    } else {
+      process.env.MODEL_PRICES = modelPricesEnv;
+    }
+  });
+
+  test("adds the MODEL_PRICES entries to the defaults", () => {
+    process.env.MODEL_PRICES = JSON.stringify({
+      "my-model": { input: 1, output: 2 },
+    });
+
+    expect(modelPrices()["my-model"]).toEqual({ input: 1, output: 2 });
+  });
+
+  test("falls back to the defaults on a MODEL_PRICES that isn't JSON", () => {
+    process.env.MODEL_PRICES = "{not json";
+    const { ctx, logs } = createTestContext();
+
+    expect(() => createRunTracker({ ctx, agent: "test" })).not.toThrow();
+    expect(logs.map(({ level, args }) => [level, args[0]])).toEqual([
+      ["warn", "MODEL_PRICES is not valid JSON, using the default prices"],
+    ]);
+  });
+});
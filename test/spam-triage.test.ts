@@ -0,0 +1,92 @@
+import { describe, expect, test } from "bun:test";
+import { readFileSync } from "node:fs";
+import { join } from "node:path";
+import {
+  type SpamSignalKind,
+  type SpamVerdict,
+  type TriageComment,
+  combineSignals,
+  triageComments,
+} from "../src/lib/spam-triage";
+
+const comments: TriageComment[] = JSON.parse(
+  readFileSync(
+    join(import.meta.dir, "fixtures", "comments", "spam-triage.json"),
+    "utf8"
+  )
+);
+
+const CHANNEL = {
+  names: ["Theo", "t3.gg"],
+  channelId: "UCtheo000000000000000001",
+};
+
+const withSignal = (verdicts: SpamVerdict[], kind: SpamSignalKind) =>
+  verdicts
+    .filter((v) => v.signals.some((s) => s.kind === kind))
+    .map((v) => v.comment.commentId);
+
+describe("triageComments", () => {
+  const verdicts = triageComments(comments, CHANNEL);
+
+  test("spots the channel's name behind lookalike characters and filler words", () => {
+    // "Th3o Official Support" and "@T-H-E-O_help", but not "Theo Fan Club"
+    expect(withSignal(verdicts, "impersonation")).toEqual(["s01", "s02"]);
+  });
+
+  test("never flags the channel's own comments", () => {
+    expect(verdicts.map((v) => v.comment.commentId)).not.toContain("s04");
+  });
+
+  test("finds shortened links by their host", () => {
+    // github.com, bit.ly.example.com and a bare "bit.ly" don't count
+    expect(withSignal(verdicts, "link_shortener")).toEqual(["s05", "s06"]);
+    expect(
+      verdicts.find((v) => v.comment.commentId === "s06")?.signals
+    ).toEqual([
+      {
+        kind: "link_shortener",
+        detail: "shortened link https://www.tinyurl.com/abc123",
+      },
+    ]);
+  });
+
+  test("flags the same text only from enough different authors", () => {
+    // two authors, text too short to count, and one author three times
+    // aren't enough
+    expect(withSignal(verdicts, "repeated_text")).toEqual([
+      "s08",
+      "s09",
+      "s10",
+    ]);
+  });
+
+  test("flags combined signals, keeps single weak ones borderline, highest first", () => {
+    expect(
+      verdicts.map((v) => ({
+        id: v.comment.commentId,
+        score: v.score,
+        borderline: v.borderline,
+      }))
+    ).toEqual([
+      { id: "s01", score: 0.85, borderline: false },
+      { id: "s02", score: 0.7, borderline: false },
+      { id: "s05", score: 0.4, borderline: true },
+      { id: "s06", score: 0.4, borderline: true },
+      { id: "s08", score: 0.4, borderline: true },
+      { id: "s09", score: 0.4, borderline: true },
+      { id: "s10", score: 0.4, borderline: true },
+    ]);
+  });
+});
+
+describe("combineSignals", () => {
+  test("counts each kind of signal once", () => {
+    const shortener = { kind: "link_shortener" as const, detail: "" };
+
+    expect(combineSignals([shortener, shortener])).toBeCloseTo(0.4);
+    expect(
+      combineSignals([shortener, { kind: "repeated_text", detail: "" }])
+    ).toBeCloseTo(0.64);
+  });
+});
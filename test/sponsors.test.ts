@@ -0,0 +1,113 @@
+import { describe, expect, test } from "bun:test";
+import { extractSponsors, sponsorsMentionedIn } from "../src/lib/sponsors";
+
+const knownSponsors = ["Supabase", "Vercel"];
+
+describe("extractSponsors", () => {
+  test("finds the sponsor of a segment and its tracking link", () => {
+    const sponsors = extractSponsors(
+      [
+        "Today we build a router.",
+        "",
+        "Thanks to Brilliant for sponsoring! https://brilliant.org/dev?utm_source=youtube",
+      ].join("\n"),
+      { knownSponsors }
+    );
+
+    expect(sponsors).toEqual([
+      {
+        name: "Brilliant",
+        evidence: ["segment", "tracking_link"],
+        links: ["https://brilliant.org/dev?utm_source=youtube"],
+        segment:
+          "Thanks to Brilliant for sponsoring! https://brilliant.org/dev?utm_source=youtube",
+      },
+    ]);
+  });
+
+  test("doesn't take a name mentioned in passing for a sponsor", () => {
+    const sponsors = extractSponsors(
+      "I deploy everything on Vercel and keep the data in Supabase.\nhttps://github.com/dev/router",
+      { knownSponsors }
+    );
+
+    expect(sponsors).toEqual([]);
+  });
+
+  test("finds a known sponsor named with a code or linked to", () => {
+    const sponsors = extractSponsors(
+      [
+        "Get 20% off Supabase with code ROUTER20",
+        "Deploy it yourself: https://vercel.com/new",
+        "Source code: https://github.com/dev/router",
+      ].join("\n"),
+      { knownSponsors }
+    );
+
+    expect(sponsors).toEqual([
+      { name: "Supabase", evidence: ["known_name"], links: [] },
+      {
+        name: "Vercel",
+        evidence: ["known_name"],
+        links: ["https://vercel.com/new"],
+      },
+    ]);
+  });
+
+  test("adds the known name to what a segment already found", () => {
+    const sponsors = extractSponsors(
+      "This video is sponsored by Supabase https://supabase.com/dev",
+      { knownSponsors }
+    );
+
+    expect(sponsors).toEqual([
+      {
+        name: "Supabase",
+        evidence: ["segment", "known_name"],
+        links: ["https://supabase.com/dev"],
+        segment: "This video is sponsored by Supabase https://supabase.com/dev",
+      },
+    ]);
+  });
+
+  test("splits a segment that names several known sponsors", () => {
+    const sponsors = extractSponsors(
+      "This video is sponsored by Vercel and Supabase",
+      { knownSponsors }
+    );
+
+    expect(sponsors.map((s) => s.name)).toEqual(["Vercel", "Supabase"]);
+  });
+
+  test("skips lines that say there is no sponsor", () => {
+    for (const line of [
+      "This video is not sponsored by anyone",
+      "No sponsor today, just me",
+      "This video isn't brought to you by anybody",
+      "Sponsored by: nobody",
+    ]) {
+      expect(extractSponsors(line, { knownSponsors })).toEqual([]);
+    }
+  });
+});
+
+describe("sponsorsMentionedIn", () => {
+  const sponsors = [
+    { name: "Brilliant", links: ["https://brilliant.org/dev?utm_source=yt"] },
+  ];
+
+  test("ignores the name used as a word", () => {
+    expect(sponsorsMentionedIn("Brilliant video as always", sponsors)).toEqual(
+      []
+    );
+  });
+
+  test("counts the name when the comment is about the sponsorship", () => {
+    expect(
+      sponsorsMentionedIn("The Brilliant promo code didn't work", sponsors)
+    ).toEqual(["Brilliant"]);
+    expect(
+      sponsorsMentionedIn("brilliant.org/dev gives me a 404", sponsors)
+    ).toEqual(["Brilliant"]);
+  });
+});
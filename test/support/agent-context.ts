@@ -0,0 +1,109 @@
+import type { AgentContext, AgentRequest, AgentResponse } from "@agentuity/sdk";
+
+/**
+ * A request carrying `body` as JSON, with the trigger the agent sees (the
+ * platform sets "cron" for scheduled runs).
+ */
+export const createTestRequest = (body: unknown, trigger = "manual") =>
+  ({
+    trigger,
+    data: {
+      contentType: "application/json",
+      json: async () => body,
+      text: async () => JSON.stringify(body),
+    },
+  }) as unknown as AgentRequest;
+
+/**
+ * A response whose methods hand back what they were given, so a test can look
+ * at what the handler returned.
+ */
+export const createTestResponse = () => {
+  const reply =
+    (kind: string) => (data: unknown, metadata?: Record<string, unknown>) => ({
+      kind,
+      data,
+      metadata,
+    });
+
+  return {
+    json: reply("json"),
+    text: reply("text"),
+    html: reply("html"),
+    markdown: reply("markdown"),
+    binary: reply("binary"),
+    data: (
+      data: unknown,
+      contentType: string,
+      metadata?: Record<string, unknown>
+    ) => ({ kind: "data", data, contentType, metadata }),
+  } as unknown as AgentResponse;
+};
+
+// what createTestResponse's methods return, `contentType` is set by `data`
+export type TestResponse = {
+  kind: string;
+  data: unknown;
+  contentType?: string;
+  metadata?: Record<string, unknown>;
+};
+
+/**
+ * A stand-in for the parts of AgentContext the agents use: an in-memory KV
+ * store and a logger that keeps what it was given. `kv` is exposed so tests
+ * can look at (or seed) what the code under test stored.
+ */
+export const createTestContext = (options: { runId?: string } = {}) => {
+  const kv = new Map<string, string>();
+  const logs: Array<{ level: string; args: unknown[] }> = [];
+
+  const log =
+    (level: string) =>
+    (...args: unknown[]) => {
+      logs.push({ level, args });
+    };
+
+  const ctx = {
+    runId: options.runId ?? "test-run",
+    kv: {
+      get: async (namespace: string, key: string) => {
+        const value = kv.get(`${namespace}/${key}`);
+        if (value === undefined) return { exists: false };
+        return {
+          exists: true,
+          data: {
+            json: async () => JSON.parse(value),
+            text: async () => value,
+          },
+        };
+      },
+      set: async (namespace: string, key: string, value: unknown) => {
+        kv.set(
+          `${namespace}/${key}`,
+          typeof value === "string" ? value : JSON.stringify(value)
+        );
+      },
+      delete: async (namespace: string, key: string) => {
+        kv.delete(`${namespace}/${key}`);
+      },
+    },
+    logger: {
+      debug: log("debug"),
+      info: log("info"),
+      warn: log("warn"),
+      error: log("error"),
+      child: () => ctx.logger,
+    },
+  };
+
+  return {
+    ctx: ctx as unknown as AgentContext,
+    kv,
+    logs,
+    // what the code under test stored under `namespace/key`, parsed
+    stored: (namespace: string, key: string): unknown => {
+      const value = kv.get(`${namespace}/${key}`);
+      return value === undefined ? undefined : JSON.parse(value);
+    },
+  };
+};
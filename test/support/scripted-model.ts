@@ -0,0 +1,80 @@
+import type { AgentContext } from "@agentuity/sdk";
+import { MockLanguageModelV2 } from "ai/test";
+import { registerModelProvider } from "../../src/lib/model-config";
+
+export type ScriptedStep = {
+  text?: string;
+  toolCalls?: Array<{ toolName: string; input: unknown }>;
+};
+
+/**
+ * A model that plays back `script` one step per call, returning the scripted
+ * text and tool calls. Once the script runs out it stops with empty text.
+ */
+export const createScriptedModel = (
+  script: ScriptedStep[],
+  modelId = "scripted"
+) => {
+  let call = 0;
+
+  return new MockLanguageModelV2({
+    provider: "scripted",
+    modelId,
+    doGenerate: async () => {
+      const { text, toolCalls = [] } = script[call] ?? {};
+      const index = call;
+      call += 1;
+
+      return {
+        content: [
+          ...(text ? [{ type: "text" as const, text }] : []),
+          ...toolCalls.map((toolCall, i) => ({
+            type: "tool-call" as const,
+            toolCallId: `scripted-${index}-${i}`,
+            toolName: toolCall.toolName,
+            input: JSON.stringify(toolCall.input ?? {}),
+          })),
+        ],
+        finishReason: toolCalls.length > 0 ? "tool-calls" : "stop",
+        usage: { inputTokens: 0, outputTokens: 0, totalTokens: 0 },
+        warnings: [],
+      };
+    },
+  });
+};
+
+const scripts = new Map<string, ScriptedStep[]>();
+const models = new Map<string, MockLanguageModelV2[]>();
+
+// every resolveModel call starts the script over with a fresh model
+registerModelProvider("scripted", (ref) => {
+  const script = scripts.get(ref.model);
+  if (!script) throw new Error(`No script registered as ${ref.model}`);
+
+  const model = createScriptedModel(script, ref.model);
+  models.set(ref.model, [...(models.get(ref.model) ?? []), model]);
+  return model;
+});
+
+/**
+ * Points `agent`'s model config in KV at `script`, so a run through the
+ * agent's handler plays it back. Returns the prompts each step was called
+ * with, to check what the tools gave the model.
+ */
+export const useScriptedModel = async (
+  ctx: AgentContext,
+  agent: string,
+  script: ScriptedStep[]
+) => {
+  const name = `${agent}-${scripts.size + 1}`;
+  scripts.set(name, script);
+  await ctx.kv.set("model-config", agent, {
+    provider: "scripted",
+    model: name,
+  });
+
+  return {
+    calls: () =>
+      (models.get(name) ?? []).flatMap((model) => model.doGenerateCalls),
+  };
+};
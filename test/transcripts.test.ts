@@ -0,0 +1,145 @@
+import { describe, expect, test } from "bun:test";
+import {
+  detectCaptionFormat,
+  parseCaptions,
+  searchTranscript,
+  type Transcript,
+  type TranscriptSegment,
+} from "../src/lib/transcripts";
+
+const VTT = [
+  "WEBVTT",
+  "Kind: captions",
+  "Language: en",
+  "",
+  "NOTE recorded in one take",
+  "",
+  "STYLE",
+  "::cue { color: white }",
+  "",
+  "intro",
+  "00:00:00.000 --> 00:00:04.500 align:start position:0%",
+  "<v Dev>Welcome back to the channel</v>",
+  "",
+  "00:00:04.500 --> 00:00:09.000",
+  "today we build a <c>router</c> &amp; its types",
+].join("\n");
+
+const SRT = [
+  "1",
+  "00:03:40,000 --> 00:03:44,250",
+  "so this sort is O(n log n)",
+  "",
+  "2",
+  "00:03:44,250 --> 00:03:48,000",
+  "which is as good as it gets",
+  "",
+].join("\r\n");
+
+// auto captions carry the previous cue's line above each new one, with
+// word timings inline
+const AUTO_VTT = [
+  "WEBVTT",
+  "",
+  "00:00:01.000 --> 00:00:03.000",
+  "so<00:00:01.500><c> the</c><00:00:02.000><c> audio</c>",
+  "",
+  "00:00:03.000 --> 00:00:03.010",
+  "so the audio",
+  "",
+  "00:00:03.010 --> 00:00:05.000",
+  "so the audio",
+  "cuts out right here",
+  "",
+  "00:00:05.000 --> 00:00:07.000",
+  "cuts out right here",
+].join("\n");
+
+const transcriptOf = (segments: TranscriptSegment[]): Transcript => ({
+  videoId: "vid00000001",
+  source: "request",
+  language: "en",
+  format: "vtt",
+  storedAt: "2026-10-19T12:00:00Z",
+  segments,
+});
+
+describe("parseCaptions", () => {
+  test("reads WebVTT cues, skipping headers, notes, styles and settings", () => {
+    expect(detectCaptionFormat(VTT)).toBe("vtt");
+    expect(parseCaptions(VTT)).toEqual([
+      { start: 0, end: 4.5, text: "Welcome back to the channel" },
+      { start: 4.5, end: 9, text: "today we build a router & its types" },
+    ]);
+  });
+
+  test("reads SRT cues with comma decimals and CRLF line endings", () => {
+    expect(detectCaptionFormat(SRT)).toBe("srt");
+    expect(parseCaptions(SRT)).toEqual([
+      { start: 220, end: 224.25, text: "so this sort is O(n log n)" },
+      { start: 224.25, end: 228, text: "which is as good as it gets" },
+    ]);
+  });
+
+  test("keeps each line of auto captions once", () => {
+    expect(parseCaptions(AUTO_VTT)).toEqual([
+      { start: 1, end: 3.01, text: "so the audio" },
+      { start: 3.01, end: 7, text: "cuts out right here" },
+    ]);
+  });
+
+  test("skips cues with unreadable timings", () => {
+    expect(
+      parseCaptions(
+        "WEBVTT\n\naa:bb --> 00:01.000\nlost\n\n00:01.000 --> 00:02.000\nkept"
+      )
+    ).toEqual([{ start: 1, end: 2, text: "kept" }]);
+  });
+});
+
+describe("searchTranscript", () => {
+  const transcript = transcriptOf([
+    { start: 10, end: 14, text: "first we sort the list" },
+    { start: 14, end: 18, text: "which is O(n log n)" },
+    { start: 200, end: 204, text: "and now we sort the routes" },
+    { start: 220, end: 224, text: "this sort is O(n log n)" },
+    { start: 224, end: 228, text: "which is as good as it gets" },
+  ]);
+
+  test("returns what was said around a time", () => {
+    expect(searchTranscript(transcript, { at: 222, windowSeconds: 5 })).toEqual(
+      [
+        {
+          start: 220,
+          end: 228,
+          timestamp: "3:40",
+          text: "this sort is O(n log n) which is as good as it gets",
+          score: 1,
+        },
+      ]
+    );
+  });
+
+  test("finds a phrase anywhere, across cues, ignoring punctuation", () => {
+    const matches = searchTranscript(transcript, {
+      phrase: "sort the list, which is O(n log n)",
+    });
+
+    expect(matches[0]).toMatchObject({ start: 10, end: 18, score: 1 });
+  });
+
+  test("finds the phrase near the timestamp when given both", () => {
+    const matches = searchTranscript(transcript, {
+      at: 222,
+      phrase: "O(n log n)",
+    });
+
+    expect(matches.map((m) => m.timestamp)).toEqual(["3:40"]);
+  });
+
+  test("finds nothing for a phrase that wasn't said", () => {
+    expect(
+      searchTranscript(transcript, { phrase: "quadratic time complexity" })
+    ).toEqual([]);
+  });
+});
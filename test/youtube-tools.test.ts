@@ -0,0 +1,290 @@
+import { afterEach, describe, expect, test } from "bun:test";
+import { join } from "node:path";
+import {
+  getTopComments,
+  getVideoInfo,
+} from "../src/agents/comments-watcher/index";
+import {
+  getRecentVideosFromChannel,
+  getVideoComments,
+} from "../src/agents/legacy-channel-bot/index";
+import {
+  createFixtureDataSource,
+  createYouTubeDataSource,
+} from "../src/lib/youtube-data-source";
+import { createTestContext } from "./support/agent-context";
+
+const FIXTURES_DIR = join(import.meta.dir, "fixtures", "youtube");
+const CHANNEL_ID = "UCdevchannel0000000000001";
+
+const youtube = createFixtureDataSource(FIXTURES_DIR);
+
+describe("getVideoInfo", () => {
+  test("reads the video's details and statistics", async () => {
+    const { ctx } = createTestContext();
+
+    const result = await getVideoInfo({ videoId: "vid00000001", youtube, ctx });
+
+    expect(result._unsafeUnwrap()).toEqual({
+      title: "Building a type-safe router from scratch",
+      description:
+        "Sponsored by Acme Hosting: https://acme.example/dev\n\n0:00 Intro\n1:30 The router\n7:45 Outro",
+      channelTitle: "Dev Channel",
+      channelId: CHANNEL_ID,
+      publishedAt: "2026-10-12T16:00:00Z",
+      duration: "PT9M12S",
+      viewCount: "48210",
+      likeCount: "2310",
+      commentCount: "412",
+      thumbnail: "https://i.ytimg.com/vi/vid00000001/hqdefault.jpg",
+    });
+  });
+
+  test("is null for a video that wasn't recorded", async () => {
+    const { ctx } = createTestContext();
+
+    const result = await getVideoInfo({ videoId: "missing0001", youtube, ctx });
+
+    expect(result._unsafeUnwrap()).toBeNull();
+  });
+});
+
+describe("getTopComments", () => {
+  test("pages through every thread and expands the replies", async () => {
+    const { ctx } = createTestContext();
+
+    const result = await getTopComments({
+      videoId: "vid00000001",
+      youtube,
+      ctx,
+    });
+    const { threads, pagesFetched, truncated } = result._unsafeUnwrap();
+
+    expect(pagesFetched).toBe(2);
+    expect(truncated).toBe(false);
+    expect(threads.map((t) => t.commentId)).toEqual([
+      "thr-0001",
+      "thr-0002",
+      "thr-0003",
+      "thr-0004",
+      "thr-0005",
+    ]);
+    // only one of the three replies is embedded in the thread
+    expect(threads[0]?.replies.map((r) => r.commentId)).toEqual([
+      "thr-0001.rep-0001",
+      "thr-0001.rep-0002",
+      "thr-0001.rep-0003",
+    ]);
+    expect(threads[3]?.replies[0]).toMatchObject({
+      authorName: "Dev Channel",
+      authorChannelId: CHANNEL_ID,
+    });
+  });
+
+  test("stops at the budget", async () => {
+    const { ctx } = createTestContext();
+
+    const result = await getTopComments({
+      videoId: "vid00000001",
+      maxResults: 2,
+      youtube,
+      ctx,
+    });
+    const { threads, pagesFetched, truncated } = result._unsafeUnwrap();
+
+    expect(threads).toHaveLength(2);
+    expect(pagesFetched).toBe(1);
+    expect(truncated).toBe(true);
+  });
+
+  test("onlyNew returns the watermark without committing it", async () => {
+    const { ctx, kv } = createTestContext();
+
+    const result = await getTopComments({
+      videoId: "vid00000001",
+      onlyNew: true,
+      youtube,
+      ctx,
+    });
+
+    expect(result._unsafeUnwrap()).toMatchObject({
+      since: null,
+      watermark: "2026-10-14T09:30:00Z",
+    });
+    expect([...kv.keys()]).not.toContain(
+      "comments-watcher/vid00000001/comments-watermark"
+    );
+  });
+
+  test("fails with youtube_unavailable when the comments can't be read", async () => {
+    const { ctx } = createTestContext();
+
+    const result = await getTopComments({
+      videoId: "vid00000002",
+      youtube,
+      ctx,
+    });
+
+    expect(result._unsafeUnwrapErr()).toMatchObject({
+      code: "youtube_unavailable",
+      message: "Failed to get top comments for videoId: vid00000002",
+    });
+  });
+});
+
+describe("getRecentVideosFromChannel", () => {
+  test("lists the uploads playlist with each video's statistics", async () => {
+    const videos = await getRecentVideosFromChannel(youtube, CHANNEL_ID);
+
+    expect(videos).toEqual([
+      {
+        videoId: "vid00000002",
+        title: "Why I stopped using ORMs",
+        description: "Raw SQL, one year later.",
+        // when the video went up, not when it was added to the playlist
+        publishedAt: "2026-10-16T17:00:00Z",
+        link: "https://www.youtube.com/watch?v=vid00000002",
+        viewCount: 9120,
+        likeCount: 611,
+        commentCount: 97,
+      },
+      {
+        videoId: "vid00000001",
+        title: "Building a type-safe router from scratch",
+        description: "Sponsored by Acme Hosting: https://acme.example/dev",
+        publishedAt: "2026-10-12T16:00:00Z",
+        link: "https://www.youtube.com/watch?v=vid00000001",
+        viewCount: 48210,
+        likeCount: 2310,
+        commentCount: 412,
+      },
+    ]);
+  });
+
+  test("throws for a channel without an uploads playlist", async () => {
+    await expect(
+      getRecentVideosFromChannel(youtube, "UCmissing")
+    ).rejects.toThrow();
+  });
+});
+
+describe("getVideoComments", () => {
+  test("maps the threads without replies by default", async () => {
+    const comments = await getVideoComments(youtube, "vid00000001", 3);
+
+    expect(comments).toEqual([
+      {
+        text: "The sponsor link in the description is broken, 404s for me",
+        authorName: "@ana",
+        likeCount: 120,
+        publishedAt: "2026-10-14T09:30:00Z",
+        replies: [],
+      },
+      {
+        text: "At 3:42 you said O(n log n) but the code is O(n^2)",
+        authorName: "@cara",
+        likeCount: 88,
+        publishedAt: "2026-10-14T08:10:00Z",
+        replies: [],
+      },
+      {
+        text: "Great explanation of the router types!",
+        authorName: "@dev",
+        likeCount: 45,
+        publishedAt: "2026-10-13T21:00:00Z",
+        replies: [],
+      },
+    ]);
+  });
+
+  test("includes every reply when asked to", async () => {
+    const comments = await getVideoComments(youtube, "vid00000001", 40, {
+      expandReplies: true,
+    });
+
+    expect(comments).toHaveLength(5);
+    expect(comments[0]?.replies.map((r) => r.authorName)).toEqual([
+      "@ben",
+      "@gus",
+      "Dev Channel",
+    ]);
+  });
+
+  test("only_new skips what an earlier committed watermark covers", async () => {
+    const { ctx } = createTestContext();
+    const watermarks = new Map<string, string>();
+
+    const first = await getVideoComments(youtube, "vid00000001", 40, {
+      ctx,
+      onlyNew: true,
+      watermarks,
+    });
+    expect(first).toHaveLength(5);
+    expect(watermarks.get("vid00000001")).toBe("2026-10-14T09:30:00Z");
+
+    // nothing committed yet, so the same comments come back
+    const again = await getVideoComments(youtube, "vid00000001", 40, {
+      ctx,
+      onlyNew: true,
+    });
+    expect(again).toHaveLength(5);
+
+    await ctx.kv.set(
+      "video_memories",
+      "vid00000001/comments-watermark",
+      "2026-10-13T21:00:00Z"
+    );
+    const newer = await getVideoComments(youtube, "vid00000001", 40, {
+      ctx,
+      onlyNew: true,
+    });
+    expect(newer.map((c) => c.authorName)).toEqual(["@ana", "@cara"]);
+  });
+
+  test("wraps failures in a youtube_unavailable error", async () => {
+    await expect(
+      getVideoComments(youtube, "vid00000002")
+    ).rejects.toMatchObject({ error: { code: "youtube_unavailable" } });
+  });
+});
+
+describe("createYouTubeDataSource", () => {
+  const fixturesDir = process.env.YT_FIXTURES_DIR;
+  afterEach(() => {
+    if (fixturesDir === undefined) {
+      Reflect.deleteProperty(process.env, "YT_FIXTURES_DIR");
+    } else {
+      process.env.YT_FIXTURES_DIR = fixturesDir;
+    }
+  });
+
+  test("replays fixtures through the cache and the quota ledger", async () => {
+    process.env.YT_FIXTURES_DIR = FIXTURES_DIR;
+    const { ctx } = createTestContext();
+    const source = createYouTubeDataSource({ ctx, agent: "test" });
+
+    await getVideoInfo({ videoId: "vid00000001", youtube: source, ctx });
+    await getVideoInfo({ videoId: "vid00000001", youtube: source, ctx });
+
+    expect(source.cacheStats).toMatchObject({ hits: 1, misses: 1 });
+  });
+
+  test("never serves newest-first comment pages from the cache", async () => {
+    process.env.YT_FIXTURES_DIR = FIXTURES_DIR;
+    const { ctx } = createTestContext();
+    const source = createYouTubeDataSource({ ctx, agent: "test" });
+
+    for (let i = 0; i < 2; i++) {
+      await source.listCommentThreads({
+        videoId: "vid00000001",
+        order: "time",
+        maxResults: 20,
+      });
+    }
+
+    expect(source.cacheStats.byEndpoint.listCommentThreads).toEqual({
+      hits: 0,
+      misses: 2,
+    });
+  });
+});